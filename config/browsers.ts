@@ -0,0 +1,37 @@
+/**
+ * Browser deviations - Known differences between the engines the suite runs on
+ * Matching tests are annotated instead of skipped, so every browser keeps a full row in the matrix
+ */
+
+export type BrowserName = 'chromium' | 'firefox' | 'webkit';
+
+/**
+ * One known difference
+ * - fail: the test is expected to fail on these browsers (test.fail - reported if it starts passing)
+ * - note: the test runs normally; the difference is annotated on it
+ */
+export interface BrowserDeviation {
+  browsers: BrowserName[];
+  /** Title pattern of the affected tests (all tests when omitted) */
+  tests?: RegExp;
+  expectation: 'fail' | 'note';
+  description: string;
+}
+
+export const BROWSER_DEVIATIONS: BrowserDeviation[] = [
+  {
+    browsers: ['firefox', 'webkit'],
+    expectation: 'note',
+    description: 'No buffered largest-contentful-paint entries: performance metrics leave LCP empty and lcpMs budgets are not checked',
+  },
+];
+
+/**
+ * Deviations that apply to a test on one browser
+ * @param browser - Engine of the project
+ * @param title - Test title path ("Suite › Test")
+ * @param deviations - Known deviations (default: BROWSER_DEVIATIONS)
+ */
+export function deviationsFor(browser: BrowserName, title: string, deviations: BrowserDeviation[] = BROWSER_DEVIATIONS): BrowserDeviation[] {
+  return deviations.filter(deviation => deviation.browsers.includes(browser) && (!deviation.tests || deviation.tests.test(title)));
+}
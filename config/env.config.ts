@@ -1,26 +1,149 @@
+import { getMarketplace } from './marketplaces';
+import { loadBudgets } from './performance';
+import { HarMode, HarUnmatchedPolicy } from '../models/HarRecording';
+
 /**
  * Environment Configuration
  * Centralized configuration for URLs, timeouts, and settings
  */
 
+// Set EBAY_MOCK=true to run against the bundled local eBay stand-in (mock-server/)
+const useMock = ['1', 'true'].includes((process.env.EBAY_MOCK || '').toLowerCase());
+const mockPort = parseInt(process.env.MOCK_PORT || '4000', 10);
+const mockURL = `http://localhost:${mockPort}`;
+
+// EBAY_MARKETPLACE picks the site (us, uk, de); the local stand-in only serves the US site
+const requestedMarketplace = getMarketplace(process.env.EBAY_MARKETPLACE || 'us');
+if (useMock && requestedMarketplace.id !== 'us') {
+  console.log(`⚠️  EBAY_MARKETPLACE=${requestedMarketplace.id} is ignored in mock mode (the stand-in serves the US site)`);
+}
+const marketplace = useMock ? getMarketplace('us') : requestedMarketplace;
+
+// One seed per run: generated in the runner process, inherited by workers through the environment
+// (RandomSeedReporter prints it once per run)
+if (process.env.RANDOM_SEED === undefined) {
+  process.env.RANDOM_SEED = String(Math.floor(Math.random() * 2 ** 31));
+}
+// A seed that is not a 32-bit unsigned integer would replay some other run
+const randomSeed = process.env.RANDOM_SEED.trim();
+if (!/^\d+$/.test(randomSeed) || Number(randomSeed) > 0xffffffff) {
+  throw new Error(`Invalid RANDOM_SEED "${process.env.RANDOM_SEED}" (expected an integer from 0 to 4294967295, as printed at the start of a run)`);
+}
+
+// HAR_MODE=record captures each test's search/item/cart traffic, HAR_MODE=replay serves it back (see utils/HarRecorder)
+const harMode = (process.env.HAR_MODE || 'off').toLowerCase() as HarMode;
+if (!['off', 'record', 'replay'].includes(harMode)) {
+  throw new Error(`Unknown HAR_MODE "${process.env.HAR_MODE}" (known: off, record, replay)`);
+}
+const harUnmatched = (process.env.HAR_UNMATCHED || 'fail').toLowerCase() as HarUnmatchedPolicy;
+if (!['fail', 'abort'].includes(harUnmatched)) {
+  throw new Error(`Unknown HAR_UNMATCHED "${process.env.HAR_UNMATCHED}" (known: fail, abort)`);
+}
+
+// CART_SESSION=guest gives every test its own guest session and cart; account signs in and shares the account's cart.
+// Default: account when EBAY_USERNAME/EBAY_PASSWORD are set, guest otherwise
+const hasCredentials = Boolean(process.env.EBAY_USERNAME && process.env.EBAY_PASSWORD);
+const cartSession = (process.env.CART_SESSION || (hasCredentials ? 'account' : 'guest')).toLowerCase() as 'guest' | 'account';
+if (!['guest', 'account'].includes(cartSession)) {
+  throw new Error(`Unknown CART_SESSION "${process.env.CART_SESSION}" (known: guest, account)`);
+}
+
+// PERF_BUDGET_MODE=fail fails tests whose page opens or actions exceed their budget (default: report only)
+const perfBudgetMode = (process.env.PERF_BUDGET_MODE || 'warn').toLowerCase() as 'warn' | 'fail';
+if (!['warn', 'fail'].includes(perfBudgetMode)) {
+  throw new Error(`Unknown PERF_BUDGET_MODE "${process.env.PERF_BUDGET_MODE}" (known: warn, fail)`);
+}
+
 export const config = {
-  baseURL: 'https://www.ebay.com',
-  
+  baseURL: useMock ? mockURL : `https://${marketplace.siteHost}`,
+  cartURL: useMock ? `${mockURL}/cart` : `https://${marketplace.cartHost}/`,
+  signinURL: useMock ? `${mockURL}/signin` : `https://${marketplace.signinHost}/signin/`,
+
+  // Domains, currency, locale and UI texts of the active site
+  marketplace,
+
+  // Leave EBAY_USERNAME/EBAY_PASSWORD unset to run as Guest
+  credentials: {
+    username: process.env.EBAY_USERNAME || '',
+    password: process.env.EBAY_PASSWORD || '',
+    otpCode: process.env.EBAY_OTP_CODE || '',
+  },
+
+  auth: {
+    storageStatePath: 'playwright/.auth/user.json',
+  },
+
+  mock: {
+    enabled: useMock,
+    port: mockPort,
+  },
+
   timeout: {
     default: 30000,
     navigation: 60000,
     element: 10000,
+    // Longest wait for a page to go network-idle after an action (replaces fixed sleeps)
+    settle: 5000,
+    // Default wait for a registry element to render before it is recorded as missing
+    resolve: 2000,
+  },
+
+  locale: marketplace.locale,
+
+  currency: marketplace.currency,
+
+  random: {
+    seed: Number(randomSeed),
   },
-  
-  currency: {
-    symbol: '$',
-    code: 'USD',
+
+  // Scenario file or directory (.json / .csv) for the data-driven tests
+  scenarios: {
+    source: process.env.SCENARIOS || 'data/test-data.json',
+  },
+
+  flows: {
+    source: process.env.FLOWS || 'data/flows.json',
+  },
+
+  // One HAR file per test under <dir>/<project>/; unmatched applies to search, item and cart requests in replay
+  har: {
+    mode: harMode,
+    dir: process.env.HAR_DIR || 'data/har',
+    unmatched: harUnmatched,
+  },
+
+  // Timing and network cost of page opens and key actions (PERF_METRICS=off to disable)
+  performance: {
+    enabled: (process.env.PERF_METRICS || '').toLowerCase() !== 'off',
+    budgets: loadBudgets(process.env.PERF_BUDGETS || ''),
+    budgetMode: perfBudgetMode,
+    historyPath: 'reports/performance-history.jsonl',
   },
-  
+
+  // Tests run fully parallel; WORKERS sets the worker count (number or "50%", default: half the CPU cores).
+  // Signed-in tests share one account cart, so CART_SESSION=account runs on a single worker.
+  parallel: {
+    workers: process.env.WORKERS ? (process.env.WORKERS.endsWith('%') ? process.env.WORKERS : parseInt(process.env.WORKERS, 10)) : undefined,
+    cartSession,
+  },
+
   pagination: {
     maxPages: 10, // Maximum pages to traverse during search
   },
-  
+
+  // Drift: merged by utils/SelectorDriftReporter after every run; health: written by npm run selectors:check
+  selectors: {
+    driftReportPath: 'test-results/selector-drift.json',
+    healthReportPath: 'reports/selector-health.json',
+  },
+
+  // Matrix: written by utils/BrowserMatrixReporter when several browser projects ran
+  browsers: {
+    matrixPath: 'test-results/browser-matrix.json',
+    // BRANDED_BROWSERS=true adds Google Chrome and Microsoft Edge projects (installed channels required)
+    branded: ['1', 'true'].includes((process.env.BRANDED_BROWSERS || '').toLowerCase()),
+  },
+
   screenshots: {
     path: './test-results/screenshots',
   },
@@ -0,0 +1,93 @@
+import { Page } from '@playwright/test';
+import { MarketplaceTexts } from './marketplaces';
+
+/**
+ * Interstitials - Overlays and blocking pages that can show up after any navigation or click
+ * BasePage checks every registered entry and applies its policy
+ */
+
+/**
+ * - dismiss: close it and carry on
+ * - retry: wait with exponential backoff, reload, check again (BotDetectedError when it persists)
+ * - skip: abandon the current item (ItemSkippedError)
+ * - fail: stop the run (BotDetectedError)
+ */
+export type InterstitialPolicy = 'dismiss' | 'retry' | 'skip' | 'fail';
+
+export interface Interstitial {
+  name: string;
+  /** Resolves true while the interstitial is showing */
+  detect: (page: Page) => Promise<boolean>;
+  policy: InterstitialPolicy;
+  /** dismiss: control that closes it (Escape is pressed when omitted) */
+  dismissSelector?: string;
+  /** retry: reloads before giving up (default 3) */
+  maxRetries?: number;
+  /** retry: first wait in ms, doubled on every attempt (default 2000) */
+  backoffMs?: number;
+}
+
+/**
+ * Detector for elements that are visible right now (no waiting)
+ * @param selectors - Playwright selectors; any visible match counts
+ */
+export function visible(...selectors: string[]): Interstitial['detect'] {
+  return async page => {
+    for (const selector of selectors) {
+      if (await page.locator(selector).first().isVisible()) {
+        return true;
+      }
+    }
+    return false;
+  };
+}
+
+/**
+ * Built-in interstitials of a marketplace
+ * Detectors prefer ids and roles; page copy (headings, button labels) comes from the profile
+ * @param texts - Texts of the active marketplace
+ */
+export function interstitialsFor(texts: MarketplaceTexts): Interstitial[] {
+  const copy = texts.interstitials;
+  return [
+    {
+      name: 'captcha',
+      detect: visible(
+        'iframe[title*="recaptcha"], iframe[src*="captcha"], [class*="captcha"], #px-captcha, .g-recaptcha',
+        ...copy.humanCheck.map(text => `text=${text}`)
+      ),
+      policy: 'fail',
+    },
+    {
+      name: 'pardon-our-interruption',
+      detect: visible(`text=${copy.pardonOurInterruption}`),
+      policy: 'retry',
+      maxRetries: 3,
+      backoffMs: 2000,
+    },
+    {
+      name: 'listing-ended',
+      detect: visible(...copy.listingEnded.map(text => `text=${text}`)),
+      policy: 'skip',
+    },
+    {
+      name: 'cookie-banner',
+      detect: visible('#gdpr-banner'),
+      policy: 'dismiss',
+      dismissSelector: `#gdpr-banner-accept, #gdpr-banner button:text("${copy.acceptCookies}")`,
+    },
+    {
+      name: 'sign-in-modal',
+      detect: visible(`[role="dialog"] >> text=${copy.signInPrompt}`),
+      policy: 'dismiss',
+      dismissSelector: `[role="dialog"] button[aria-label="${copy.close}"], [role="dialog"] .lightbox-dialog__close`,
+    },
+    {
+      name: 'survey-overlay',
+      detect: visible(`#survey-overlay, [role="dialog"][aria-label*="${copy.survey}" i]`),
+      policy: 'dismiss',
+      // Scoped to the overlay so an unrelated "No thanks" button elsewhere on the page is never clicked
+      dismissSelector: `:is(#survey-overlay, [role="dialog"][aria-label*="${copy.survey}" i]) :is(button:text("${copy.noThanks}"), button[aria-label="${copy.close}"])`,
+    },
+  ];
+}
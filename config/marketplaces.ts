@@ -0,0 +1,357 @@
+import { ItemCondition, ItemLocation, SortOrder } from '../models/SearchCriteria';
+import { BuyingFormat } from '../models/SearchResult';
+
+/**
+ * Marketplaces - Per-site profiles (domains, currency, locale, UI texts)
+ * The active profile is chosen with EBAY_MARKETPLACE and exposed as config.marketplace
+ */
+
+export type MarketplaceId = 'us' | 'uk' | 'de';
+
+/**
+ * Visible texts page objects match on
+ */
+export interface MarketplaceTexts {
+  /** Part of the header search box placeholder */
+  searchPlaceholder: string;
+  submitPriceRange: string;
+  /** Mobile web: button opening the filter sheet, and the sheet's apply button */
+  refine: string;
+  showResults: string;
+  /** Prefix of the sort button text ("Sort: Best Match") */
+  sortPrefix: string;
+  facetHeadings: {
+    condition: string;
+    buyingFormat: string;
+    delivery: string;
+    location: string;
+    category: string;
+  };
+  conditions: Record<ItemCondition, string>;
+  buyingFormats: Record<BuyingFormat, string>;
+  /** LH_PrefLoc options; "region" (id 3) is the site's own region (North America, European Union, ...) */
+  locations: Record<ItemLocation, string>;
+  sortOrders: Record<SortOrder, string>;
+  freeShipping: string;
+  remove: string;
+  saveForLater: string;
+  moveToCart: string;
+  /** Badge on promoted search cards */
+  sponsored: string;
+  /** Cart summary row labels */
+  items: string;
+  subtotal: string;
+  goToCheckout: string;
+  guestCheckout: string[];
+  continue: string;
+  confirmAndPay: string;
+  /** Copy of bot checks, ended listings and overlays (config/interstitials.ts) */
+  interstitials: {
+    humanCheck: string[];
+    pardonOurInterruption: string;
+    listingEnded: string[];
+    acceptCookies: string;
+    signInPrompt: string;
+    /** Part of the survey dialog's accessible name */
+    survey: string;
+    noThanks: string;
+    /** Accessible name of overlay close buttons */
+    close: string;
+  };
+}
+
+/**
+ * Patterns parsers classify text with
+ */
+export interface MarketplacePatterns {
+  /** Summary row labels */
+  itemsRow: RegExp;
+  shippingRow: RegExp;
+  taxRow: RegExp;
+  orderTotalRow: RegExp;
+  subtotalRow: RegExp;
+  /** Shipping line on a search card */
+  shipping: RegExp;
+  free: RegExp;
+  buyItNow: RegExp;
+  bestOffer: RegExp;
+  auction: RegExp;
+  outOfStock: RegExp;
+  /** Listing time line on a search card ("Listed Oct-17 14:05") */
+  listed: RegExp;
+}
+
+export interface MarketplaceProfile {
+  id: MarketplaceId;
+  siteHost: string;
+  cartHost: string;
+  signinHost: string;
+  locale: string;
+  currency: {
+    symbol: string;
+    code: string;
+  };
+  texts: MarketplaceTexts;
+  patterns: MarketplacePatterns;
+}
+
+export const MARKETPLACES: Record<MarketplaceId, MarketplaceProfile> = {
+  us: {
+    id: 'us',
+    siteHost: 'www.ebay.com',
+    cartHost: 'cart.ebay.com',
+    signinHost: 'signin.ebay.com',
+    locale: 'en-US',
+    currency: { symbol: '$', code: 'USD' },
+    texts: {
+      searchPlaceholder: 'Search',
+      submitPriceRange: 'Submit price range',
+      refine: 'Refine',
+      showResults: 'Show results',
+      sortPrefix: 'Sort',
+      facetHeadings: {
+        condition: 'Condition',
+        buyingFormat: 'Buying Format',
+        delivery: 'Delivery Options',
+        location: 'Item Location',
+        category: 'Category',
+      },
+      conditions: {
+        new: 'New',
+        openBox: 'Open box',
+        refurbished: 'Seller refurbished',
+        used: 'Used',
+        forParts: 'For parts or not working',
+      },
+      buyingFormats: {
+        auction: 'Auction',
+        buyItNow: 'Buy It Now',
+        bestOffer: 'Accepts Offers',
+      },
+      locations: {
+        domestic: 'US Only',
+        region: 'North America',
+        worldwide: 'Worldwide',
+      },
+      sortOrders: {
+        bestMatch: 'Best Match',
+        endingSoonest: 'Time: ending soonest',
+        newlyListed: 'Time: newly listed',
+        pricePlusShippingLowest: 'Price + Shipping: lowest first',
+        pricePlusShippingHighest: 'Price + Shipping: highest first',
+      },
+      freeShipping: 'Free Shipping',
+      remove: 'Remove',
+      saveForLater: 'Save for later',
+      moveToCart: 'Move to cart',
+      sponsored: 'Sponsored',
+      items: 'Items',
+      subtotal: 'Subtotal',
+      goToCheckout: 'Go to checkout',
+      guestCheckout: ['Check out as guest', 'Continue as guest'],
+      continue: 'Continue',
+      confirmAndPay: 'Confirm and pay',
+      interstitials: {
+        humanCheck: ['Please verify you are a human', 'Security Verification'],
+        pardonOurInterruption: 'Pardon Our Interruption',
+        listingEnded: ['This listing was ended', 'This listing has ended'],
+        acceptCookies: 'Accept',
+        signInPrompt: 'Sign in for a better experience',
+        survey: 'survey',
+        noThanks: 'No thanks',
+        close: 'Close',
+      },
+    },
+    patterns: {
+      itemsRow: /^items?\b/i,
+      shippingRow: /shipping|delivery|postage/i,
+      taxRow: /tax/i,
+      orderTotalRow: /order total|^total/i,
+      subtotalRow: /subtotal/i,
+      shipping: /delivery|shipping|postage/i,
+      free: /free/i,
+      buyItNow: /buy it now/i,
+      bestOffer: /best offer/i,
+      auction: /\bbids?\b|auction/i,
+      outOfStock: /\(?\s*(out of stock|sold out|unavailable)\s*\)?/i,
+      listed: /^\s*listed\b/i,
+    },
+  },
+
+  uk: {
+    id: 'uk',
+    siteHost: 'www.ebay.co.uk',
+    cartHost: 'cart.ebay.co.uk',
+    signinHost: 'signin.ebay.co.uk',
+    locale: 'en-GB',
+    currency: { symbol: '£', code: 'GBP' },
+    texts: {
+      searchPlaceholder: 'Search',
+      submitPriceRange: 'Submit price range',
+      refine: 'Refine',
+      showResults: 'Show results',
+      sortPrefix: 'Sort',
+      facetHeadings: {
+        condition: 'Condition',
+        buyingFormat: 'Buying format',
+        delivery: 'Delivery options',
+        location: 'Item location',
+        category: 'Category',
+      },
+      conditions: {
+        new: 'New',
+        openBox: 'Opened – never used',
+        refurbished: 'Seller refurbished',
+        used: 'Used',
+        forParts: 'For parts or not working',
+      },
+      buyingFormats: {
+        auction: 'Auction',
+        buyItNow: 'Buy it now',
+        bestOffer: 'Accepts offers',
+      },
+      locations: {
+        domestic: 'UK Only',
+        region: 'European Union',
+        worldwide: 'Worldwide',
+      },
+      sortOrders: {
+        bestMatch: 'Best Match',
+        endingSoonest: 'Time: ending soonest',
+        newlyListed: 'Time: newly listed',
+        pricePlusShippingLowest: 'Price + postage: lowest first',
+        pricePlusShippingHighest: 'Price + postage: highest first',
+      },
+      freeShipping: 'Free postage',
+      remove: 'Remove',
+      saveForLater: 'Save for later',
+      moveToCart: 'Move to basket',
+      sponsored: 'Sponsored',
+      items: 'Items',
+      subtotal: 'Subtotal',
+      goToCheckout: 'Go to checkout',
+      guestCheckout: ['Check out as guest', 'Continue as guest'],
+      continue: 'Continue',
+      confirmAndPay: 'Confirm and pay',
+      interstitials: {
+        humanCheck: ['Please verify you are a human', 'Security Verification'],
+        pardonOurInterruption: 'Pardon Our Interruption',
+        listingEnded: ['This listing was ended', 'This listing has ended'],
+        acceptCookies: 'Accept',
+        signInPrompt: 'Sign in for a better experience',
+        survey: 'survey',
+        noThanks: 'No thanks',
+        close: 'Close',
+      },
+    },
+    patterns: {
+      itemsRow: /^items?\b/i,
+      shippingRow: /postage|delivery|shipping/i,
+      taxRow: /tax|vat/i,
+      orderTotalRow: /order total|^total/i,
+      subtotalRow: /subtotal/i,
+      shipping: /postage|delivery|shipping/i,
+      free: /free/i,
+      buyItNow: /buy it now/i,
+      bestOffer: /best offer/i,
+      auction: /\bbids?\b|auction/i,
+      outOfStock: /\(?\s*(out of stock|sold out|unavailable)\s*\)?/i,
+      listed: /^\s*listed\b/i,
+    },
+  },
+
+  de: {
+    id: 'de',
+    siteHost: 'www.ebay.de',
+    cartHost: 'cart.ebay.de',
+    signinHost: 'signin.ebay.de',
+    locale: 'de-DE',
+    currency: { symbol: '€', code: 'EUR' },
+    texts: {
+      searchPlaceholder: 'finden',
+      submitPriceRange: 'Preisspanne senden',
+      refine: 'Filtern',
+      showResults: 'Ergebnisse anzeigen',
+      sortPrefix: 'Sortieren',
+      facetHeadings: {
+        condition: 'Zustand',
+        buyingFormat: 'Angebotsformat',
+        delivery: 'Versandoptionen',
+        location: 'Artikelstandort',
+        category: 'Kategorie',
+      },
+      conditions: {
+        new: 'Neu',
+        openBox: 'Neu: Sonstige',
+        refurbished: 'Vom Verkäufer generalüberholt',
+        used: 'Gebraucht',
+        forParts: 'Als Ersatzteil / defekt',
+      },
+      buyingFormats: {
+        auction: 'Auktion',
+        buyItNow: 'Sofort-Kaufen',
+        bestOffer: 'Preisvorschlag',
+      },
+      locations: {
+        domestic: 'Nur Deutschland',
+        region: 'Europa',
+        worldwide: 'Weltweit',
+      },
+      sortOrders: {
+        bestMatch: 'Beste Ergebnisse',
+        endingSoonest: 'Zeit: bald endend',
+        newlyListed: 'Zeit: neu eingestellt',
+        pricePlusShippingLowest: 'Preis + Versand: niedrigster zuerst',
+        pricePlusShippingHighest: 'Preis + Versand: höchster zuerst',
+      },
+      freeShipping: 'Kostenloser Versand',
+      remove: 'Entfernen',
+      saveForLater: 'Für später speichern',
+      moveToCart: 'In den Warenkorb',
+      sponsored: 'Gesponsert',
+      items: 'Artikel',
+      subtotal: 'Zwischensumme',
+      goToCheckout: 'Zur Kasse',
+      guestCheckout: ['Als Gast kaufen', 'Als Gast fortfahren'],
+      continue: 'Weiter',
+      confirmAndPay: 'Bestätigen und bezahlen',
+      interstitials: {
+        humanCheck: ['Bitte bestätigen Sie, dass Sie ein Mensch sind', 'Sicherheitsüberprüfung'],
+        pardonOurInterruption: 'Entschuldigen Sie die Unterbrechung',
+        listingEnded: ['Dieses Angebot wurde beendet', 'Das Angebot ist beendet'],
+        acceptCookies: 'Akzeptieren',
+        signInPrompt: 'Einloggen für ein besseres Erlebnis',
+        survey: 'Umfrage',
+        noThanks: 'Nein danke',
+        close: 'Schließen',
+      },
+    },
+    patterns: {
+      itemsRow: /^artikel\b/i,
+      shippingRow: /versand|lieferung/i,
+      taxRow: /steuer|mwst/i,
+      orderTotalRow: /gesamtbetrag|^gesamt|^summe/i,
+      subtotalRow: /zwischensumme/i,
+      shipping: /versand|lieferung/i,
+      free: /kostenlos|gratis/i,
+      buyItNow: /sofort-kaufen/i,
+      bestOffer: /preisvorschlag/i,
+      auction: /\bgebote?\b|auktion/i,
+      outOfStock: /\(?\s*(nicht vorrätig|ausverkauft|nicht verfügbar)\s*\)?/i,
+      listed: /^\s*eingestellt\b/i,
+    },
+  },
+};
+
+/**
+ * Look up a marketplace profile
+ * @param id - Marketplace ID (case-insensitive)
+ * @throws Error listing the known IDs when there is no such profile
+ */
+export function getMarketplace(id: string): MarketplaceProfile {
+  const profile = MARKETPLACES[id.trim().toLowerCase() as MarketplaceId];
+  if (!profile) {
+    throw new Error(`Unknown marketplace "${id}" (known: ${Object.keys(MARKETPLACES).join(', ')})`);
+  }
+  return profile;
+}
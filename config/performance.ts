@@ -0,0 +1,69 @@
+import { readFileSync } from 'fs';
+
+/**
+ * Performance budgets - Limits per measured step (see utils/PerformanceMonitor)
+ * Defaults are sized for the live site; PERF_BUDGETS points at a JSON file that overrides them per step
+ */
+
+/**
+ * Measured steps: page opens (BasePage.goto, named after the page type) and key actions
+ */
+export type PerformanceStep =
+  | 'openPage'
+  | 'openSearch'
+  | 'openItem'
+  | 'openCart'
+  | 'search'
+  | 'nextPage'
+  | 'addToCart';
+
+/**
+ * Limits for one step; omitted limits are not checked
+ */
+export interface PerformanceBudget {
+  /** Load event (navigations) or last triggered request finished (interactions) */
+  durationMs?: number;
+  /** Largest Contentful Paint, navigations in Chromium only */
+  lcpMs?: number;
+  requests?: number;
+  transferKb?: number;
+}
+
+const PAGE_LOAD: PerformanceBudget = { durationMs: 8000, lcpMs: 4000, requests: 200, transferKb: 5000 };
+
+export const PERFORMANCE_BUDGETS: Record<PerformanceStep, PerformanceBudget> = {
+  openPage: PAGE_LOAD,
+  openSearch: PAGE_LOAD,
+  openItem: PAGE_LOAD,
+  openCart: { ...PAGE_LOAD, requests: 150, transferKb: 4000 },
+  search: PAGE_LOAD,
+  nextPage: PAGE_LOAD,
+  addToCart: { durationMs: 5000, requests: 30, transferKb: 500 },
+};
+
+/**
+ * Budgets with the overrides of a JSON file applied
+ * @param path - File of { "<step>": { "durationMs": 3000, ... } } (default budgets when empty)
+ * @throws Error for unknown steps or limits
+ */
+export function loadBudgets(path: string): Record<PerformanceStep, PerformanceBudget> {
+  const budgets = { ...PERFORMANCE_BUDGETS };
+  if (!path) {
+    return budgets;
+  }
+
+  const overrides = JSON.parse(readFileSync(path, 'utf-8')) as Record<string, Record<string, unknown>>;
+  const limits = ['durationMs', 'lcpMs', 'requests', 'transferKb'];
+  for (const [step, budget] of Object.entries(overrides)) {
+    if (!(step in budgets)) {
+      throw new Error(`Unknown performance step "${step}" in ${path} (known: ${Object.keys(budgets).join(', ')})`);
+    }
+    for (const [limit, value] of Object.entries(budget)) {
+      if (!limits.includes(limit) || typeof value !== 'number') {
+        throw new Error(`Invalid budget ${step}.${limit} in ${path} (expected a number for ${limits.join(', ')})`);
+      }
+    }
+    budgets[step as PerformanceStep] = { ...budgets[step as PerformanceStep], ...budget };
+  }
+  return budgets;
+}
@@ -0,0 +1,165 @@
+import { MarketplaceTexts } from './marketplaces';
+
+/**
+ * Selectors - Ordered candidate locators per logical element, grouped by page
+ * The first candidate is the primary one; the rest are fallbacks for older or A/B-tested markup.
+ * SelectorRegistry records which candidate matched so the drift report can flag elements
+ * that only resolve through a fallback (or not at all).
+ *
+ * A candidate may itself be a selector list ("a, b") when the element legitimately takes
+ * several shapes on the same page - it then counts as one candidate.
+ *
+ * Candidates are CSS; text fallbacks match the accessible name (role=button[name="..."]) or
+ * the element's own text (:text()). XPath and :has-text are avoided: they match on raw DOM
+ * text and exact class strings, which Firefox and WebKit render and time differently.
+ */
+export function selectorsFor(texts: MarketplaceTexts) {
+  return {
+    search: {
+      searchBox: [`input[type="text"][placeholder*="${texts.searchPlaceholder}"]`],
+      searchButton: ['#gh-search-btn'],
+      minPriceInput: ['input[name*="MinPrice"]', 'input[aria-label*="Minimum"]'],
+      maxPriceInput: ['input[name*="MaxPrice"]', 'input[aria-label*="Maximum"]'],
+      priceSubmit: [`role=button[name="${texts.submitPriceRange}"]`],
+      facetGroup: ['.x-refine__main__list'],
+      facetHeading: ['.x-refine__item'],
+      facetOption: ['.x-refine__multi-select-link'],
+      facetOptionLabel: ['.cbx'],
+      sortButton: ['.srp-sort__menu-btn', 'button[aria-label*="Sort"]'],
+      sortMenu: ['.srp-sort__menu'],
+      nextPage: ['a.pagination__next', 'a[aria-label="Go to next search page"]', 'a[aria-label*="next"]'],
+      resultCard: ['li.s-card.s-card--vertical[data-gr3]'],
+      cardPrice: ['span[class*="price"]'],
+      cardLink: ['a[href*="itm/"]'],
+      cardTitle: ['div[class*="s-card__title"], div[class*="s-item__title"]'],
+      cardCondition: ['div[class*="s-card__subtitle"], div[class*="SECONDARY_INFO"]'],
+      cardAttributeRows: ['div[class*="s-card__attribute-row"]'],
+      cardSponsored: [`.s-card__sponsored, [aria-label="${texts.sponsored}"]`, `span:text-is("${texts.sponsored}")`],
+    },
+
+    product: {
+      addToCart: ['a[id*="atcBtn_btn"]'],
+      // Shown after Add to Cart: the "Added to cart" layer, or the reason the add was rejected
+      addToCartConfirmation: ['.ux-overlay', '.app-atc-layer'],
+      addToCartError: ['.x-msku__error'],
+      quantity: ['select[id*="quantity" i]', 'select[name*="quantity" i]'],
+      price: ['.x-price-primary', '[itemprop="price"]', '.vi-price', '.display-price'],
+      // Menus, swatches and legacy selects all appear on the same page
+      skuControls: ['div.x-sku, select[id*="msku"], select.x-msku__select'],
+      skuLabel: ['.x-msku__label, .x-msku__select-box span, label'],
+      skuMenuButton: ['.x-msku__select-box, [aria-haspopup="listbox"]'],
+      skuSwatch: ['button:not(.x-msku__select-box), [role="radio"]'],
+    },
+
+    cart: {
+      cartIcon: ['.gh-cart'],
+      lineItems: ['.cart-bucket-lineitem', '.cart-item'],
+      lineTitle: ['.item-title', '[data-test-id="cart-item-link"]'],
+      lineVariants: ['.item-variations'],
+      // Plain text ("Qty 2") or a dropdown depending on the cart layout
+      lineQuantity: ['.item-qty, select[data-test-id="qty-dropdown"]'],
+      linePrice: ['.item-price', '.itemValue'],
+      lineWarnings: ['.item-availability, .item-warning, [role="alert"]'],
+      quantityDropdown: ['select[data-test-id="qty-dropdown"]', 'select[name*="quantity" i]'],
+      removeButton: ['[data-test-id="cart-remove-item"]', '.remove-button', `role=button[name="${texts.remove}"]`, `role=link[name="${texts.remove}"]`],
+      saveForLaterButton: ['[data-test-id="cart-save-for-later"]', `role=button[name="${texts.saveForLater}"]`],
+      savedItems: ['.saved-for-later-item', '[data-test-id="saved-for-later"] .cart-bucket-lineitem'],
+      moveToCartButton: ['[data-test-id="save-for-later-move-to-cart"]', `role=button[name="${texts.moveToCart}"]`],
+      // Summary rows ("Items (3) | $120.00", "Shipping | Free", "Estimated tax | $9.60", "Subtotal | $129.60")
+      summaryRows: ['.cart-summary-line-item, .cart-bucket-summary .total-row, [data-test-id="SUBTOTAL"]'],
+      total: [
+        '[data-test-id="SUBTOTAL"] .text-display-24',
+        '.cart-summary-amount',
+        '.total-row .text-display-24',
+        '.subtotal .text-display',
+        `span:text("${texts.subtotal}") + span`,
+      ],
+      itemsCount: [
+        `.cart-summary-line-item span:text("${texts.items}")`,
+        '#gh-cart-n',
+        'span:text("item") i',
+      ],
+    },
+
+    checkout: {
+      goToCheckout: ['[data-test-id="cta-top"]', `role=button[name="${texts.goToCheckout}"]`],
+      guestCheckout: ['#gxo-btn', ...texts.guestCheckout.map(text => `role=button[name="${text}"]`)],
+      // "Ship to" form fields, one per ShippingAddress property (state is a select on most sites)
+      addressFirstName: ['#firstName'],
+      addressLastName: ['#lastName'],
+      addressStreet: ['#addressLine1'],
+      addressCity: ['#city'],
+      addressState: ['#stateOrProvince'],
+      addressPostalCode: ['#postalCode'],
+      addressEmail: ['#email'],
+      addressPhone: ['#phoneNumber'],
+      addressSubmit: ['[data-test-id="ADD_ADDRESS_SUBMIT"]', '.address-form button[type="submit"]'],
+      fieldErrors: ['.field__error'],
+      deliveryOptions: ['input[type="radio"][name="shippingOption"]'],
+      // Label around each delivery radio (narrowed to those holding a deliveryOptions input) and the chosen radio inside it
+      deliveryOptionLabel: ['label'],
+      deliveryOptionChecked: ['input:checked'],
+      deliveryContinue: ['[data-test-id="DELIVERY_CONTINUE"]', `role=button[name="${texts.continue}"]`],
+      confirmAndPay: ['[data-test-id="CONFIRM_AND_PAY_BUTTON"]', `role=button[name="${texts.confirmAndPay}"]`],
+      // Order summary rows ("Items (3) | $120.00", "Shipping | Free", "Tax* | $9.90", "Order total | $129.90")
+      summaryRows: ['[data-test-id="ORDER_SUMMARY"] .summary-line', '.order-summary .summary-line'],
+    },
+
+    login: {
+      usernameInput: ['#userid'],
+      continueButton: ['#signin-continue-btn'],
+      passwordInput: ['#pass'],
+      signInButton: ['#sgnBt'],
+      errorMessage: ['#signin-error-msg', '#errormsg'],
+      otpInput: ['#otp-code', 'input[name="otpCode"]'],
+      otpSubmitButton: ['#otp-submit-btn'],
+      staySignedInButton: ['#stay-signed-in-btn'],
+      // Only rendered for a signed-in user, whatever the site language
+      signOutLink: ['#gh-uo a[href*="lgout=1"]', '#gh a[href*="lgout=1"]'],
+    },
+  };
+}
+
+/**
+ * Mobile web (phone user agents) - replaces the desktop chain of the elements it lists
+ * and adds the elements only the mobile layout has (filter sheet, bottom-sheet variant pickers).
+ * Elements not listed here use their desktop candidates.
+ */
+export function mobileSelectorsFor(texts: MarketplaceTexts) {
+  return {
+    search: {
+      searchButton: ['.gh-search__submitbtn', 'button[type="submit"][aria-label*="Search"]'],
+      // Price range and facets live in the "Refine" sheet instead of the left rail
+      refineButton: ['.srp-refine__button', `role=button[name="${texts.refine}"]`],
+      filterSheet: ['.srp-refine__sheet[role="dialog"]', '[role="dialog"]:has(.x-refine__main__list)'],
+      priceSubmit: ['.srp-refine__apply', `role=button[name="${texts.showResults}"]`],
+    },
+
+    product: {
+      // Every dimension opens a bottom sheet of options
+      skuSheetButton: ['.x-msku-mweb__button, [aria-haspopup="dialog"]'],
+      skuSheet: ['.x-bottom-sheet[role="dialog"]', '[role="dialog"]'],
+    },
+
+    cart: {
+      cartIcon: ['.gh-mweb-cart', 'a[href*="cart"][aria-label*="cart" i]'],
+    },
+  };
+}
+
+export type SelectorGroups = ReturnType<typeof selectorsFor>;
+export type MobileSelectorGroups = ReturnType<typeof mobileSelectorsFor>;
+
+/**
+ * Page layout eBay serves: desktop, or mobile web for phone user agents
+ */
+export type PageLayout = 'desktop' | 'mobile';
+
+type GroupKeys<Groups> = {
+  [Group in keyof Groups]: `${Group & string}.${keyof Groups[Group] & string}`;
+}[keyof Groups];
+
+/**
+ * Registry key: "<page>.<element>" (e.g. "cart.removeButton")
+ */
+export type SelectorKey = GroupKeys<SelectorGroups> | GroupKeys<MobileSelectorGroups>;
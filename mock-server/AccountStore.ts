@@ -0,0 +1,66 @@
+/**
+ * AccountStore - Test accounts and signed-in sessions for the local eBay stand-in
+ * Accounts: mockbuyer / mock-password, and mockbuyer-2fa / mock-password (2FA code 123456)
+ */
+
+export interface MockAccount {
+  username: string;
+  password: string;
+  otpCode?: string;
+}
+
+const ACCOUNTS: MockAccount[] = [
+  { username: 'mockbuyer', password: 'mock-password' },
+  { username: 'mockbuyer-2fa', password: 'mock-password', otpCode: '123456' },
+];
+
+export class AccountStore {
+  private readonly signedIn = new Map<string, string>();
+  private readonly pending = new Map<string, string>();
+
+  /**
+   * Find an account by user ID (case-insensitive)
+   * @param username - eBay user ID
+   */
+  find(username: string): MockAccount | undefined {
+    return ACCOUNTS.find(account => account.username.toLowerCase() === username.trim().toLowerCase());
+  }
+
+  /**
+   * Remember a user who passed the password step but still has prompts to answer
+   * @param sessionId - Guest session ID
+   * @param username - eBay user ID
+   */
+  setPending(sessionId: string, username: string): void {
+    this.pending.set(sessionId, username);
+  }
+
+  /**
+   * Get the user waiting on a 2FA or "stay signed in" prompt
+   * @param sessionId - Guest session ID
+   */
+  getPending(sessionId: string): MockAccount | undefined {
+    const username = this.pending.get(sessionId);
+    return username ? this.find(username) : undefined;
+  }
+
+  /**
+   * Complete sign-in for the pending user
+   * @param sessionId - Guest session ID
+   */
+  completeSignIn(sessionId: string): void {
+    const username = this.pending.get(sessionId);
+    if (username) {
+      this.signedIn.set(sessionId, username);
+      this.pending.delete(sessionId);
+    }
+  }
+
+  /**
+   * Get the signed-in user ID for a session
+   * @param sessionId - Guest session ID
+   */
+  getUser(sessionId: string): string | undefined {
+    return this.signedIn.get(sessionId);
+  }
+}
@@ -0,0 +1,144 @@
+import { MockItem } from './Catalog';
+
+/**
+ * CartStore - In-memory carts for the local eBay stand-in
+ * Each guest session (cookie) gets its own cart
+ */
+
+export interface MockCartLine {
+  lineId: string;
+  itemId: string;
+  title: string;
+  price: number;
+  shipping: number;
+  quantity: number;
+  variants: Record<string, string>;
+  quantityAvailable: number;
+}
+
+export class CartStore {
+  private readonly carts = new Map<string, MockCartLine[]>();
+  private readonly saved = new Map<string, MockCartLine[]>();
+  private nextLineId = 1;
+
+  /**
+   * Get cart lines for a session
+   * @param sessionId - Guest session ID
+   */
+  getLines(sessionId: string): MockCartLine[] {
+    return this.carts.get(sessionId) ?? [];
+  }
+
+  /**
+   * Total quantity of items in the session cart
+   * @param sessionId - Guest session ID
+   */
+  getCount(sessionId: string): number {
+    return this.getLines(sessionId).reduce((sum, line) => sum + line.quantity, 0);
+  }
+
+  /**
+   * Add an item to the session cart
+   * The same item with the same variants increases the quantity of the existing line
+   * @param sessionId - Guest session ID
+   * @param item - Listing to add
+   * @param variants - Selected variant values keyed by dimension label
+   * @param quantity - Quantity to add
+   */
+  add(sessionId: string, item: MockItem, variants: Record<string, string>, quantity: number): MockCartLine {
+    const lines = this.getLines(sessionId);
+    const variantKey = JSON.stringify(variants);
+    const existing = lines.find(line => line.itemId === item.id && JSON.stringify(line.variants) === variantKey);
+
+    if (existing) {
+      existing.quantity += quantity;
+      return existing;
+    }
+
+    const line: MockCartLine = {
+      lineId: String(this.nextLineId++),
+      itemId: item.id,
+      title: item.title,
+      price: item.price,
+      shipping: item.shipping,
+      quantity,
+      variants,
+      quantityAvailable: item.quantityAvailable,
+    };
+    this.carts.set(sessionId, [...lines, line]);
+    return line;
+  }
+
+  /**
+   * Remove a line from the session cart
+   * @param sessionId - Guest session ID
+   * @param lineId - Cart line ID
+   * @returns True if a line was removed
+   */
+  remove(sessionId: string, lineId: string): boolean {
+    const lines = this.getLines(sessionId);
+    const remaining = lines.filter(line => line.lineId !== lineId);
+    this.carts.set(sessionId, remaining);
+    return remaining.length !== lines.length;
+  }
+
+  /**
+   * Set the quantity of a cart line
+   * @param sessionId - Guest session ID
+   * @param lineId - Cart line ID
+   * @param quantity - New quantity (at least 1)
+   * @returns True if the line exists
+   */
+  setQuantity(sessionId: string, lineId: string, quantity: number): boolean {
+    const line = this.getLines(sessionId).find(candidate => candidate.lineId === lineId);
+    if (!line) {
+      return false;
+    }
+    line.quantity = Math.max(1, quantity);
+    return true;
+  }
+
+  /**
+   * Get "Saved for later" lines for a session
+   * @param sessionId - Guest session ID
+   */
+  getSaved(sessionId: string): MockCartLine[] {
+    return this.saved.get(sessionId) ?? [];
+  }
+
+  /**
+   * Move a cart line to "Saved for later"
+   * @param sessionId - Guest session ID
+   * @param lineId - Cart line ID
+   * @returns True if a line was moved
+   */
+  saveForLater(sessionId: string, lineId: string): boolean {
+    return this.moveLine(this.carts, this.saved, sessionId, lineId);
+  }
+
+  /**
+   * Move a "Saved for later" line back to the cart
+   * @param sessionId - Guest session ID
+   * @param lineId - Cart line ID
+   * @returns True if a line was moved
+   */
+  moveToCart(sessionId: string, lineId: string): boolean {
+    return this.moveLine(this.saved, this.carts, sessionId, lineId);
+  }
+
+  private moveLine(
+    from: Map<string, MockCartLine[]>,
+    to: Map<string, MockCartLine[]>,
+    sessionId: string,
+    lineId: string
+  ): boolean {
+    const lines = from.get(sessionId) ?? [];
+    const line = lines.find(candidate => candidate.lineId === lineId);
+    if (!line) {
+      return false;
+    }
+    from.set(sessionId, lines.filter(candidate => candidate !== line));
+    to.set(sessionId, [...(to.get(sessionId) ?? []), line]);
+    return true;
+  }
+}
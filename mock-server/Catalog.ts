@@ -0,0 +1,295 @@
+/**
+ * Catalog - Deterministic listing generator for the local eBay stand-in
+ * The same query always produces the same listings, so offline runs are repeatable
+ */
+
+export interface MockVariantDimension {
+  label: string;
+  /** menu: button + listbox, swatch: buttons, select: legacy <select> */
+  control: 'menu' | 'swatch' | 'select';
+  values: string[];
+  /** Values listed but not purchasable */
+  outOfStock: string[];
+}
+
+export interface MockSeller {
+  name: string;
+  feedbackPercent: number;
+  feedbackCount: number;
+}
+
+export interface MockCategory {
+  id: string;
+  name: string;
+}
+
+export interface MockItem {
+  id: string;
+  title: string;
+  price: number;
+  shipping: number;
+  condition: string;
+  conditionId: string;
+  buyingFormat: 'Buy It Now' | 'Auction' | 'Best Offer';
+  category: MockCategory;
+  /** ISO country code of the item location */
+  country: string;
+  /** Minutes since the listing went live */
+  listedMinutesAgo: number;
+  seller: MockSeller;
+  variants: MockVariantDimension[];
+  /** Value combinations (dimension label → value) that are sold out */
+  soldOutCombinations: Record<string, string>[];
+  quantityAvailable: number;
+}
+
+/**
+ * Filters in eBay query-parameter terms (LH_ItemCondition ids, LH_PrefLoc, _sop)
+ */
+export interface MockSearchFilter {
+  minPrice?: number;
+  maxPrice?: number;
+  conditionIds?: string[];
+  buyingFormat?: 'auction' | 'buyItNow' | 'bestOffer';
+  freeShipping?: boolean;
+  categoryId?: string;
+  locationId?: string;
+  sortId?: string;
+}
+
+const RESULTS_PER_QUERY = 60;
+
+const ADJECTIVES = ['Classic', 'Premium', 'Lightweight', 'Vintage', 'Sport', 'Comfort', 'Deluxe', 'Everyday'];
+const CONDITIONS = [
+  { label: 'Brand New', id: '1000' },
+  { label: 'Brand New', id: '1000' },
+  { label: 'Open Box', id: '1500' },
+  { label: 'Seller Refurbished', id: '2500' },
+  { label: 'Pre-Owned', id: '3000' },
+  { label: 'Pre-Owned', id: '3000' },
+  { label: 'For parts or not working', id: '7000' },
+];
+const COUNTRIES = ['US', 'US', 'US', 'US', 'CA', 'CN', 'GB'];
+const NORTH_AMERICA = ['US', 'CA', 'MX'];
+const FORMATS: MockItem['buyingFormat'][] = ['Buy It Now', 'Buy It Now', 'Auction', 'Best Offer'];
+const SELLERS = ['shoe_outlet_usa', 'bargain-corner', 'tech.deals.direct', 'vintage_vault', 'dailyfinds24'];
+const COLORS = ['Black', 'White', 'Red', 'Navy', 'Grey'];
+const SHOE_SIZES = ['7', '8', '9', '10', '11', '12'];
+const APPAREL_SIZES = ['S', 'M', 'L', 'XL'];
+const STORAGE_CAPACITIES = ['64 GB', '128 GB', '256 GB', '512 GB'];
+const STYLES = ['Standard', 'Compact', 'Bundle'];
+
+export class Catalog {
+  static readonly resultsPerPage = 12;
+
+  private static readonly items = new Map<string, MockItem>();
+
+  /**
+   * Search listings for a query
+   * @param query - Search keyword
+   * @param filter - Optional eBay filters
+   * @returns Matching listings in result order
+   */
+  static search(query: string, filter: MockSearchFilter = {}): MockItem[] {
+    const normalized = query.trim().toLowerCase();
+    if (!normalized) {
+      return [];
+    }
+
+    const results: MockItem[] = [];
+    for (let index = 0; index < RESULTS_PER_QUERY; index++) {
+      const item = this.buildItem(normalized, index);
+      this.items.set(item.id, item);
+
+      if (this.matches(item, filter)) {
+        results.push(item);
+      }
+    }
+
+    return this.sort(results, filter.sortId);
+  }
+
+  /**
+   * Categories the listings for a query fall into
+   * @param query - Search keyword
+   */
+  static categoriesFor(query: string): MockCategory[] {
+    const normalized = query.trim().toLowerCase();
+    const noun = normalized ? normalized.charAt(0).toUpperCase() + normalized.slice(1) : 'Listings';
+    return [
+      { id: String(10000 + (hash(`${normalized}:main`) % 90000)), name: noun },
+      { id: String(10000 + (hash(`${normalized}:accessories`) % 90000)), name: `${noun} Accessories` },
+    ];
+  }
+
+  private static matches(item: MockItem, filter: MockSearchFilter): boolean {
+    if (filter.minPrice !== undefined && item.price < filter.minPrice) return false;
+    if (filter.maxPrice !== undefined && item.price > filter.maxPrice) return false;
+    if (filter.conditionIds?.length && !filter.conditionIds.includes(item.conditionId)) return false;
+    if (filter.freeShipping && item.shipping > 0) return false;
+    if (filter.categoryId && item.category.id !== filter.categoryId) return false;
+
+    if (filter.buyingFormat === 'auction' && item.buyingFormat !== 'Auction') return false;
+    if (filter.buyingFormat === 'buyItNow' && item.buyingFormat === 'Auction') return false;
+    if (filter.buyingFormat === 'bestOffer' && item.buyingFormat !== 'Best Offer') return false;
+
+    if (filter.locationId === '1' && item.country !== 'US') return false;
+    if (filter.locationId === '3' && !NORTH_AMERICA.includes(item.country)) return false;
+
+    return true;
+  }
+
+  private static sort(items: MockItem[], sortId?: string): MockItem[] {
+    const landed = (item: MockItem) => item.price + item.shipping;
+    switch (sortId) {
+      case '15':
+        return [...items].sort((a, b) => landed(a) - landed(b));
+      case '16':
+        return [...items].sort((a, b) => landed(b) - landed(a));
+      case '10':
+        return [...items].sort((a, b) => a.listedMinutesAgo - b.listedMinutesAgo);
+      default:
+        return items;
+    }
+  }
+
+  /**
+   * Look up a listing by its item ID
+   * Items not produced by a search in this process get a generic title
+   * @param id - eBay-style item ID
+   */
+  static getItem(id: string): MockItem | undefined {
+    if (!/^\d{12}$/.test(id)) {
+      return undefined;
+    }
+
+    const cached = this.items.get(id);
+    if (cached) {
+      return cached;
+    }
+
+    const item = this.buildItem('', parseInt(id.slice(-3), 10), id);
+    this.items.set(id, item);
+    return item;
+  }
+
+  /**
+   * Whether a variant selection can be purchased
+   * Every dimension needs an in-stock value and the combination must not be sold out
+   * @param item - Listing
+   * @param variants - Selected values keyed by dimension label
+   */
+  static isAvailable(item: MockItem, variants: Record<string, string>): boolean {
+    const complete = item.variants.every(dimension =>
+      dimension.values.includes(variants[dimension.label]) && !dimension.outOfStock.includes(variants[dimension.label])
+    );
+    const soldOut = item.soldOutCombinations.some(combination =>
+      Object.entries(combination).every(([label, value]) => variants[label] === value)
+    );
+    return complete && !soldOut;
+  }
+
+  private static buildItem(query: string, index: number, fixedId?: string): MockItem {
+    const id = fixedId ?? `1${String(hash(query) % 100000000).padStart(8, '0')}${String(index).padStart(3, '0')}`;
+    const random = seededRandom(hash(id));
+    const pick = <T>(values: T[]): T => values[Math.floor(random() * values.length)];
+
+    const noun = query ? query.charAt(0).toUpperCase() + query.slice(1) : 'Listing';
+    const title = fixedId
+      ? `Mock listing ${id}`
+      : `${pick(ADJECTIVES)} ${noun} - Model ${String.fromCharCode(65 + (index % 26))}${index + 1}`;
+
+    // Prices spread from ~$10 to ~$400 so a max-price filter always drops some listings
+    const price = Math.round((10 + random() * 390) * 100) / 100;
+    const shipping = random() < 0.4 ? 0 : Math.round((4 + random() * 16) * 100) / 100;
+
+    const condition = pick(CONDITIONS);
+    const categories = this.categoriesFor(query);
+
+    return {
+      id,
+      title,
+      price,
+      shipping,
+      condition: condition.label,
+      conditionId: condition.id,
+      buyingFormat: pick(FORMATS),
+      category: random() < 0.75 ? categories[0] : categories[1],
+      country: pick(COUNTRIES),
+      listedMinutesAgo: Math.floor(random() * 30 * 24 * 60),
+      seller: {
+        name: pick(SELLERS),
+        feedbackPercent: Math.round((95 + random() * 5) * 10) / 10,
+        feedbackCount: Math.floor(random() * 50000),
+      },
+      ...this.buildVariants(query, random),
+      quantityAvailable: 1 + Math.floor(random() * 20),
+    };
+  }
+
+  private static buildVariants(
+    query: string,
+    random: () => number
+  ): Pick<MockItem, 'variants' | 'soldOutCombinations'> {
+    const dimension = (label: string, control: MockVariantDimension['control'], values: string[]): MockVariantDimension =>
+      ({ label, control, values, outOfStock: [] });
+
+    let variants: MockVariantDimension[];
+    if (/shoe|sneaker|boot/.test(query)) {
+      variants = [
+        dimension('US Shoe Size', 'menu', SHOE_SIZES),
+        dimension('Color', 'swatch', COLORS.slice(0, 3 + Math.floor(random() * 3))),
+      ];
+    } else if (/shirt|dress|jacket|hoodie/.test(query)) {
+      variants = [dimension('Size', 'menu', APPAREL_SIZES), dimension('Color', 'menu', COLORS)];
+    } else if (/phone|laptop|tablet|ipad/.test(query)) {
+      variants = [dimension('Storage Capacity', 'swatch', STORAGE_CAPACITIES), dimension('Color', 'menu', COLORS.slice(0, 3))];
+    } else {
+      variants = random() < 0.3 ? [dimension('Style', 'select', STYLES)] : [];
+    }
+
+    if (variants.length === 0) {
+      return { variants, soldOutCombinations: [] };
+    }
+
+    // Half of the listings have one value out of stock, half have one sold-out combination
+    const [first, second] = variants;
+    const pickValue = (values: string[]) => values[Math.floor(random() * values.length)];
+    if (random() < 0.5) {
+      first.outOfStock.push(pickValue(first.values));
+    }
+
+    const soldOutCombinations: Record<string, string>[] = [];
+    if (second && random() < 0.5) {
+      const inStock = first.values.filter(value => !first.outOfStock.includes(value));
+      soldOutCombinations.push({ [first.label]: pickValue(inStock), [second.label]: pickValue(second.values) });
+    }
+
+    return { variants, soldOutCombinations };
+  }
+}
+
+/**
+ * FNV-1a string hash
+ */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so listing attributes are stable per item ID
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * CheckoutStore - Per-session checkout progress for the local eBay stand-in
+ * Guest choice → shipping address → delivery option → review (no purchase step)
+ */
+
+export interface MockAddress {
+  firstName: string;
+  lastName: string;
+  addressLine1: string;
+  city: string;
+  stateOrProvince: string;
+  postalCode: string;
+  email: string;
+  phoneNumber: string;
+}
+
+export interface MockDeliveryOption {
+  id: string;
+  label: string;
+  /** Added once per order on top of the listings' shipping */
+  surcharge: number;
+}
+
+export interface MockCheckout {
+  guest: boolean;
+  address?: MockAddress;
+  deliveryId?: string;
+}
+
+export const ADDRESS_FIELDS: { name: keyof MockAddress; label: string }[] = [
+  { name: 'firstName', label: 'First name' },
+  { name: 'lastName', label: 'Last name' },
+  { name: 'addressLine1', label: 'Street address' },
+  { name: 'city', label: 'City' },
+  { name: 'stateOrProvince', label: 'State' },
+  { name: 'postalCode', label: 'ZIP code' },
+  { name: 'email', label: 'Email' },
+  { name: 'phoneNumber', label: 'Phone number' },
+];
+
+export const DELIVERY_OPTIONS: MockDeliveryOption[] = [
+  { id: 'standard', label: 'Standard Shipping', surcharge: 0 },
+  { id: 'expedited', label: 'Expedited Shipping', surcharge: 9.99 },
+];
+
+export class CheckoutStore {
+  private readonly checkouts = new Map<string, MockCheckout>();
+
+  /**
+   * Get checkout progress for a session
+   * @param sessionId - Guest session ID
+   */
+  get(sessionId: string): MockCheckout {
+    return this.checkouts.get(sessionId) ?? { guest: false };
+  }
+
+  /**
+   * Continue without signing in
+   * @param sessionId - Guest session ID
+   */
+  startGuest(sessionId: string): void {
+    this.checkouts.set(sessionId, { ...this.get(sessionId), guest: true });
+  }
+
+  /**
+   * Validate and store the shipping address
+   * @param sessionId - Guest session ID
+   * @param form - Submitted address form
+   * @returns Error message per invalid field (empty when the address was stored)
+   */
+  setAddress(sessionId: string, form: URLSearchParams): Partial<Record<keyof MockAddress, string>> {
+    const address = {} as MockAddress;
+    const errors: Partial<Record<keyof MockAddress, string>> = {};
+
+    for (const field of ADDRESS_FIELDS) {
+      address[field.name] = (form.get(field.name) ?? '').trim();
+      if (!address[field.name]) {
+        errors[field.name] = `Please enter your ${field.label.toLowerCase()}.`;
+      }
+    }
+    if (address.postalCode && !/^\d{5}(-\d{4})?$/.test(address.postalCode)) {
+      errors.postalCode = 'Please enter a valid ZIP code.';
+    }
+    if (address.email && !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(address.email)) {
+      errors.email = 'Please enter a valid email address.';
+    }
+
+    if (Object.keys(errors).length === 0) {
+      this.checkouts.set(sessionId, { ...this.get(sessionId), address });
+    }
+    return errors;
+  }
+
+  /**
+   * Store the chosen delivery option
+   * @param sessionId - Guest session ID
+   * @param deliveryId - Delivery option ID
+   * @returns False for unknown options
+   */
+  setDelivery(sessionId: string, deliveryId: string): boolean {
+    if (!DELIVERY_OPTIONS.some(option => option.id === deliveryId)) {
+      return false;
+    }
+    this.checkouts.set(sessionId, { ...this.get(sessionId), deliveryId });
+    return true;
+  }
+}
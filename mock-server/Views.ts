@@ -0,0 +1,812 @@
+import { MockItem, MockCategory, MockVariantDimension } from './Catalog';
+import { MockCartLine } from './CartStore';
+import { MockAddress, MockDeliveryOption, ADDRESS_FIELDS } from './CheckoutStore';
+
+/**
+ * Views - HTML rendering for the local eBay stand-in
+ * Markup mirrors the parts of eBay that the page objects rely on
+ * (header search, s-card results, x-sku menus, atcBtn_btn, cart summary).
+ * Phone user agents get the mobile web variants: compact header, "Refine" filter sheet
+ * instead of the left rail and bottom-sheet variant pickers.
+ */
+
+export interface HeaderState {
+  cartCount: number;
+  username?: string;
+  /** Show the cookie banner (no consent cookie yet) */
+  cookieBanner?: boolean;
+  /** Serve the mobile web layout (phone user agent) */
+  mobile?: boolean;
+}
+
+export interface SearchView {
+  query: string;
+  items: MockItem[];
+  totalResults: number;
+  page: number;
+  totalPages: number;
+  minPrice?: number;
+  maxPrice?: number;
+  nextPageUrl?: string;
+  /** Current query parameters, used to build facet toggle links */
+  params: URLSearchParams;
+  categories: MockCategory[];
+  /** Promoted listing shown third on the page, outside the sort order */
+  sponsored?: MockItem;
+}
+
+interface FacetOption {
+  label: string;
+  param: string;
+  value: string;
+  /** Multi-select facets join values with "|" (e.g. LH_ItemCondition=1000|3000) */
+  multi?: boolean;
+}
+
+const FACET_GROUPS: { heading: string; role: 'checkbox' | 'radio'; options: FacetOption[] }[] = [
+  {
+    heading: 'Condition',
+    role: 'checkbox',
+    options: [
+      { label: 'New', param: 'LH_ItemCondition', value: '1000', multi: true },
+      { label: 'Open box', param: 'LH_ItemCondition', value: '1500', multi: true },
+      { label: 'Seller refurbished', param: 'LH_ItemCondition', value: '2500', multi: true },
+      { label: 'Used', param: 'LH_ItemCondition', value: '3000', multi: true },
+      { label: 'For parts or not working', param: 'LH_ItemCondition', value: '7000', multi: true },
+    ],
+  },
+  {
+    heading: 'Buying Format',
+    role: 'radio',
+    options: [
+      { label: 'Auction', param: 'LH_Auction', value: '1' },
+      { label: 'Buy It Now', param: 'LH_BIN', value: '1' },
+      { label: 'Accepts Offers', param: 'LH_BO', value: '1' },
+    ],
+  },
+  {
+    heading: 'Delivery Options',
+    role: 'checkbox',
+    options: [{ label: 'Free Shipping', param: 'LH_FS', value: '1' }],
+  },
+  {
+    heading: 'Item Location',
+    role: 'radio',
+    options: [
+      { label: 'US Only', param: 'LH_PrefLoc', value: '1' },
+      { label: 'North America', param: 'LH_PrefLoc', value: '3' },
+      { label: 'Worldwide', param: 'LH_PrefLoc', value: '2' },
+    ],
+  },
+];
+
+const SORT_OPTIONS = [
+  { label: 'Best Match', value: '12' },
+  { label: 'Time: ending soonest', value: '1' },
+  { label: 'Time: newly listed', value: '10' },
+  { label: 'Price + Shipping: lowest first', value: '15' },
+  { label: 'Price + Shipping: highest first', value: '16' },
+];
+
+export class Views {
+  /**
+   * eBay home page
+   */
+  static home(header: HeaderState): string {
+    return this.layout('Electronics, Cars, Fashion, Collectibles & More | eBay', header, `
+      <main id="mainContent">
+        <h1 class="hl-title">Welcome to eBay</h1>
+      </main>`);
+  }
+
+  /**
+   * Search results page
+   */
+  static search(view: SearchView, header: HeaderState): string {
+    const entries = view.items.map(item => ({ item, sponsored: false }));
+    if (view.sponsored) {
+      entries.splice(2, 0, { item: view.sponsored, sponsored: true });
+    }
+    const cards = entries.map((entry, index) => this.card(entry.item, index, entry.sponsored)).join('');
+    const next = view.nextPageUrl
+      ? `<a class="pagination__next" href="${escape(view.nextPageUrl)}" aria-label="Go to next search page">Next</a>`
+      : `<a class="pagination__next" aria-disabled="true" aria-label="Go to next search page">Next</a>`;
+
+    const facets = `
+          <ul class="x-refine__left__nav">
+            ${this.categoryFacet(view)}
+            ${FACET_GROUPS.map(group => this.facetGroup(group.heading, group.role, group.options, view.params)).join('')}
+          </ul>`;
+    const priceRange = (submit: string) => `
+          <form class="x-price-range" action="/sch/i.html" method="get">
+            ${[...view.params.entries()]
+              .filter(([key]) => !['_udlo', '_udhi', '_pgn'].includes(key))
+              .map(([key, value]) => `<input type="hidden" name="${escape(key)}" value="${escape(value)}">`).join('')}
+            <input type="text" name="MinPrice" aria-label="Minimum Value in $" value="${view.minPrice ?? ''}">
+            <input type="text" name="MaxPrice" aria-label="Maximum Value in $" value="${view.maxPrice ?? ''}">
+            ${submit}
+          </form>`;
+
+    // Mobile web: facets and price range move into a sheet opened by "Refine"
+    const refine = header.mobile
+      ? `
+        <button type="button" class="srp-refine__button" aria-haspopup="dialog" aria-controls="srp-refine-sheet"
+          onclick="document.getElementById('srp-refine-sheet').hidden = false;">Refine</button>
+        <div id="srp-refine-sheet" class="srp-refine__sheet" role="dialog" aria-label="Refine" hidden>
+          <button type="button" class="srp-refine__close" aria-label="Close"
+            onclick="document.getElementById('srp-refine-sheet').hidden = true;">Close</button>
+          ${facets}
+          ${priceRange('<button type="submit" class="srp-refine__apply">Show results</button>')}
+        </div>`
+      : `
+        <aside class="srp-rail">
+          ${facets}
+          ${priceRange('<button type="submit" class="x-price-range__submit">Submit price range</button>')}
+        </aside>`;
+
+    return this.layout(`${escape(view.query)} | eBay`, header, `
+      <div class="srp-main">
+        ${refine}
+        <section class="srp-results">
+          <h1 class="srp-controls__count-heading">${view.totalResults} results for ${escape(view.query)}</h1>
+          ${this.sortMenu(view.params)}
+          <ul class="srp-results srp-list">${cards}</ul>
+          <nav class="pagination" aria-label="Pagination">
+            <span class="pagination__current">Page ${view.page} of ${view.totalPages}</span>
+            ${next}
+          </nav>
+        </section>
+      </div>`);
+  }
+
+  /**
+   * Item (listing) page with SKU menus and Add to cart button
+   */
+  static item(item: MockItem, header: HeaderState): string {
+    const skus = item.variants.map((dimension, index) => this.skuControl(dimension, index, header.mobile)).join('');
+
+    return this.layout(`${escape(item.title)} | eBay`, header, `
+      <main id="mainContent" class="x-item" data-item-id="${item.id}">
+        <h1 class="x-item-title__mainTitle"><span class="ux-textspans">${escape(item.title)}</span></h1>
+        <div class="x-price-primary"><span class="ux-textspans">US ${money(item.price)}</span></div>
+        <div class="x-item-condition-text"><span class="ux-textspans">${escape(item.condition)}</span></div>
+        <div class="x-msku" data-sold-out="${escape(JSON.stringify(item.soldOutCombinations))}">${skus}</div>
+        <label for="qtyTextBox">Quantity</label>
+        <select id="qtyTextBox" name="quantity">
+          ${[1, 2, 3, 4, 5].map(qty => `<option value="${qty}">${qty}</option>`).join('')}
+        </select>
+        <p class="x-msku__error" role="alert" hidden></p>
+        <a id="atcBtn_btn_1" class="ux-call-to-action" href="#" role="button">Add to cart</a>
+        <div class="ux-overlay" hidden>Added to cart</div>
+      </main>
+      <script>${ITEM_SCRIPT}</script>`);
+  }
+
+  /**
+   * Cart page
+   */
+  static cart(lines: MockCartLine[], saved: MockCartLine[], header: HeaderState): string {
+    const { count, subtotal, shipping, tax } = totals(lines);
+
+    const lineAction = (line: MockCartLine, action: string, testId: string, label: string) => `
+        <form method="post" action="/cart/${action}">
+          <input type="hidden" name="lineId" value="${line.lineId}">
+          <button type="submit" data-test-id="${testId}">${label}</button>
+        </form>`;
+    const variations = (line: MockCartLine) => `<div class="item-variations">${Object.entries(line.variants)
+      .map(([label, value]) => `<span>${escape(label)}: ${escape(value)}</span>`).join('')}</div>`;
+
+    const rows = lines.map(line => {
+      const maxQuantity = Math.max(line.quantity, Math.min(10, line.quantityAvailable));
+      const quantities = Array.from({ length: maxQuantity }, (_, index) => index + 1);
+      return `
+      <div class="cart-bucket-lineitem" data-listing-id="${line.itemId}">
+        <a class="item-title" href="/itm/${line.itemId}">${escape(line.title)}</a>
+        ${variations(line)}
+        <form method="post" action="/cart/quantity">
+          <input type="hidden" name="lineId" value="${line.lineId}">
+          <label>Qty
+            <select name="quantity" data-test-id="qty-dropdown" onchange="this.form.submit()">
+              ${quantities.map(qty => `<option value="${qty}"${qty === line.quantity ? ' selected' : ''}>${qty}</option>`).join('')}
+            </select>
+          </label>
+        </form>
+        <div class="item-price">${money(line.price * line.quantity)}</div>
+        ${line.quantityAvailable <= 3 ? `<div class="item-availability" role="alert">Only ${line.quantityAvailable} left</div>` : ''}
+        ${lineAction(line, 'save', 'cart-save-for-later', 'Save for later')}
+        ${lineAction(line, 'remove', 'cart-remove-item', 'Remove')}
+      </div>`;
+    }).join('');
+
+    const savedRows = saved.map(line => `
+      <div class="saved-for-later-item" data-listing-id="${line.itemId}">
+        <a class="item-title" href="/itm/${line.itemId}">${escape(line.title)}</a>
+        ${variations(line)}
+        <div class="item-price">${money(line.price)}</div>
+        ${lineAction(line, 'move', 'save-for-later-move-to-cart', 'Move to cart')}
+      </div>`).join('');
+    const savedSection = saved.length === 0
+      ? ''
+      : `<section class="saved-for-later" data-test-id="saved-for-later"><h2>Saved for later (${saved.length})</h2>${savedRows}</section>`;
+
+    const body = lines.length === 0
+      ? `<div class="empty-cart"><h2>You don't have any items in your cart.</h2></div>`
+      : `<div class="cart-bucket">${rows}</div>
+        <div class="cart-bucket-summary cart-summary">
+          <div class="cart-summary-line-item" data-test-id="ITEM_TOTAL"><span>Items (${count})</span><span>${money(subtotal)}</span></div>
+          <div class="cart-summary-line-item" data-test-id="SHIPPING"><span>Shipping</span><span>${shipping === 0 ? 'Free' : money(shipping)}</span></div>
+          <div data-test-id="SUBTOTAL" class="total-row"><span>Subtotal</span><span class="text-display-24">${money(subtotal + shipping)}</span></div>
+          <div class="cart-summary-line-item" data-test-id="TAX"><span>Estimated tax</span><span>${money(tax)}</span></div>
+          <div data-test-id="ORDER_TOTAL" class="total-row"><span>Order total</span><span class="text-display-24">${money(subtotal + shipping + tax)}</span></div>
+          <form method="get" action="/checkout">
+            <button type="submit" data-test-id="cta-top">Go to checkout</button>
+          </form>
+        </div>`;
+
+    return this.layout('eBay shopping cart', header, `
+      <main id="mainContent" class="cart">
+        <h1 class="main-title">Shopping cart</h1>
+        ${body}
+        ${savedSection}
+      </main>
+      <script>${CART_SCRIPT}</script>`);
+  }
+
+  /**
+   * Cart service response (GET /api/cart) the cart page loads its badge count from
+   */
+  static cartData(lines: MockCartLine[]): object {
+    const { count, subtotal, shipping, tax } = totals(lines);
+    const amount = (value: number) => ({ value: Math.round(value * 100) / 100, currency: 'USD' });
+
+    return {
+      cartCount: count,
+      lineItems: lines.map(line => ({
+        lineId: line.lineId,
+        listingId: line.itemId,
+        title: line.title,
+        quantity: line.quantity,
+        variations: Object.entries(line.variants).map(([name, value]) => ({ name, value })),
+        price: amount(line.price),
+        lineTotal: amount(line.price * line.quantity),
+      })),
+      summary: {
+        itemSubtotal: amount(subtotal),
+        shipping: amount(shipping),
+        tax: amount(tax),
+        total: amount(subtotal + shipping + tax),
+      },
+    };
+  }
+
+  /**
+   * Checkout step 1: sign in or continue as guest
+   */
+  static checkoutGuest(header: HeaderState): string {
+    return this.layout('Checkout | eBay', header, `
+      <main id="mainContent" class="checkout">
+        <h1>Check out</h1>
+        <a href="/signin">Sign in to check out</a>
+        <form method="post" action="/checkout/guest">
+          <button id="gxo-btn" type="submit">Check out as guest</button>
+        </form>
+      </main>`);
+  }
+
+  /**
+   * Checkout step 2: shipping address form
+   */
+  static checkoutAddress(
+    header: HeaderState,
+    values: Partial<MockAddress> = {},
+    errors: Partial<Record<keyof MockAddress, string>> = {}
+  ): string {
+    const fields = ADDRESS_FIELDS.map(field => `
+          <div class="field">
+            <label for="${field.name}">${field.label}</label>
+            <input id="${field.name}" name="${field.name}" value="${escape(values[field.name] ?? '')}"${errors[field.name] ? ` aria-invalid="true" aria-describedby="${field.name}-error"` : ''}>
+            ${errors[field.name] ? `<p class="field__error" id="${field.name}-error">${escape(errors[field.name]!)}</p>` : ''}
+          </div>`).join('');
+
+    return this.layout('Checkout | eBay', header, `
+      <main id="mainContent" class="checkout">
+        <h1>Ship to</h1>
+        ${Object.keys(errors).length > 0 ? '<div class="page-notice" role="alert">Please fix the highlighted fields.</div>' : ''}
+        <form method="post" action="/checkout/address" class="address-form">
+          ${fields}
+          <button type="submit" data-test-id="ADD_ADDRESS_SUBMIT">Done</button>
+        </form>
+      </main>`);
+  }
+
+  /**
+   * Checkout step 3: delivery options
+   */
+  static checkoutDelivery(header: HeaderState, options: MockDeliveryOption[], selectedId?: string): string {
+    const choices = options.map((option, index) => `
+          <label class="shipping-option">
+            <input type="radio" name="shippingOption" value="${option.id}"${(selectedId ?? options[0].id) === option.id ? ' checked' : ''}>
+            <span>${escape(option.label)}</span>
+            <span class="shipping-option__cost">${option.surcharge === 0 ? 'No extra cost' : `+${money(option.surcharge)}`}</span>
+          </label>`).join('');
+
+    return this.layout('Checkout | eBay', header, `
+      <main id="mainContent" class="checkout">
+        <h1>Delivery</h1>
+        <form method="post" action="/checkout/delivery">
+          <fieldset class="shipping-options"><legend>Choose a delivery option</legend>${choices}</fieldset>
+          <button type="submit" data-test-id="DELIVERY_CONTINUE">Continue</button>
+        </form>
+      </main>`);
+  }
+
+  /**
+   * Checkout step 4: order review (the purchase button is disabled)
+   */
+  static checkoutReview(
+    lines: MockCartLine[],
+    address: MockAddress,
+    delivery: MockDeliveryOption,
+    header: HeaderState
+  ): string {
+    const { count, subtotal, shipping, tax } = totals(lines, delivery.surcharge);
+    const items = lines.map(line => `
+        <div class="checkout-item" data-listing-id="${line.itemId}">
+          <span class="item-title">${escape(line.title)}</span>
+          <span class="item-qty">Qty ${line.quantity}</span>
+          <span class="item-price">${money(line.price * line.quantity)}</span>
+        </div>`).join('');
+
+    return this.layout('Checkout | eBay', header, `
+      <main id="mainContent" class="checkout">
+        <h1>Review your order</h1>
+        <section class="ship-to-address">
+          <h2>Ship to</h2>
+          <p>${escape(`${address.firstName} ${address.lastName}`)}<br>${escape(address.addressLine1)}<br>${escape(`${address.city}, ${address.stateOrProvince} ${address.postalCode}`)}</p>
+        </section>
+        <section class="delivery-choice"><h2>Delivery</h2><p>${escape(delivery.label)}</p></section>
+        <section class="checkout-items">${items}</section>
+        <section class="order-summary" data-test-id="ORDER_SUMMARY">
+          <h2>Order summary</h2>
+          <div class="summary-line" data-test-id="SUBTOTAL"><span>Items (${count})</span><span>${money(subtotal)}</span></div>
+          <div class="summary-line" data-test-id="SHIPPING"><span>Shipping</span><span>${shipping === 0 ? 'Free' : money(shipping)}</span></div>
+          <div class="summary-line" data-test-id="TAX"><span>Tax*</span><span>${money(tax)}</span></div>
+          <div class="summary-line summary-total" data-test-id="TOTAL"><span>Order total</span><span>${money(subtotal + shipping + tax)}</span></div>
+          <button type="button" data-test-id="CONFIRM_AND_PAY_BUTTON" disabled>Confirm and pay</button>
+          <p class="summary-note">Purchases are disabled on the local eBay stand-in.</p>
+        </section>
+      </main>`);
+  }
+
+  /**
+   * Not found page
+   */
+  static notFound(header: HeaderState): string {
+    return this.layout('Page not found | eBay', header, `<main id="mainContent"><h1>We looked everywhere.</h1></main>`);
+  }
+
+  /**
+   * One SKU dimension as a listbox menu, swatch buttons or a legacy <select>
+   * Mobile web renders every dimension as a button opening a bottom sheet
+   */
+  private static skuControl(dimension: MockVariantDimension, index: number, mobile = false): string {
+    const label = escape(dimension.label);
+    const outOfStock = (value: string) => dimension.outOfStock.includes(value);
+    const text = (value: string) => escape(outOfStock(value) ? `${value} (Out of stock)` : value);
+
+    if (mobile) {
+      return `
+      <div class="vim x-sku x-sku--sheet" data-sku="${label}">
+        <button type="button" class="x-msku-mweb__button" aria-haspopup="dialog" aria-controls="msku-sheet-${index}">
+          <span class="x-msku__label">${label}:</span>
+          <span class="x-msku__selected">Select</span>
+        </button>
+        <div id="msku-sheet-${index}" class="x-bottom-sheet" role="dialog" aria-label="${label}" hidden>
+          <div class="x-bottom-sheet__options">
+            ${dimension.values.map(value => `<div role="option" data-value="${escape(value)}"${outOfStock(value) ? ' data-stock="out" aria-disabled="true"' : ''}>${text(value)}</div>`).join('')}
+          </div>
+        </div>
+      </div>`;
+    }
+
+    switch (dimension.control) {
+      case 'select':
+        return `
+      <div class="msku-legacy">
+        <label for="msku-sel-${index}">${label}</label>
+        <select id="msku-sel-${index}" class="x-msku__select" data-sku="${label}">
+          <option value="">- Select -</option>
+          ${dimension.values.map(value => `<option value="${escape(value)}"${outOfStock(value) ? ' disabled' : ''}>${text(value)}</option>`).join('')}
+        </select>
+      </div>`;
+
+      case 'swatch':
+        return `
+      <div class="vim x-sku x-sku--swatch" data-sku="${label}">
+        <span class="x-msku__label">${label}:</span>
+        <span class="x-msku__selected">Select</span>
+        <div class="x-msku__swatches" role="radiogroup" aria-label="${label}">
+          ${dimension.values.map(value => `<button type="button" role="radio" class="x-msku__swatch" aria-checked="false" data-value="${escape(value)}"${outOfStock(value) ? ' data-stock="out" disabled aria-disabled="true"' : ''}>${text(value)}</button>`).join('')}
+        </div>
+      </div>`;
+
+      default:
+        return `
+      <div class="vim x-sku" data-sku="${label}">
+        <button type="button" class="x-msku__select-box" aria-haspopup="listbox">
+          <span class="x-msku__label">${label}:</span>
+          <span class="x-msku__selected">Select</span>
+        </button>
+        <div class="x-msku__listbox" role="listbox" hidden>
+          <div role="option">Select</div>
+          ${dimension.values.map(value => `<div role="option" data-value="${escape(value)}"${outOfStock(value) ? ' data-stock="out" aria-disabled="true"' : ''}>${text(value)}</div>`).join('')}
+        </div>
+      </div>`;
+    }
+  }
+
+  private static card(item: MockItem, index: number, sponsored = false): string {
+    return `
+      <li data-gr3="${index + 1}" data-listingid="${item.id}" class="s-card s-card--vertical">
+        ${sponsored ? '<span class="s-card__sponsored">Sponsored</span>' : ''}
+        <a class="su-link" href="/itm/${item.id}">
+          <div class="s-card__title"><span>${escape(item.title)}</span></div>
+        </a>
+        <div class="s-card__subtitle"><span>${escape(item.condition)}</span></div>
+        <span class="s-card__price">${money(item.price)}</span>
+        ${this.buyingFormatRows(item)}
+        <div class="s-card__attribute-row">${item.shipping === 0 ? 'Free delivery' : `+${money(item.shipping)} delivery`}</div>
+        ${item.country !== 'US' ? `<div class="s-card__attribute-row">Located in ${COUNTRY_NAMES[item.country] ?? item.country}</div>` : ''}
+        <div class="s-card__attribute-row s-card__seller">${escape(item.seller.name)} ${item.seller.feedbackPercent}% positive (${item.seller.feedbackCount})</div>
+        <div class="s-card__attribute-row">${listedText(item.listedMinutesAgo)}</div>
+      </li>`;
+  }
+
+  /**
+   * Sign-in step 1: user ID
+   */
+  static signinUserId(header: HeaderState, error?: string): string {
+    return this.layout('Sign in or Register | eBay', header, `
+      <main id="mainContent" class="signin">
+        <h1>Sign in to your account</h1>
+        ${this.signinError(error)}
+        <form method="post" action="/signin">
+          <input id="userid" name="userid" type="text" aria-label="Email or username" autocomplete="username">
+          <button id="signin-continue-btn" type="submit">Continue</button>
+        </form>
+      </main>`);
+  }
+
+  /**
+   * Sign-in step 2: password
+   */
+  static signinPassword(username: string, header: HeaderState, error?: string): string {
+    return this.layout('Sign in or Register | eBay', header, `
+      <main id="mainContent" class="signin">
+        <h1>Welcome, ${escape(username)}</h1>
+        ${this.signinError(error)}
+        <form method="post" action="/signin/password">
+          <input type="hidden" name="userid" value="${escape(username)}">
+          <input id="pass" name="pass" type="password" aria-label="Password" autocomplete="current-password">
+          <button id="sgnBt" type="submit">Sign in</button>
+        </form>
+      </main>`);
+  }
+
+  /**
+   * Sign-in step 3: 2FA challenge
+   */
+  static signinChallenge(header: HeaderState, error?: string): string {
+    return this.layout('Verify it\'s you | eBay', header, `
+      <main id="mainContent" class="signin">
+        <h1>Verify it's you</h1>
+        <p>Enter the security code we sent to your phone.</p>
+        ${this.signinError(error)}
+        <form method="post" action="/signin/challenge">
+          <input id="otp-code" name="otpCode" type="text" inputmode="numeric" aria-label="Security code">
+          <button id="otp-submit-btn" type="submit">Continue</button>
+        </form>
+      </main>`);
+  }
+
+  /**
+   * Sign-in step 4: "Stay signed in" prompt
+   */
+  static signinStay(header: HeaderState): string {
+    return this.layout('Stay signed in | eBay', header, `
+      <main id="mainContent" class="signin">
+        <h1>Stay signed in?</h1>
+        <form method="post" action="/signin/stay">
+          <button id="stay-signed-in-btn" type="submit" name="stay" value="yes">Stay signed in</button>
+          <button id="stay-signed-in-skip" type="submit" name="stay" value="no">Not now</button>
+        </form>
+      </main>`);
+  }
+
+  private static signinError(error?: string): string {
+    return error ? `<p id="signin-error-msg" role="alert">${escape(error)}</p>` : '';
+  }
+
+  private static facetGroup(heading: string, role: string, options: FacetOption[], params: URLSearchParams): string {
+    const links = options.map(option => {
+      const current = (params.get(option.param) ?? '').split('|').filter(Boolean);
+      const checked = current.includes(option.value);
+      const next = new URLSearchParams(params);
+      next.delete('_pgn');
+
+      if (option.multi) {
+        const values = checked ? current.filter(value => value !== option.value) : [...current, option.value];
+        if (values.length) next.set(option.param, values.join('|'));
+        else next.delete(option.param);
+      } else {
+        // Radio groups replace any sibling option
+        options.forEach(sibling => next.delete(sibling.param));
+        if (!checked) next.set(option.param, option.value);
+      }
+
+      return `
+        <li class="x-refine__main__list--value">
+          <a class="x-refine__multi-select-link" href="/sch/i.html?${escape(next.toString())}" role="${role}" aria-checked="${checked}">
+            <span class="cbx x-refine__multi-select-cbx">${escape(option.label)}</span>
+          </a>
+        </li>`;
+    }).join('');
+
+    return `
+      <li class="x-refine__main__list">
+        <div class="x-refine__item">${escape(heading)}</div>
+        <ul class="x-refine__main__value">${links}</ul>
+      </li>`;
+  }
+
+  private static categoryFacet(view: SearchView): string {
+    const options = view.categories.map(category => ({
+      label: category.name,
+      param: '_sacat',
+      value: category.id,
+    }));
+    return this.facetGroup('Category', 'radio', options, view.params);
+  }
+
+  private static sortMenu(params: URLSearchParams): string {
+    const current = SORT_OPTIONS.find(option => option.value === params.get('_sop')) ?? SORT_OPTIONS[0];
+    const links = SORT_OPTIONS.map(option => {
+      const next = new URLSearchParams(params);
+      next.set('_sop', option.value);
+      next.delete('_pgn');
+      return `<li><a href="/sch/i.html?${escape(next.toString())}">${escape(option.label)}</a></li>`;
+    }).join('');
+
+    return `
+      <div class="srp-sort">
+        <button type="button" class="srp-sort__menu-btn" aria-expanded="false"
+          onclick="var menu = this.nextElementSibling; menu.hidden = !menu.hidden; this.setAttribute('aria-expanded', String(!menu.hidden));">Sort: ${escape(current.label)}</button>
+        <ul class="srp-sort__menu" hidden>${links}</ul>
+      </div>`;
+  }
+
+  private static buyingFormatRows(item: MockItem): string {
+    switch (item.buyingFormat) {
+      case 'Auction':
+        return `<div class="s-card__attribute-row">${(parseInt(item.id.slice(-2), 10) % 12) + 1} bids</div>`;
+      case 'Best Offer':
+        return `<div class="s-card__attribute-row">Buy It Now</div><div class="s-card__attribute-row">or Best Offer</div>`;
+      default:
+        return `<div class="s-card__attribute-row">Buy It Now</div>`;
+    }
+  }
+
+  private static layout(title: string, header: HeaderState, content: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${title}</title>
+</head>
+<body>
+  ${header.cookieBanner ? COOKIE_BANNER : ''}
+  ${header.mobile ? MOBILE_HEADER(header) : DESKTOP_HEADER(header)}
+  ${content}
+</body>
+</html>`;
+  }
+}
+
+const greeting = (header: HeaderState) => header.username
+  ? `Hi <b>${escape(header.username)}</b>! <span id="gh-uo" hidden><a href="/signin?lgout=1">Sign out</a></span>`
+  : '<a href="/signin">Sign in</a>';
+
+const DESKTOP_HEADER = (header: HeaderState) => `
+  <header id="gh">
+    <a class="gh-logo" href="/">eBay</a>
+    <form id="gh-f" action="/sch/i.html" method="get">
+      <input type="text" name="_nkw" placeholder="Search for anything" aria-label="Search for anything">
+      <button id="gh-search-btn" type="submit">Search</button>
+    </form>
+    <span id="gh-ug">${greeting(header)}</span>
+    <a class="gh-cart" href="/cart">Cart <span id="gh-cart-n">${header.cartCount}</span></a>
+  </header>`;
+
+// Mobile web header: icon-only search button and cart badge
+const MOBILE_HEADER = (header: HeaderState) => `
+  <header id="gh" class="gh-mweb">
+    <a class="gh-logo" href="/">eBay</a>
+    <span id="gh-ug">${greeting(header)}</span>
+    <a class="gh-mweb-cart" href="/cart" aria-label="Your shopping cart"><span id="gh-cart-n">${header.cartCount}</span></a>
+    <form id="gh-f" class="gh-search" action="/sch/i.html" method="get">
+      <input type="text" name="_nkw" placeholder="Search for anything" aria-label="Search for anything">
+      <button class="gh-search__submitbtn" type="submit" aria-label="Search"></button>
+    </form>
+  </header>`;
+
+const COUNTRY_NAMES: Record<string, string> = { CA: 'Canada', CN: 'China', GB: 'United Kingdom', MX: 'Mexico' };
+
+// Consent banner shown until "Accept all" sets the consent cookie
+const COOKIE_BANNER = `
+  <div id="gdpr-banner" role="region" aria-label="Cookie preferences">
+    <p>We use cookies to improve your experience.</p>
+    <button id="gdpr-banner-accept" type="button">Accept all</button>
+  </div>
+  <script>
+    document.getElementById('gdpr-banner-accept').addEventListener('click', function () {
+      document.cookie = 'ebay_mock_consent=1; Path=/';
+      document.getElementById('gdpr-banner').remove();
+    });
+  </script>`;
+
+// Flat sales tax used for the "Estimated tax" line
+const TAX_RATE = 0.0825;
+
+/**
+ * Client-side behaviour of the item page: SKU menus and Add to cart
+ */
+const ITEM_SCRIPT = `
+  var soldOut = JSON.parse(document.querySelector('.x-msku').dataset.soldOut || '[]');
+  var addToCart = document.getElementById('atcBtn_btn_1');
+
+  function selection() {
+    var selected = {};
+    document.querySelectorAll('[data-sku]').forEach(function (sku) {
+      var value = sku.tagName === 'SELECT' ? sku.value : sku.dataset.selected;
+      if (value) selected[sku.dataset.sku] = value;
+    });
+    return selected;
+  }
+
+  function isSoldOut(combination, selected) {
+    return Object.keys(combination).every(function (label) { return selected[label] === combination[label]; });
+  }
+
+  // Disable values that would complete a sold-out combination, and Add to cart when one is selected
+  function refresh() {
+    var selected = selection();
+    document.querySelectorAll('[data-sku]').forEach(function (sku) {
+      sku.querySelectorAll('[data-value], option[value]').forEach(function (option) {
+        var value = option.dataset.value || option.value;
+        if (!value || option.dataset.stock === 'out') return;
+        var candidate = Object.assign({}, selected);
+        candidate[sku.dataset.sku] = value;
+        var blocked = soldOut.some(function (combination) {
+          return combination[sku.dataset.sku] === value && isSoldOut(combination, candidate);
+        });
+        if (blocked) option.setAttribute('aria-disabled', 'true');
+        else option.removeAttribute('aria-disabled');
+      });
+    });
+    var unavailable = soldOut.some(function (combination) { return isSoldOut(combination, selected); });
+    if (unavailable) addToCart.setAttribute('aria-disabled', 'true');
+    else addToCart.removeAttribute('aria-disabled');
+  }
+
+  function choose(sku, option) {
+    if (option.getAttribute('aria-disabled') === 'true') return;
+    sku.dataset.selected = option.dataset.value || '';
+    sku.querySelector('.x-msku__selected').textContent = option.dataset.value || 'Select';
+    sku.querySelectorAll('[role=radio]').forEach(function (swatch) {
+      swatch.setAttribute('aria-checked', String(swatch === option));
+    });
+    refresh();
+  }
+
+  document.querySelectorAll('.x-sku').forEach(function (sku) {
+    var listbox = sku.querySelector('[role=listbox]');
+    if (listbox) {
+      sku.querySelector('.x-msku__select-box').addEventListener('click', function () {
+        listbox.hidden = !listbox.hidden;
+      });
+    }
+    var sheet = sku.querySelector('.x-bottom-sheet');
+    if (sheet) {
+      sku.querySelector('.x-msku-mweb__button').addEventListener('click', function () {
+        sheet.hidden = false;
+      });
+    }
+    sku.querySelectorAll('[role=option], [role=radio]').forEach(function (option) {
+      option.addEventListener('click', function () {
+        choose(sku, option);
+        if (listbox) listbox.hidden = true;
+        if (sheet) sheet.hidden = true;
+      });
+    });
+  });
+  document.querySelectorAll('select[data-sku]').forEach(function (select) {
+    select.addEventListener('change', refresh);
+  });
+
+  addToCart.addEventListener('click', function (event) {
+    event.preventDefault();
+    if (addToCart.getAttribute('aria-disabled') === 'true') return;
+    var error = document.querySelector('.x-msku__error');
+    var variants = selection();
+    var missing = [];
+    document.querySelectorAll('[data-sku]').forEach(function (sku) {
+      if (!variants[sku.dataset.sku]) missing.push(sku.dataset.sku);
+    });
+    if (missing.length > 0) {
+      error.textContent = 'Please select a ' + missing.join(', ');
+      error.hidden = false;
+      return;
+    }
+    error.hidden = true;
+    fetch('/api/cart/add', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        itemId: document.querySelector('.x-item').dataset.itemId,
+        quantity: parseInt(document.getElementById('qtyTextBox').value, 10),
+        variants: variants
+      })
+    }).then(function (response) { return response.json(); }).then(function (cart) {
+      if (cart.error) {
+        error.textContent = cart.error;
+        error.hidden = false;
+        return;
+      }
+      document.getElementById('gh-cart-n').textContent = cart.count;
+      document.querySelector('.ux-overlay').hidden = false;
+    });
+  });
+`;
+
+/**
+ * Client-side behaviour of the cart page: refreshes the header badge from the cart service
+ */
+const CART_SCRIPT = `
+  fetch('/api/cart').then(function (response) { return response.json(); }).then(function (cart) {
+    document.getElementById('gh-cart-n').textContent = cart.cartCount;
+  });
+`;
+
+/**
+ * Cart/checkout amounts; extra shipping is a per-order delivery surcharge
+ */
+function totals(lines: MockCartLine[], extraShipping = 0) {
+  const count = lines.reduce((sum, line) => sum + line.quantity, 0);
+  const subtotal = lines.reduce((sum, line) => sum + line.price * line.quantity, 0);
+  const shipping = lines.reduce((sum, line) => sum + line.shipping * line.quantity, 0) + extraShipping;
+  const tax = Math.round((subtotal + shipping) * TAX_RATE * 100) / 100;
+  return { count, subtotal, shipping, tax };
+}
+
+/**
+ * Listing time as on search cards ("Listed Oct-17 14:05")
+ */
+function listedText(minutesAgo: number): string {
+  const listed = new Date(Date.now() - minutesAgo * 60 * 1000);
+  const month = listed.toLocaleString('en-US', { month: 'short' });
+  const time = `${String(listed.getHours()).padStart(2, '0')}:${String(listed.getMinutes()).padStart(2, '0')}`;
+  return `Listed ${month}-${listed.getDate()} ${time}`;
+}
+
+function money(amount: number): string {
+  return `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function escape(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
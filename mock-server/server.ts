@@ -0,0 +1,374 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { Catalog } from './Catalog';
+import { CartStore } from './CartStore';
+import { AccountStore } from './AccountStore';
+import { CheckoutStore, DELIVERY_OPTIONS } from './CheckoutStore';
+import { Views, HeaderState } from './Views';
+import { config } from '../config/env.config';
+
+/**
+ * Local eBay stand-in server
+ * Serves search results, item pages and a stateful cart so the suite can run offline.
+ * Started by the Playwright webServer hook when EBAY_MOCK is set (see playwright.config.ts)
+ */
+
+const SESSION_COOKIE = 'ebay_mock_sid';
+
+const carts = new CartStore();
+const accounts = new AccountStore();
+const checkouts = new CheckoutStore();
+
+const server = createServer(async (req, res) => {
+  try {
+    await handle(req, res);
+  } catch (error) {
+    console.log('Mock server error:', error);
+    send(res, 500, 'text/plain', 'Internal mock server error');
+  }
+});
+
+async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+  const sessionId = getSessionId(req, res);
+  const method = req.method ?? 'GET';
+  const header = (): HeaderState => ({
+    cartCount: carts.getCount(sessionId),
+    username: accounts.getUser(sessionId),
+    cookieBanner: !/(?:^|;\s*)ebay_mock_consent=1/.test(req.headers.cookie ?? ''),
+    mobile: /Mobile|Android|iPhone/.test(req.headers['user-agent'] ?? ''),
+  });
+
+  if (method === 'GET' && url.pathname === '/health') {
+    send(res, 200, 'text/plain', 'ok');
+    return;
+  }
+
+  if (method === 'GET' && url.pathname === '/') {
+    send(res, 200, 'text/html', Views.home(header()));
+    return;
+  }
+
+  if (method === 'GET' && url.pathname === '/sch/i.html') {
+    handleSearch(url, header(), res);
+    return;
+  }
+
+  const itemMatch = url.pathname.match(/^\/itm\/(?:[^/]+\/)?(\d+)$/);
+  if (method === 'GET' && itemMatch) {
+    const item = Catalog.getItem(itemMatch[1]);
+    if (!item) {
+      send(res, 404, 'text/html', Views.notFound(header()));
+      return;
+    }
+    send(res, 200, 'text/html', Views.item(item, header()));
+    return;
+  }
+
+  if (method === 'POST' && url.pathname === '/api/cart/add') {
+    const body = JSON.parse(await readBody(req) || '{}');
+    const item = Catalog.getItem(String(body.itemId ?? ''));
+    if (!item) {
+      send(res, 404, 'application/json', JSON.stringify({ error: 'Item not found' }));
+      return;
+    }
+    const variants: Record<string, string> = body.variants ?? {};
+    if (!Catalog.isAvailable(item, variants)) {
+      send(res, 409, 'application/json', JSON.stringify({ error: 'This variation is not available' }));
+      return;
+    }
+    const quantity = Math.max(1, parseInt(body.quantity, 10) || 1);
+    carts.add(sessionId, item, variants, quantity);
+    send(res, 200, 'application/json', JSON.stringify({ count: carts.getCount(sessionId) }));
+    return;
+  }
+
+  if (method === 'GET' && url.pathname === '/cart') {
+    send(res, 200, 'text/html', Views.cart(carts.getLines(sessionId), carts.getSaved(sessionId), header()));
+    return;
+  }
+
+  if (method === 'GET' && url.pathname === '/api/cart') {
+    send(res, 200, 'application/json', JSON.stringify(Views.cartData(carts.getLines(sessionId))));
+    return;
+  }
+
+  if (method === 'POST' && url.pathname === '/cart/remove') {
+    const form = new URLSearchParams(await readBody(req));
+    carts.remove(sessionId, form.get('lineId') ?? '');
+    redirect(res, '/cart');
+    return;
+  }
+
+  if (method === 'POST' && url.pathname === '/cart/quantity') {
+    const form = new URLSearchParams(await readBody(req));
+    carts.setQuantity(sessionId, form.get('lineId') ?? '', parseInt(form.get('quantity') ?? '1', 10) || 1);
+    redirect(res, '/cart');
+    return;
+  }
+
+  if (method === 'POST' && url.pathname === '/cart/save') {
+    const form = new URLSearchParams(await readBody(req));
+    carts.saveForLater(sessionId, form.get('lineId') ?? '');
+    redirect(res, '/cart');
+    return;
+  }
+
+  if (method === 'POST' && url.pathname === '/cart/move') {
+    const form = new URLSearchParams(await readBody(req));
+    carts.moveToCart(sessionId, form.get('lineId') ?? '');
+    redirect(res, '/cart');
+    return;
+  }
+
+  if (url.pathname.startsWith('/signin')) {
+    await handleSignIn(req, res, url.pathname, sessionId, header());
+    return;
+  }
+
+  if (url.pathname.startsWith('/checkout')) {
+    await handleCheckout(req, res, url.pathname, sessionId, header());
+    return;
+  }
+
+  send(res, 404, 'text/html', Views.notFound(header()));
+}
+
+/**
+ * Multi-step sign-in: user ID → password → optional 2FA → "Stay signed in"
+ */
+async function handleSignIn(
+  req: IncomingMessage,
+  res: ServerResponse,
+  path: string,
+  sessionId: string,
+  header: HeaderState
+): Promise<void> {
+  const form = req.method === 'POST' ? new URLSearchParams(await readBody(req)) : new URLSearchParams();
+  const pending = accounts.getPending(sessionId);
+
+  if (req.method === 'GET' && path === '/signin') {
+    send(res, 200, 'text/html', Views.signinUserId(header));
+    return;
+  }
+
+  if (req.method === 'POST' && path === '/signin') {
+    const account = accounts.find(form.get('userid') ?? '');
+    if (!account) {
+      send(res, 200, 'text/html', Views.signinUserId(header, 'Oops, that\'s not a match.'));
+      return;
+    }
+    send(res, 200, 'text/html', Views.signinPassword(account.username, header));
+    return;
+  }
+
+  if (req.method === 'POST' && path === '/signin/password') {
+    const account = accounts.find(form.get('userid') ?? '');
+    if (!account || account.password !== form.get('pass')) {
+      send(res, 200, 'text/html', Views.signinPassword(form.get('userid') ?? '', header, 'Oops, that\'s not a match.'));
+      return;
+    }
+    accounts.setPending(sessionId, account.username);
+    redirect(res, account.otpCode ? '/signin/challenge' : '/signin/stay');
+    return;
+  }
+
+  if (path === '/signin/challenge' && pending?.otpCode) {
+    if (req.method === 'POST' && form.get('otpCode') === pending.otpCode) {
+      redirect(res, '/signin/stay');
+      return;
+    }
+    const error = req.method === 'POST' ? 'That code didn\'t work. Please try again.' : undefined;
+    send(res, 200, 'text/html', Views.signinChallenge(header, error));
+    return;
+  }
+
+  if (path === '/signin/stay' && pending) {
+    if (req.method === 'POST') {
+      accounts.completeSignIn(sessionId);
+      redirect(res, '/');
+      return;
+    }
+    send(res, 200, 'text/html', Views.signinStay(header));
+    return;
+  }
+
+  redirect(res, '/signin');
+}
+
+/**
+ * Checkout: guest choice → shipping address → delivery option → review
+ * Each step redirects back to the first incomplete one; there is no purchase step
+ */
+async function handleCheckout(
+  req: IncomingMessage,
+  res: ServerResponse,
+  path: string,
+  sessionId: string,
+  header: HeaderState
+): Promise<void> {
+  const form = req.method === 'POST' ? new URLSearchParams(await readBody(req)) : new URLSearchParams();
+  const lines = carts.getLines(sessionId);
+  const checkout = checkouts.get(sessionId);
+  const canProceed = checkout.guest || header.username !== undefined;
+
+  if (lines.length === 0) {
+    redirect(res, '/cart');
+    return;
+  }
+
+  if (req.method === 'POST' && path === '/checkout/guest') {
+    checkouts.startGuest(sessionId);
+    redirect(res, '/checkout/address');
+    return;
+  }
+
+  if (!canProceed) {
+    send(res, 200, 'text/html', Views.checkoutGuest(header));
+    return;
+  }
+
+  if (path === '/checkout/address') {
+    if (req.method === 'POST') {
+      const errors = checkouts.setAddress(sessionId, form);
+      if (Object.keys(errors).length > 0) {
+        send(res, 200, 'text/html', Views.checkoutAddress(header, Object.fromEntries(form), errors));
+        return;
+      }
+      redirect(res, '/checkout/delivery');
+      return;
+    }
+    send(res, 200, 'text/html', Views.checkoutAddress(header, checkout.address));
+    return;
+  }
+
+  if (!checkout.address) {
+    redirect(res, '/checkout/address');
+    return;
+  }
+
+  if (path === '/checkout/delivery') {
+    if (req.method === 'POST' && checkouts.setDelivery(sessionId, form.get('shippingOption') ?? '')) {
+      redirect(res, '/checkout/review');
+      return;
+    }
+    send(res, 200, 'text/html', Views.checkoutDelivery(header, DELIVERY_OPTIONS, checkout.deliveryId));
+    return;
+  }
+
+  const delivery = DELIVERY_OPTIONS.find(option => option.id === checkout.deliveryId);
+  if (path === '/checkout/review' && delivery) {
+    send(res, 200, 'text/html', Views.checkoutReview(lines, checkout.address, delivery, header));
+    return;
+  }
+
+  redirect(res, delivery ? '/checkout/review' : '/checkout/delivery');
+}
+
+/**
+ * Render search results
+ * The left-rail price form submits MinPrice/MaxPrice, which are normalized
+ * to eBay's _udlo/_udhi query parameters
+ */
+function handleSearch(url: URL, header: HeaderState, res: ServerResponse): void {
+  const params = url.searchParams;
+
+  if (params.has('MinPrice') || params.has('MaxPrice')) {
+    const normalized = new URLSearchParams(params);
+    normalized.delete('MinPrice');
+    normalized.delete('MaxPrice');
+    normalized.delete('_udlo');
+    normalized.delete('_udhi');
+    if (params.get('MinPrice')) normalized.set('_udlo', params.get('MinPrice')!);
+    if (params.get('MaxPrice')) normalized.set('_udhi', params.get('MaxPrice')!);
+    redirect(res, `/sch/i.html?${normalized}`);
+    return;
+  }
+
+  const query = params.get('_nkw') ?? '';
+  const minPrice = parsePrice(params.get('_udlo'));
+  const maxPrice = parsePrice(params.get('_udhi'));
+  const results = Catalog.search(query, {
+    minPrice,
+    maxPrice,
+    conditionIds: (params.get('LH_ItemCondition') ?? '').split('|').filter(Boolean),
+    buyingFormat: params.get('LH_Auction') === '1' ? 'auction'
+      : params.get('LH_BIN') === '1' ? 'buyItNow'
+      : params.get('LH_BO') === '1' ? 'bestOffer'
+      : undefined,
+    freeShipping: params.get('LH_FS') === '1',
+    categoryId: params.get('_sacat') || undefined,
+    locationId: params.get('LH_PrefLoc') || undefined,
+    sortId: params.get('_sop') || undefined,
+  });
+
+  const totalPages = Math.max(1, Math.ceil(results.length / Catalog.resultsPerPage));
+  const page = Math.min(Math.max(1, parseInt(params.get('_pgn') ?? '1', 10) || 1), totalPages);
+  const start = (page - 1) * Catalog.resultsPerPage;
+
+  let nextPageUrl: string | undefined;
+  if (page < totalPages) {
+    const next = new URLSearchParams(params);
+    next.set('_pgn', String(page + 1));
+    nextPageUrl = `/sch/i.html?${next}`;
+  }
+
+  // Promoted listing from the other end of the results, so it breaks any sort order
+  const items = results.slice(start, start + Catalog.resultsPerPage);
+  const sponsored = results.length > Catalog.resultsPerPage ? results[results.length - page] : undefined;
+
+  send(res, 200, 'text/html', Views.search({
+    query,
+    items,
+    sponsored: sponsored && !items.includes(sponsored) ? sponsored : undefined,
+    totalResults: results.length,
+    page,
+    totalPages,
+    minPrice,
+    maxPrice,
+    nextPageUrl,
+    params,
+    categories: Catalog.categoriesFor(query),
+  }, header));
+}
+
+function getSessionId(req: IncomingMessage, res: ServerResponse): string {
+  const cookies = req.headers.cookie ?? '';
+  const match = cookies.match(new RegExp(`(?:^|;\\s*)${SESSION_COOKIE}=([^;]+)`));
+  if (match) {
+    return match[1];
+  }
+
+  const sessionId = randomUUID();
+  res.setHeader('Set-Cookie', `${SESSION_COOKIE}=${sessionId}; Path=/; HttpOnly; SameSite=Lax`);
+  return sessionId;
+}
+
+function parsePrice(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const price = parseFloat(value);
+  return isNaN(price) ? undefined : price;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function send(res: ServerResponse, status: number, contentType: string, body: string): void {
+  res.writeHead(status, { 'Content-Type': `${contentType}; charset=utf-8` });
+  res.end(body);
+}
+
+function redirect(res: ServerResponse, location: string): void {
+  res.writeHead(303, { Location: location });
+  res.end();
+}
+
+server.listen(config.mock.port, () => {
+  console.log(`eBay mock server listening on http://localhost:${config.mock.port}`);
+});
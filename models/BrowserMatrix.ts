@@ -0,0 +1,27 @@
+/**
+ * BrowserMatrix - Outcome of every test per browser project, written by BrowserMatrixReporter
+ */
+
+/**
+ * passed / failed / timedOut / skipped / interrupted: final status of the last attempt
+ * expected: whether that status is what the test expected (false for a test.fail() that passed)
+ */
+export interface BrowserMatrixCell {
+  status: 'passed' | 'failed' | 'timedOut' | 'skipped' | 'interrupted';
+  expected: boolean;
+  flaky: boolean;
+  /** Known deviations annotated on the test (config/browsers.ts) */
+  deviations: string[];
+}
+
+export interface BrowserMatrixRow {
+  /** File and title path, without the project */
+  test: string;
+  /** Cell per project name; projects that did not run the test are absent */
+  results: Record<string, BrowserMatrixCell>;
+}
+
+export interface BrowserMatrix {
+  projects: string[];
+  rows: BrowserMatrixRow[];
+}
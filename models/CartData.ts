@@ -0,0 +1,34 @@
+import { CartSummary } from './CartSummary';
+import { VariantSelection } from './SkuDimension';
+
+/**
+ * CartData - Cart contents as the cart service returned them (JSON), independent of the markup
+ * Captured while the cart page loads and cross-checked against the DOM by CartPage
+ */
+
+export interface CartDataLine {
+  itemId: string;
+  title: string;
+  variants: VariantSelection;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+}
+
+export interface CartData {
+  /** Response the data was parsed from */
+  url: string;
+  lineItems: CartDataLine[];
+  /** null when the response carries no summary */
+  summary: CartSummary | null;
+}
+
+/**
+ * One value the cart service and the rendered page disagree on
+ */
+export interface CartDataMismatch {
+  /** e.g. "orderTotal", "125551234567 quantity", "125551234567" (line missing on one side) */
+  field: string;
+  data: number | string | null;
+  page: number | string | null;
+}
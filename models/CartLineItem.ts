@@ -0,0 +1,54 @@
+import { SearchResult } from './SearchResult';
+import { VariantSelection } from './SkuDimension';
+
+/**
+ * CartLineItem - One row of the shopping cart
+ */
+
+export interface CartLineItem {
+  /** null when the row has no listing ID or item link */
+  itemId: string | null;
+  title: string;
+  variants: VariantSelection;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+  /** Availability notes shown on the row (e.g. "Only 2 left", "Out of stock") */
+  warnings: string[];
+}
+
+/**
+ * AddedItem - A search result as it was added to the cart
+ */
+export interface AddedItem extends SearchResult {
+  variants: VariantSelection;
+  quantity: number;
+  /** Price on the item page at the time it was added */
+  addedPrice: number;
+}
+
+export interface PriceChange {
+  itemId: string;
+  expected: number;
+  actual: number;
+}
+
+export interface VariantMismatch {
+  itemId: string;
+  expected: VariantSelection;
+  actual: VariantSelection;
+}
+
+/**
+ * Result of comparing the added items with the cart rows
+ */
+export interface CartReconciliation {
+  /** Item IDs found in the cart with matching variants */
+  matched: string[];
+  /** Added but not in the cart */
+  missing: AddedItem[];
+  /** In the cart but not added by this run */
+  extra: CartLineItem[];
+  priceChanged: PriceChange[];
+  variantMismatch: VariantMismatch[];
+}
@@ -0,0 +1,22 @@
+/**
+ * CartSummary - Cart price components as shown in the cart summary box
+ */
+
+export interface CartSummary {
+  /** "Items (n)" line - item prices only */
+  itemSubtotal: number;
+  /** 0 for free shipping */
+  shipping: number;
+  /** Estimated tax, null when the cart does not show it */
+  tax: number | null;
+  /** Bottom line of the summary (items + shipping + tax when shown) */
+  orderTotal: number;
+}
+
+/**
+ * Which cart amount a budget is checked against
+ * - subtotal: item prices only
+ * - subtotalPlusShipping: landed cost before tax
+ * - grandTotal: order total including tax
+ */
+export type BudgetMode = 'subtotal' | 'subtotalPlusShipping' | 'grandTotal';
@@ -0,0 +1,99 @@
+import { BudgetMode } from './CartSummary';
+import { ReportLabels } from './ReportLabels';
+import { FilterApplyMode } from './SearchCriteria';
+import { ScenarioFilters } from './Scenario';
+import { VariantSelection } from './SkuDimension';
+
+/**
+ * Flow - Declarative shopping scenario: a named list of steps run in order by FlowRunner
+ * Loaded and validated by FlowLoader
+ */
+
+/** Empty the cart */
+export interface ClearCartStep {
+  step: 'clearCart';
+}
+
+/** Search by keyword through the header search box */
+export interface SearchStep {
+  step: 'search';
+  query: string;
+}
+
+/** Apply price bounds and filters to the current search */
+export interface FilterStep extends ScenarioFilters {
+  step: 'filter';
+  minPrice?: number;
+  maxPrice?: number;
+  /** Default: url */
+  mode?: FilterApplyMode;
+}
+
+/** Collect listings from the results (following pagination) */
+export interface PickResultsStep {
+  step: 'pickResults';
+  count: number;
+  /** Per-card price cap (default: the filter's maxPrice) */
+  maxPrice?: number;
+  includeShipping?: boolean;
+}
+
+/** Open one of the picked listings */
+export interface OpenItemStep {
+  step: 'openItem';
+  /** Position in the picked results, from 0 */
+  index: number;
+}
+
+/** Choose variants on the open listing; dimensions not listed are random */
+export interface SelectVariantStep {
+  step: 'selectVariant';
+  values?: VariantSelection;
+}
+
+/** Add the open listing, or every picked listing with "all" */
+export interface AddToCartStep {
+  step: 'addToCart';
+  all?: boolean;
+}
+
+/** Remove an added item from the cart */
+export interface RemoveFromCartStep {
+  step: 'removeFromCart';
+  /** Position among the added items, from 0 (default: the last one) */
+  index?: number;
+}
+
+/** Reconcile the cart with the added items and check the budget */
+export interface AssertCartStep {
+  step: 'assertCart';
+  /** Budget per item */
+  maxPrice: number;
+  /** Default: subtotal */
+  budgetMode?: BudgetMode;
+  /** Expected number of items in the cart */
+  itemCount?: number;
+}
+
+export type FlowStep =
+  | ClearCartStep
+  | SearchStep
+  | FilterStep
+  | PickResultsStep
+  | OpenItemStep
+  | SelectVariantStep
+  | AddToCartStep
+  | RemoveFromCartStep
+  | AssertCartStep;
+
+export type FlowStepName = FlowStep['step'];
+
+export interface Flow {
+  /** Unique; used as the test title */
+  name: string;
+  description?: string;
+  /** Playwright tags without the "@" */
+  tags: string[];
+  labels?: ReportLabels;
+  steps: FlowStep[];
+}
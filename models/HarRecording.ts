@@ -0,0 +1,29 @@
+/**
+ * HarRecording - Sidecar written next to each recorded HAR file
+ * Lets HAR_MODE=replay reseed the RandomSelector so variant choices send the recorded requests
+ */
+
+/**
+ * off: live traffic
+ * record: capture the test's search, item and cart traffic into its HAR file
+ * replay: serve that traffic from the HAR file
+ */
+export type HarMode = 'off' | 'record' | 'replay';
+
+/**
+ * What happens to a search, item or cart request the HAR file has no entry for
+ * fail: abort it and fail the test, listing every unmatched request
+ * abort: abort it and let the test carry on
+ */
+export type HarUnmatchedPolicy = 'fail' | 'abort';
+
+export interface HarRecording {
+  /** Test title path the recording belongs to */
+  title: string;
+  project: string;
+  /** Per-test seed the RandomSelector ran with while recording */
+  seed: number;
+  baseURL: string;
+  marketplace: string;
+  recordedAt: string;
+}
@@ -0,0 +1,22 @@
+/**
+ * Money - Amounts with their ISO 4217 currency
+ */
+
+export interface Money {
+  amount: number;
+  /** ISO 4217 code (e.g. "USD", "EUR", "GBP") */
+  currency: string;
+}
+
+export interface PriceRange {
+  min: Money;
+  /** Equal to min for a single price */
+  max: Money;
+}
+
+export interface ParsedPrice {
+  /** Listed price ("$10.00 to $25.00" → min 10, max 25) */
+  listed: PriceRange;
+  /** Secondary converted price ("approximately US $48.99"), if shown */
+  converted: PriceRange | null;
+}
@@ -0,0 +1,39 @@
+import { PerformanceBudget, PerformanceStep } from '../config/performance';
+
+/**
+ * PerformanceMetrics - Timing and network cost of one measured page open or action
+ * Recorded by PerformanceMonitor, attached per test and appended to the history file
+ */
+export interface PerformanceMetrics {
+  step: PerformanceStep;
+  /** Page URL after the step */
+  url: string;
+  /** Whether the step loaded a new document */
+  navigation: boolean;
+  /** Load event (navigations) or last triggered request finished (interactions) */
+  durationMs: number;
+  /** Navigation timing, null for interactions */
+  ttfbMs: number | null;
+  domContentLoadedMs: number | null;
+  /** Largest Contentful Paint, null for interactions and browsers without LCP */
+  lcpMs: number | null;
+  requests: number;
+  /** Requests that failed or were aborted */
+  failedRequests: number;
+  transferKb: number;
+  budget: PerformanceBudget;
+  /** Exceeded limits, e.g. "lcpMs 5210 > 4000" */
+  violations: string[];
+}
+
+/**
+ * One line of the history file: every step a test measured
+ */
+export interface PerformanceHistoryEntry {
+  runAt: string;
+  test: string;
+  project: string;
+  marketplace: string;
+  baseURL: string;
+  steps: PerformanceMetrics[];
+}
@@ -0,0 +1,14 @@
+/**
+ * ReportLabels - Allure labels a test or scenario is grouped under
+ */
+export type ReportSeverity = 'blocker' | 'critical' | 'normal' | 'minor' | 'trivial';
+
+export interface ReportLabels {
+  /** Top-level grouping (e.g. "Shopping") */
+  epic?: string;
+  /** Functional area (e.g. "Cart") */
+  feature?: string;
+  /** User story within the feature */
+  story?: string;
+  severity?: ReportSeverity;
+}
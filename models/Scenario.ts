@@ -0,0 +1,43 @@
+import { BudgetMode } from './CartSummary';
+import { ReportLabels } from './ReportLabels';
+import { SearchFilters } from './SearchCriteria';
+import { VariantSelection } from './SkuDimension';
+import { MarketplaceId } from '../config/marketplaces';
+
+/**
+ * Scenario - One data-driven shopping case (search → add to cart → budget check)
+ * Loaded and validated by ScenarioLoader from JSON or CSV
+ */
+
+/**
+ * Search filters a scenario can set besides its price bounds
+ */
+export type ScenarioFilters = Omit<SearchFilters, 'minPrice' | 'maxPrice'>;
+
+export interface Scenario {
+  /** Unique; used in the test title */
+  name: string;
+  description?: string;
+  query: string;
+  minPrice?: number;
+  /** Budget per item, in the marketplace currency */
+  maxPrice: number;
+  /** Items to add (default 5) */
+  limit: number;
+  /** Count card shipping toward maxPrice when collecting items */
+  includeShipping?: boolean;
+  /** Default: subtotal */
+  budgetMode: BudgetMode;
+  filters?: ScenarioFilters;
+  /** Values that must be chosen for these dimensions (e.g. { "US Shoe Size": "9" }); other dimensions stay random */
+  requiredVariants?: VariantSelection;
+  /** Fewer search results fail the test (default 1) */
+  expectedMinResults: number;
+  /** Playwright tags without the "@" (e.g. ["smoke"]) */
+  tags: string[];
+  /** Only run against this marketplace */
+  marketplace?: MarketplaceId;
+  skip?: boolean;
+  only?: boolean;
+  labels?: ReportLabels;
+}
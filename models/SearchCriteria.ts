@@ -0,0 +1,38 @@
+import { BuyingFormat } from './SearchResult';
+
+/**
+ * SearchCriteria - Typed search request (keyword plus eBay filters)
+ */
+
+export type ItemCondition = 'new' | 'openBox' | 'refurbished' | 'used' | 'forParts';
+
+export type SortOrder =
+  | 'bestMatch'
+  | 'endingSoonest'
+  | 'newlyListed'
+  | 'pricePlusShippingLowest'
+  | 'pricePlusShippingHighest';
+
+/** "region" is the marketplace's own region (North America on ebay.com, the European Union on ebay.de) */
+export type ItemLocation = 'domestic' | 'region' | 'worldwide';
+
+export interface SearchFilters {
+  minPrice?: number;
+  maxPrice?: number;
+  conditions?: ItemCondition[];
+  buyingFormat?: BuyingFormat;
+  freeShipping?: boolean;
+  sortOrder?: SortOrder;
+  /** eBay category ID (_sacat) */
+  categoryId?: string;
+  location?: ItemLocation;
+}
+
+export interface SearchCriteria extends SearchFilters {
+  query: string;
+}
+
+/**
+ * How criteria are applied: by building the /sch/i.html URL or by clicking the left-rail facets
+ */
+export type FilterApplyMode = 'url' | 'facets';
@@ -0,0 +1,29 @@
+/**
+ * SearchResult - A listing read from a search results card
+ */
+
+export type BuyingFormat = 'auction' | 'buyItNow' | 'bestOffer';
+
+export interface SellerInfo {
+  name: string;
+  feedbackPercent: number | null;
+  feedbackCount: number | null;
+}
+
+export interface SearchResult {
+  /** eBay item ID (e.g. "123456789012") */
+  itemId: string;
+  /** Canonical item URL without tracking parameters */
+  url: string;
+  title: string;
+  price: number;
+  /** 0 for free shipping, null when the card does not say */
+  shippingCost: number | null;
+  condition: string;
+  buyingFormats: BuyingFormat[];
+  seller: SellerInfo | null;
+  /** Results page the card was found on (1-based) */
+  page: number;
+  /** Position of the card on its page (1-based) */
+  position: number;
+}
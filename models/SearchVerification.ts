@@ -0,0 +1,53 @@
+import { SortOrder } from './SearchCriteria';
+import { SearchResult } from './SearchResult';
+
+/**
+ * SearchVerification - Sort order and price bound checks over several results pages
+ */
+
+/** Sort orders whose result order can be checked from the cards */
+export type VerifiableSortOrder = Extract<SortOrder, 'pricePlusShippingLowest' | 'pricePlusShippingHighest' | 'newlyListed'>;
+
+export interface SearchExpectation {
+  sortOrder?: VerifiableSortOrder;
+  minPrice?: number;
+  maxPrice?: number;
+}
+
+export interface ResultCard extends SearchResult {
+  /** Upper end of a price range ("$10.00 to $25.00"); equal to price for a single price */
+  priceMax: number;
+  /** Promoted listing, placed by eBay regardless of the sort order */
+  sponsored: boolean;
+  /** Listing time in epoch milliseconds, null when the card does not show it */
+  listedAt: number | null;
+}
+
+export type SearchCheck = 'sort' | 'minPrice' | 'maxPrice';
+
+export interface SearchViolation {
+  check: SearchCheck;
+  /** Results page of the offending card (1-based) */
+  page: number;
+  /** Position of the offending card on its page (1-based) */
+  position: number;
+  itemId: string;
+  title: string;
+  /** Offending value (price, landed cost or listing time) */
+  value: string;
+  /** Bound or neighbouring value it violates */
+  bound: string;
+  detail: string;
+}
+
+export interface SearchVerificationReport {
+  url: string;
+  sortOrder: VerifiableSortOrder | null;
+  minPrice: number | null;
+  maxPrice: number | null;
+  pagesChecked: number;
+  itemsChecked: number;
+  /** Sponsored cards are left out of the sort check */
+  sponsoredSkipped: number;
+  violations: SearchViolation[];
+}
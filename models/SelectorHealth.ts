@@ -0,0 +1,48 @@
+import { SelectorKey } from '../config/selectors';
+
+/**
+ * SelectorHealth - Result of probing one registry element on a live page
+ * Produced by SelectorHealthCheck (npm run selectors:check)
+ */
+
+export interface CandidateProbe {
+  selector: string;
+  /** Elements the candidate matches */
+  count: number;
+  /** Whether its first match is visible */
+  visible: boolean;
+}
+
+/**
+ * ok: the primary candidate matches
+ * fallback: only a later candidate matches
+ * missing: no candidate matches
+ * skipped: the page or parent element could not be reached
+ */
+export type SelectorHealthStatus = 'ok' | 'fallback' | 'missing' | 'skipped';
+
+export interface SelectorHealth {
+  key: SelectorKey;
+  status: SelectorHealthStatus;
+  /** Absent on some listings or carts (e.g. variants); never fails the check */
+  optional: boolean;
+  /** First matching candidate */
+  matched: string | null;
+  count: number;
+  visible: boolean;
+  candidates: CandidateProbe[];
+  /** Why the element was skipped */
+  note?: string;
+}
+
+export interface SelectorHealthReport {
+  /** True when no required element is missing (and, with --strict, none fell back) */
+  passed: boolean;
+  strict: boolean;
+  baseURL: string;
+  marketplace: string;
+  checkedAt: string;
+  /** URL each page group was probed on */
+  pages: Record<string, string>;
+  elements: SelectorHealth[];
+}
@@ -0,0 +1,30 @@
+import { PageLayout, SelectorKey } from '../config/selectors';
+
+/**
+ * SelectorUsage - How often each candidate of a registry element matched
+ * Recorded by SelectorRegistry, merged across tests by SelectorDriftReporter
+ */
+export interface SelectorUsage {
+  key: SelectorKey;
+  /** Layout the candidates belong to (mobile elements have their own chains) */
+  layout: PageLayout;
+  candidates: string[];
+  /** Resolutions per candidate, same order as candidates */
+  hits: number[];
+  /** Resolutions where no candidate matched */
+  misses: number;
+}
+
+/**
+ * primary: the first candidate matched at least once and the element never went missing
+ * fallback: the element only ever resolved through a later candidate
+ * degraded: the element resolved in some lookups and no candidate matched in others
+ * missing: no candidate ever matched
+ */
+export type SelectorDriftStatus = 'primary' | 'fallback' | 'degraded' | 'missing';
+
+export interface SelectorDrift extends SelectorUsage {
+  status: SelectorDriftStatus;
+  /** Candidate that matched most often (null when missing) */
+  matched: string | null;
+}
@@ -0,0 +1,15 @@
+/**
+ * ShippingAddress - Guest checkout "Ship to" form values
+ */
+
+export interface ShippingAddress {
+  firstName: string;
+  lastName: string;
+  street: string;
+  city: string;
+  /** Two-letter state code (e.g. "NY") */
+  state: string;
+  postalCode: string;
+  email: string;
+  phone: string;
+}
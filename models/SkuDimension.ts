@@ -0,0 +1,33 @@
+/**
+ * SkuDimension - One variant dimension of a listing (e.g. "US Shoe Size", "Color", "Storage Capacity")
+ */
+
+/**
+ * How the dimension is rendered
+ * - menu: button that opens a role=listbox
+ * - swatch: row of buttons
+ * - select: legacy native <select>
+ * - sheet: mobile web button that opens a bottom sheet of role=option entries
+ */
+export type SkuControl = 'menu' | 'swatch' | 'select' | 'sheet';
+
+export interface SkuValue {
+  /** Value without stock suffixes */
+  value: string;
+  /** False when disabled or marked "Out of stock" */
+  available: boolean;
+  /** Position of the option within its control (placeholders included) */
+  index: number;
+}
+
+export interface SkuDimension {
+  /** Dimension label as shown on the page, without the trailing colon */
+  name: string;
+  control: SkuControl;
+  values: SkuValue[];
+}
+
+/**
+ * Chosen value per dimension name
+ */
+export type VariantSelection = Record<string, string>;
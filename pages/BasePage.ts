@@ -1,5 +1,16 @@
-import { Page } from '@playwright/test';
+import { Page, Locator } from '@playwright/test';
+import * as allure from 'allure-js-commons';
 import { config } from '../config/env.config';
+import { Interstitial, interstitialsFor } from '../config/interstitials';
+import { BotDetectedError, ItemSkippedError } from '../utils/Errors';
+import { step, AllureReporter } from '../utils/AllureReporter';
+import { measure, PerformanceMonitor } from '../utils/PerformanceMonitor';
+import { SelectorRegistry, ResolveOptions } from '../utils/SelectorRegistry';
+import { TestPaths } from '../utils/TestPaths';
+import { PageLayout, SelectorKey } from '../config/selectors';
+
+// Viewports narrower than this (phone device profiles) get eBay's mobile web layout
+const MOBILE_BREAKPOINT = 768;
 
 /**
  * BasePage - Base class for all Page Objects
@@ -8,20 +19,64 @@ import { config } from '../config/env.config';
 export class BasePage {
   readonly page: Page;
 
+  // Interstitials checked after every navigation and click, in registration order (back to the built-in ones before each test)
+  private static interstitials: Interstitial[] = interstitialsFor(config.marketplace.texts);
+
   constructor(page: Page) {
     this.page = page;
   }
 
+  /**
+   * Layout the page is served in: mobile web on phone-sized viewports, desktop otherwise
+   * Picks the registry candidates locate() and find() use
+   */
+  get layout(): PageLayout {
+    const width = this.page.viewportSize()?.width;
+    return width !== undefined && width < MOBILE_BREAKPOINT ? 'mobile' : 'desktop';
+  }
+
   /**
    * Navigate to a URL
    * @param url - Full URL or relative path
    */
+  @step('Open {url}')
+  @measure((url: string) => PerformanceMonitor.stepForUrl(url))
   async goto(url: string): Promise<void> {
     const fullUrl = url.startsWith('http') ? url : `${config.baseURL}${url}`;
     await this.page.goto(fullUrl, {
       timeout: config.timeout.navigation,
       waitUntil: 'domcontentloaded',
     });
+    await this.handleInterstitials();
+  }
+
+  /**
+   * Click a locator, then handle any interstitial it brought up
+   * @param locator - Element to click
+   * @param options - Playwright click options
+   */
+  async click(locator: Locator, options?: Parameters<Locator['click']>[0]): Promise<void> {
+    await locator.click(options);
+    await this.handleInterstitials();
+  }
+
+  /**
+   * Locator matching any candidate of a registry element (config/selectors.ts)
+   * @param key - Registry key, e.g. "cart.removeButton"
+   * @param scope - Parent locator (default: the page)
+   */
+  locate(key: SelectorKey, scope: Page | Locator = this.page): Locator {
+    return SelectorRegistry.any(scope, key, this.layout);
+  }
+
+  /**
+   * Resolve a registry element through its candidate chain and record which candidate matched
+   * @param key - Registry key, e.g. "cart.removeButton"
+   * @param options - Parent locator, wait time and extra acceptance check
+   * @returns Locator of the first matching candidate
+   */
+  async find(key: SelectorKey, options: ResolveOptions & { scope?: Locator } = {}): Promise<Locator> {
+    return SelectorRegistry.resolve(options.scope ?? this.page, key, { layout: this.layout, ...options });
   }
 
   /**
@@ -42,20 +97,44 @@ export class BasePage {
    */
   async clickElement(selector: string): Promise<void> {
     await this.page.click(selector, { timeout: config.timeout.element });
+    await this.handleInterstitials();
   }
 
   /**
-   * Take screenshot with custom name
+   * Take screenshot with custom name and attach it to the current report step
+   * Saved under the test's own directory (project, worker, test) so parallel tests never collide
    * @param name - Screenshot filename
    */
   async takeScreenshot(name: string): Promise<void> {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const filename = `${name}_${timestamp}.png`;
-    await this.page.screenshot({
-      path: `${config.screenshots.path}/${filename}`,
+    const path = `${TestPaths.screenshotDir()}/${name}_${timestamp}.png`;
+    const png = await this.page.screenshot({
+      path,
       fullPage: true,
     });
-    console.log(`Screenshot saved: ${filename}`);
+    await AllureReporter.attachScreenshot(name, png);
+    console.log(`Screenshot saved: ${path}`);
+  }
+
+  /**
+   * Read the cell texts of each row
+   * @param rowsLocator - Locator matching the rows
+   * @returns Text of every direct child per row
+   */
+  async readRowCells(rowsLocator: Locator): Promise<string[][]> {
+    const rows: string[][] = [];
+    for (const row of await rowsLocator.all()) {
+      rows.push(await row.locator(':scope > *').allTextContents());
+    }
+    return rows;
+  }
+
+  /**
+   * Wait until the page stops loading after an action (network idle), capped at config.timeout.settle
+   * Used instead of fixed sleeps, which are too short on slower engines and wasted time on fast ones
+   */
+  async waitForSettled(): Promise<void> {
+    await this.page.waitForLoadState('networkidle', { timeout: config.timeout.settle }).catch(() => undefined);
   }
 
   /**
@@ -89,4 +168,104 @@ export class BasePage {
       return false;
     }
   }
+
+  /**
+   * Register an interstitial for every page object until the end of the current test
+   * @param interstitial - Detector and policy
+   */
+  static registerInterstitial(interstitial: Interstitial): void {
+    this.unregisterInterstitial(interstitial.name);
+    this.interstitials.push(interstitial);
+  }
+
+  /**
+   * Remove a registered interstitial
+   * @param name - Interstitial name
+   */
+  static unregisterInterstitial(name: string): void {
+    const index = this.interstitials.findIndex(interstitial => interstitial.name === name);
+    if (index >= 0) {
+      this.interstitials.splice(index, 1);
+    }
+  }
+
+  /**
+   * Drop interstitials registered by earlier tests and restore the built-in ones
+   * Called by the interstitials fixture around every test
+   */
+  static resetInterstitials(): void {
+    this.interstitials = interstitialsFor(config.marketplace.texts);
+  }
+
+  /**
+   * Check every registered interstitial and apply its policy
+   * @throws BotDetectedError for "fail" entries and "retry" entries that persist
+   * @throws ItemSkippedError for "skip" entries
+   */
+  async handleInterstitials(): Promise<void> {
+    for (const interstitial of BasePage.interstitials) {
+      if (!(await this.isShowing(interstitial))) {
+        continue;
+      }
+
+      console.log(`⚠️  Interstitial "${interstitial.name}" detected (${interstitial.policy})`);
+      await allure.label('interstitial', interstitial.name);
+
+      await allure.step(`Handle interstitial "${interstitial.name}" (${interstitial.policy})`, async () => {
+        await this.takeScreenshot(`interstitial_${interstitial.name}`);
+
+        switch (interstitial.policy) {
+          case 'dismiss':
+            await this.dismissInterstitial(interstitial);
+            break;
+          case 'retry':
+            await this.retryInterstitial(interstitial);
+            break;
+          case 'skip':
+            throw new ItemSkippedError(interstitial.name, this.page.url());
+          case 'fail':
+            throw new BotDetectedError(interstitial.name, this.page.url());
+        }
+      });
+    }
+  }
+
+  private async isShowing(interstitial: Interstitial): Promise<boolean> {
+    return interstitial.detect(this.page).catch(() => false);
+  }
+
+  private async dismissInterstitial(interstitial: Interstitial): Promise<void> {
+    const closeControl = interstitial.dismissSelector ? this.page.locator(interstitial.dismissSelector).first() : null;
+    if (closeControl && await closeControl.isVisible()) {
+      await closeControl.click({ timeout: config.timeout.element });
+    } else {
+      await this.page.keyboard.press('Escape');
+    }
+
+    await this.page.waitForTimeout(500);
+    if (await this.isShowing(interstitial)) {
+      console.log(`⚠️  Could not dismiss "${interstitial.name}"`);
+    } else {
+      console.log(`✓ Dismissed "${interstitial.name}"`);
+    }
+  }
+
+  private async retryInterstitial(interstitial: Interstitial): Promise<void> {
+    const maxRetries = interstitial.maxRetries ?? 3;
+    const backoffMs = interstitial.backoffMs ?? 2000;
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      const wait = backoffMs * 2 ** (attempt - 1);
+      console.log(`Waiting ${wait}ms before reload (${attempt}/${maxRetries})...`);
+      await this.page.waitForTimeout(wait);
+      await this.page.reload({ timeout: config.timeout.navigation, waitUntil: 'domcontentloaded' });
+
+      if (!(await this.isShowing(interstitial))) {
+        console.log(`✓ "${interstitial.name}" cleared after ${attempt} reload(s)`);
+        return;
+      }
+    }
+
+    throw new BotDetectedError(interstitial.name, this.page.url());
+  }
 }
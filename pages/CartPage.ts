@@ -1,8 +1,24 @@
-import { Page, Locator } from '@playwright/test';
+import { Page, Locator, Response } from '@playwright/test';
 import { BasePage } from './BasePage';
 import { PriceParser } from '../utils/PriceParser';
+import { config } from '../config/env.config';
+import { ListingParser } from '../utils/ListingParser';
+import { CartReconciler } from '../utils/CartReconciler';
+import { CartDataParser } from '../utils/CartDataParser';
+import { SummaryParser } from '../utils/SummaryParser';
+import { BotDetectedError, CartDataMismatchError } from '../utils/Errors';
+import { step, AllureReporter } from '../utils/AllureReporter';
+import { measure } from '../utils/PerformanceMonitor';
+import { CartSummary, BudgetMode } from '../models/CartSummary';
+import { AddedItem, CartLineItem, CartReconciliation } from '../models/CartLineItem';
+import { CartData } from '../models/CartData';
+import { VariantSelection } from '../models/SkuDimension';
+import { SelectorKey } from '../config/selectors';
 import { expect } from '@playwright/test';
 
+// Lists a cart row can be in
+type CartRowsKey = 'cart.lineItems' | 'cart.savedItems';
+
 /**
  * CartPage - Handles cart operations and assertions
  */
@@ -12,96 +28,218 @@ export class CartPage extends BasePage {
   
   // Cart Summary Elements
   readonly subtotalElement: Locator;
-  readonly totalElement: Locator;
   readonly itemsCountElement: Locator;
-  
-  // Selector strings for multiple fallback options
-  private readonly removeButtonsSelector: string = '[data-test-id="cart-remove-item"], .remove-button, button:has-text("Remove"), a:has-text("Remove")';
-  
-  private readonly totalSelectors: string[] = [
-    '[data-test-id="SUBTOTAL"] .text-display-24',
-    '.cart-summary-amount',
-    '.total-row .text-display-24',
-    '.subtotal .text-display',
-    'span:has-text("Subtotal") + span',
-  ];
-  
-  private readonly itemPriceSelector: string = '.item-price, .itemValue';
-  
-  private readonly countSelectors: string[] = [
-    '//*[@class="cart-summary-line-item"]//span[contains(text(), "Items")]',
-    '#gh-cart-n',
-    'span:has-text("item") i',
-  ];
-  
-  private readonly itemRowsSelector: string = '.cart-item, [data-test-id*="item"]';
 
   constructor(page: Page) {
     super(page);
-    this.cartIcon = page.locator('.gh-cart').first();
-    this.subtotalElement = page.locator('[data-test-id="SUBTOTAL"] .text-display-24, .cart-summary-amount').first();
-    this.totalElement = page.locator('.cart-bucket-summary .text-display-24, [data-test-id="SUBTOTAL"]').first();
-    this.itemsCountElement = page.locator('.cart-header-quantity, #gh-cart-n').first();
+    this.cartIcon = this.locate('cart.cartIcon').first();
+    this.subtotalElement = this.locate('cart.total').first();
+    this.itemsCountElement = this.locate('cart.itemsCount').first();
   }
 
   /**
    * Open shopping cart
    */
+  @step('Open cart')
+  @measure('openCart')
   async openCart(): Promise<void> {
     console.log('Opening shopping cart...');
     
     try {
       // First try: Click cart icon (preserves session)
-      await this.cartIcon.click({ timeout: 5000 });
+      await this.click((await this.find('cart.cartIcon')).first(), { timeout: 5000 });
       await this.waitForPageLoad();
       console.log('Cart opened via icon click');
     } catch (error) {
+      if (error instanceof BotDetectedError) throw error;
       // Fallback: Navigate directly to cart URL
       console.log('Cart icon not found, navigating directly...');
-      await this.goto('https://cart.ebay.com/');
+      await this.goto(config.cartURL);
       await this.waitForPageLoad();
       console.log('Cart opened via direct navigation');
     }
     
-    await this.page.waitForTimeout(2000);
+    await this.waitForSettled();
+  }
+
+  /**
+   * Run an action (usually opening the cart) and capture the cart service responses it triggers
+   * @param action - Navigation that loads the cart
+   * @returns The last response that parsed as cart data, or null when none did
+   */
+  async captureCartData(action: () => Promise<void>): Promise<CartData | null> {
+    const parsed: Promise<CartData | null>[] = [];
+    const listener = (response: Response) => {
+      if (CartDataParser.isCartService(response.url(), response.headers()['content-type'] ?? '')) {
+        parsed.push(response.json().then(body => CartDataParser.parse(body, response.url())).catch(() => null));
+      }
+    };
+
+    this.page.on('response', listener);
+    try {
+      await action();
+      // Cart data requests may still be in flight after the load event
+      await this.page.waitForLoadState('networkidle', { timeout: config.timeout.element }).catch(() => {});
+    } finally {
+      this.page.off('response', listener);
+    }
+
+    const responses = (await Promise.all(parsed)).filter((data): data is CartData => data !== null);
+    console.log(`Captured ${responses.length} cart data response(s)`);
+    return responses[responses.length - 1] ?? null;
   }
 
   /**
-   * Clear all items from cart
+   * Compare cart service data with the rendered rows and summary
+   * @param data - Result of captureCartData
+   * @throws CartDataMismatchError listing every value the data and the page disagree on
    */
+  @step('Cross-check cart data with the page')
+  async crossCheckCartData(data: CartData): Promise<void> {
+    const mismatches = CartDataParser.compare(data, await this.getLineItems(), await this.getCartSummary());
+    await AllureReporter.attachJson('Cart data', { ...data, mismatches });
+    console.log(CartDataParser.format(mismatches));
+
+    if (mismatches.length > 0) {
+      throw new CartDataMismatchError(data.url, mismatches);
+    }
+    console.log(`✓ Cart data matches the page (${data.lineItems.length} lines)`);
+  }
+
+  /**
+   * Remove every item from the cart and verify it ended up empty
+   */
+  @step('Clear cart')
   async clearCart(): Promise<void> {
     console.log('Clearing cart...');
-    
-    try {
-      await this.openCart();
-      await this.page.waitForTimeout(2000);
+    await this.openCart();
 
-      // Find and click remove buttons for all items
-      const removeButtons = this.page.locator(this.removeButtonsSelector);
-      const count = await removeButtons.count();
+    const lineItems = await this.getLineItems();
+    if (lineItems.length === 0) {
+      console.log('Cart is already empty');
+      return;
+    }
 
-      if (count === 0) {
-        console.log('Cart is already empty');
-        return;
+    for (const line of lineItems) {
+      if (line.itemId) {
+        await this.removeItem(line.itemId);
       }
+    }
 
-      // Remove items one by one
-      for (let i = 0; i < count; i++) {
-        try {
-          // Always click the first item since the list updates after removal
-          await removeButtons.first().click({ timeout: 5000 });
-          await this.page.waitForTimeout(1000);
-        } catch (error) {
-          console.log(`Could not remove item ${i + 1}`);
-        }
-      }
+    const remaining = await this.getLineItems();
+    if (remaining.length > 0) {
+      throw new Error(`❌ Cart is not empty after clearing: ${remaining.length} item(s) left`);
+    }
+    console.log(`Removed ${lineItems.length} items from cart`);
+  }
 
-      console.log(`Removed ${count} items from cart`);
-      await this.page.waitForTimeout(1000);
-      
-    } catch (error) {
-      console.log('Could not clear cart:', error);
+  /**
+   * Change the quantity of a cart line
+   * @param itemId - eBay item ID
+   * @param quantity - New quantity
+   * @returns Cart totals after the cart re-rendered
+   */
+  @step('Set quantity of {itemId} to {quantity}')
+  async updateQuantity(itemId: string, quantity: number): Promise<CartSummary> {
+    console.log(`Setting quantity of ${itemId} to ${quantity}...`);
+    const row = await this.findRow('cart.lineItems', itemId);
+    const findLine = (lines: CartLineItem[]) => lines.find(line => line.itemId === itemId);
+    const unitPrice = findLine(await this.getLineItems())?.unitPrice ?? 0;
+
+    const dropdown = (await this.find('cart.quantityDropdown', { scope: row })).first();
+    if (!(await dropdown.count())) {
+      throw new Error(`❌ Item ${itemId} has no quantity dropdown`);
+    }
+    await dropdown.selectOption(String(quantity));
+
+    // The dropdown changes immediately; the line total only after the cart re-rendered
+    await expect
+      .poll(
+        () => this.getLineItems().then(lines => findLine(lines)?.lineTotal).catch(() => undefined),
+        { timeout: config.timeout.element }
+      )
+      .toBeCloseTo(unitPrice * quantity, 2);
+
+    return this.getCartSummary();
+  }
+
+  /**
+   * Remove one item from the cart
+   * @param itemId - eBay item ID (the first line is removed if the item has several)
+   * @returns Cart totals after the cart re-rendered
+   */
+  @step('Remove {itemId} from cart')
+  async removeItem(itemId: string): Promise<CartSummary> {
+    console.log(`Removing ${itemId} from cart...`);
+    return this.clickRowAction('cart.lineItems', itemId, 'cart.removeButton');
+  }
+
+  /**
+   * Move one item from the cart to "Saved for later"
+   * @param itemId - eBay item ID
+   * @returns Cart totals after the cart re-rendered
+   */
+  @step('Save {itemId} for later')
+  async saveForLater(itemId: string): Promise<CartSummary> {
+    console.log(`Saving ${itemId} for later...`);
+    return this.clickRowAction('cart.lineItems', itemId, 'cart.saveForLaterButton');
+  }
+
+  /**
+   * Move one item from "Saved for later" back to the cart
+   * @param itemId - eBay item ID
+   * @returns Cart totals after the cart re-rendered
+   */
+  @step('Move {itemId} back to cart')
+  async moveToCart(itemId: string): Promise<CartSummary> {
+    console.log(`Moving ${itemId} back to cart...`);
+    return this.clickRowAction('cart.savedItems', itemId, 'cart.moveToCartButton');
+  }
+
+  /**
+   * Get item IDs in the "Saved for later" list
+   */
+  async getSavedItemIds(): Promise<string[]> {
+    const ids: string[] = [];
+    for (const row of await (await this.find('cart.savedItems')).all()) {
+      const href = await (await this.find('cart.lineTitle', { scope: row })).first().getAttribute('href');
+      const itemId = (await row.getAttribute('data-listing-id')) ?? (href ? ListingParser.extractItemId(href) : null);
+      if (itemId) ids.push(itemId);
     }
+    return ids;
+  }
+
+  /**
+   * Rows of a list (cart or saved) that belong to an item
+   */
+  private async rowsFor(rowsKey: CartRowsKey, itemId: string): Promise<Locator> {
+    return (await this.find(rowsKey)).filter({ has: this.page.locator(`a[href*="/itm/"][href*="${itemId}"]`) });
+  }
+
+  /**
+   * First row of an item, failing if the item is not listed
+   */
+  private async findRow(rowsKey: CartRowsKey, itemId: string): Promise<Locator> {
+    const row = (await this.rowsFor(rowsKey, itemId)).first();
+    if (!(await row.count())) {
+      throw new Error(`❌ Item ${itemId} is not in the list (${rowsKey})`);
+    }
+    return row;
+  }
+
+  /**
+   * Click a per-line action and wait until the row leaves its list
+   */
+  private async clickRowAction(rowsKey: CartRowsKey, itemId: string, buttonKey: SelectorKey): Promise<CartSummary> {
+    const rows = await this.rowsFor(rowsKey, itemId);
+    const before = await rows.count();
+    const row = await this.findRow(rowsKey, itemId);
+
+    await this.click((await this.find(buttonKey, { scope: row })).first(), { timeout: config.timeout.element });
+    await expect(rows).toHaveCount(before - 1, { timeout: config.timeout.element });
+    await this.page.waitForLoadState('domcontentloaded');
+
+    return this.getCartSummary();
   }
 
   /**
@@ -111,25 +249,15 @@ export class CartPage extends BasePage {
   async getTotalAmount(): Promise<number> {
     try {
       // Wait for cart to load
-      await this.page.waitForTimeout(2000);
-
-      // Try multiple selectors for total/subtotal
-      for (const selector of this.totalSelectors) {
-        try {
-          const element = this.page.locator(selector).first();
-          if (await element.isVisible({ timeout: 3000 })) {
-            const totalText = await element.textContent();
-            if (totalText) {
-              const total = PriceParser.parse(totalText);
-              if (total > 0) {
-                console.log(`Found cart total: $${total}`);
-                return total;
-              }
-            }
-          }
-        } catch {
-          continue;
-        }
+      await this.waitForSettled();
+
+      // First total/subtotal candidate that shows a price
+      const parseTotal = async (element: Locator) => PriceParser.parse((await element.first().textContent()) ?? '');
+      const totalElement = await this.find('cart.total', { visible: true, accept: async element => await parseTotal(element) > 0 });
+      const total = await totalElement.first().isVisible() ? await parseTotal(totalElement) : 0;
+      if (total > 0) {
+        console.log(`Found cart total: ${PriceParser.format(total)}`);
+        return total;
       }
 
       // If no total found, try to sum individual items
@@ -147,7 +275,8 @@ export class CartPage extends BasePage {
    */
   private async calculateTotalFromItems(): Promise<number> {
     try {
-      const itemPrices = await this.page.locator(this.itemPriceSelector).allTextContents();
+      const rows = await this.find('cart.lineItems');
+      const itemPrices = await (await this.find('cart.linePrice', { scope: rows })).allTextContents();
       let total = 0;
 
       for (const priceText of itemPrices) {
@@ -155,7 +284,7 @@ export class CartPage extends BasePage {
         total += price;
       }
 
-      console.log(`Calculated total from items: $${total}`);
+      console.log(`Calculated total from items: ${PriceParser.format(total)}`);
       return total;
     } catch {
       return 0;
@@ -168,27 +297,17 @@ export class CartPage extends BasePage {
    */
   async getItemsCount(): Promise<number> {
     try {
-      // Multiple ways to get item count
-      for (const selector of this.countSelectors) {
-        try {
-          const element = this.page.locator(selector).first();
-          if (await element.isVisible({ timeout: 2000 })) {
-            const countText = await element.textContent();
-            if (countText) {
-              const count = parseInt(countText.replace(/\D/g, ''));
-              if (!isNaN(count)) {
-                console.log(`Cart contains ${count} items`);
-                return count;
-              }
-            }
-          }
-        } catch {
-          continue;
-        }
+      // First count candidate that shows a number
+      const parseCount = async (element: Locator) => parseInt(((await element.first().textContent()) ?? '').replace(/\D/g, ''));
+      const countElement = await this.find('cart.itemsCount', { visible: true, accept: async element => !isNaN(await parseCount(element)) });
+      const count = await countElement.first().isVisible() ? await parseCount(countElement) : NaN;
+      if (!isNaN(count)) {
+        console.log(`Cart contains ${count} items`);
+        return count;
       }
 
       // Fallback: count item rows
-      const itemRows = await this.page.locator(this.itemRowsSelector).count();
+      const itemRows = await (await this.find('cart.lineItems')).count();
       console.log(`Cart contains ${itemRows} items (counted)`);
       return itemRows;
 
@@ -199,70 +318,193 @@ export class CartPage extends BasePage {
   }
 
   /**
-   * Assert that cart total does not exceed budget
+   * Read every cart row
+   * @returns Item ID, title, variants, quantity, prices and availability warnings per row
+   */
+  async getLineItems(): Promise<CartLineItem[]> {
+    const lineItems: CartLineItem[] = [];
+
+    for (const row of await (await this.find('cart.lineItems')).all()) {
+      const titleLink = (await this.find('cart.lineTitle', { scope: row })).first();
+      const href = await titleLink.getAttribute('href');
+      const itemId = (await row.getAttribute('data-listing-id')) ?? (href ? ListingParser.extractItemId(href) : null);
+      const title = ListingParser.cleanTitle((await titleLink.textContent()) ?? '');
+
+      // Quantity is plain text ("Qty 2") or a dropdown depending on the cart layout
+      let quantity = 1;
+      const quantityElement = this.locate('cart.lineQuantity', row).first();
+      if (await quantityElement.count()) {
+        const quantityText = await quantityElement.evaluate(element =>
+          element instanceof HTMLSelectElement ? element.value : element.textContent ?? ''
+        );
+        quantity = parseInt(quantityText.replace(/\D/g, ''), 10) || 1;
+      }
+
+      const lineTotal = PriceParser.parse((await (await this.find('cart.linePrice', { scope: row })).first().textContent()) ?? '');
+      const warnings = (await this.locate('cart.lineWarnings', row).allTextContents())
+        .map(text => text.replace(/\s+/g, ' ').trim())
+        .filter(Boolean);
+
+      lineItems.push({
+        itemId,
+        title,
+        variants: await this.readLineVariants(row),
+        quantity,
+        unitPrice: Math.round((lineTotal / quantity) * 100) / 100,
+        lineTotal,
+        warnings,
+      });
+    }
+
+    return lineItems;
+  }
+
+  /**
+   * Compare the cart rows with the items that were added
+   * @param addedItems - Items returned by ProductPage.addItemsToCart
+   * @returns Matched, missing, extra, price-changed and variant-mismatched items
+   */
+  @step('Reconcile cart with added items')
+  async reconcile(addedItems: AddedItem[]): Promise<CartReconciliation> {
+    const lineItems = await this.getLineItems();
+    console.log(`Cart rows: ${lineItems.length}`);
+    for (const line of lineItems.filter(line => line.warnings.length > 0)) {
+      console.log(`⚠️  ${line.itemId}: ${line.warnings.join('; ')}`);
+    }
+
+    const reconciliation = CartReconciler.reconcile(addedItems, lineItems);
+    console.log(CartReconciler.format(reconciliation));
+    await AllureReporter.attachJson('Cart reconciliation', reconciliation);
+    return reconciliation;
+  }
+
+  /**
+   * Parse "Size: 9" / "Color: Black" entries of a cart row
+   */
+  private async readLineVariants(row: Locator): Promise<VariantSelection> {
+    const container = this.locate('cart.lineVariants', row).first();
+    if (!(await container.count())) {
+      return {};
+    }
+
+    let entries = await container.locator(':scope > *').allTextContents();
+    if (entries.length === 0) {
+      entries = ((await container.textContent()) ?? '').split(/[,;\n]/);
+    }
+
+    const variants: VariantSelection = {};
+    for (const entry of entries) {
+      const match = entry.match(/^\s*([^:]+?)\s*:\s*(.+?)\s*$/);
+      if (match) {
+        variants[match[1]] = match[2];
+      }
+    }
+    return variants;
+  }
+
+  /**
+   * Read the cart summary components separately
+   * Rows are classified by their label, so the order on the page does not matter
+   * @returns Item subtotal, shipping, estimated tax and order total
+   */
+  @step('Read cart summary')
+  async getCartSummary(): Promise<CartSummary> {
+    await this.waitForSettled();
+
+    const rows = SummaryParser.parseRows(await this.readRowCells(this.locate('cart.summaryRows')));
+    const { shipping, tax } = rows;
+
+    // Fallbacks when the summary box is missing or partial
+    const itemSubtotal = rows.itemSubtotal ?? await this.calculateTotalFromItems();
+    const orderTotal = rows.orderTotal ?? (rows.subtotal ?? itemSubtotal + shipping) + (tax ?? 0);
+
+    return { itemSubtotal, shipping, tax, orderTotal };
+  }
+
+  /**
+   * Assert that the cart holds exactly the added items and its total does not exceed budget
    * @param budgetPerItem - Budget per item
-   * @param itemsCount - Number of items expected (URLs found and attempted to add)
+   * @param addedItems - Items returned by ProductPage.addItemsToCart
+   * @param mode - Which cart amount counts toward the budget (default: item subtotal)
+   * @returns Reconciliation of the added items with the cart rows
    */
-  async assertCartTotalNotExceeds(budgetPerItem: number, itemsCount: number): Promise<void> {
+  @step('Assert cart total within {budgetPerItem} per item')
+  async assertCartTotalNotExceeds(
+    budgetPerItem: number,
+    addedItems: AddedItem[],
+    mode: BudgetMode = 'subtotal'
+  ): Promise<CartReconciliation> {
     console.log('\n--- Validating Cart Total ---');
 
-    // Open cart
-    await this.openCart();
+    const itemsCount = addedItems.length;
+    const expectedSubtotal = addedItems.reduce((sum, item) => sum + item.addedPrice * item.quantity, 0);
+    console.log(`Expected subtotal from item pages: ${PriceParser.format(expectedSubtotal)}`);
+
+    // Open cart, keeping the cart service data it loads
+    const cartData = await this.captureCartData(() => this.openCart());
 
-    // Get total amount
-    const totalAmount = await this.getTotalAmount();
-    console.log(`Cart total: $${totalAmount}`);
+    // Get itemized summary and the amount for this budget mode
+    const summary = await this.getCartSummary();
+    const totalAmount = SummaryParser.budgetedAmount(summary, mode);
+    this.logCartSummary(summary, mode, totalAmount);
+    await AllureReporter.attachJson('Cart breakdown', { ...summary, budgetMode: mode, budgetedAmount: totalAmount });
 
-    // Get items count
-    const cartItemsCount = await this.getItemsCount();
-    console.log(`Items in cart: ${cartItemsCount}`);
+    // Compare cart rows with what was added
+    const reconciliation = await this.reconcile(addedItems);
+
+    // A page that renders other numbers than its data fails on its own, before any budget check
+    if (cartData) {
+      await this.crossCheckCartData(cartData);
+    } else {
+      console.log('⚠️  No cart data response captured - totals checked against the page only');
+    }
 
     // Calculate threshold
     const threshold = budgetPerItem * itemsCount;
-    console.log(`Budget threshold: $${budgetPerItem} × ${itemsCount} = $${threshold}`);
+    console.log(`Budget threshold: ${PriceParser.format(budgetPerItem)} × ${itemsCount} = ${PriceParser.format(threshold)}`);
 
     // Take screenshot before assertion
     await this.takeScreenshot('cart_final');
 
-    // Validation logic based on expected items count
     if (itemsCount === 0) {
-      // If no URLs were found, empty cart is expected
-      console.log('✓ No items were found in search - empty cart is valid');
-      expect(cartItemsCount).toBe(0);
+      // If no items were added, empty cart is expected
+      console.log('✓ No items were added - empty cart is valid');
+      expect(reconciliation.extra).toHaveLength(0);
       expect(totalAmount).toBe(0);
-      return;
-    }
-
-    // If items were expected, cart should not be empty
-    if (cartItemsCount === 0) {
-      throw new Error(`❌ Cart is empty! Expected ${itemsCount} items but found 0`);
+      return reconciliation;
     }
 
     // Check if total is 0 when items are in cart (suspicious)
-    if (totalAmount === 0 && cartItemsCount > 0) {
-      throw new Error(`❌ Cart total is $0 but contains ${cartItemsCount} items - suspicious!`);
+    if (totalAmount === 0 && reconciliation.matched.length > 0) {
+      throw new Error(`❌ Cart total is $0 but contains ${reconciliation.matched.length} items - suspicious!`);
     }
 
-    // Check if cart item count matches expected (strict validation)
-    if (cartItemsCount !== itemsCount) {
-      const message = `⚠️  Cart item mismatch: Expected ${itemsCount} items but found ${cartItemsCount}`;
-      console.log(message);
-      
-      // Calculate acceptable tolerance (allow 1 item difference for small counts)
-      const tolerance = itemsCount <= 2 ? 0 : 1;
-      const difference = Math.abs(cartItemsCount - itemsCount);
-      
-      if (difference > tolerance) {
-        throw new Error(`❌ ${message} - Difference of ${difference} items exceeds tolerance!`);
-      }
+    // Price changes are reported only - the budget is checked on the cart's own totals
+    if (reconciliation.priceChanged.length > 0) {
+      console.log(`⚠️  ${reconciliation.priceChanged.length} item(s) changed price since they were added`);
     }
 
+    expect(
+      CartReconciler.isConsistent(reconciliation),
+      `Cart does not match added items:\n${CartReconciler.format(reconciliation)}`
+    ).toBe(true);
+    console.log(`✓ Cart contains exactly the ${itemsCount} added items`);
+
     // Assert price threshold
-    expect(totalAmount).toBeLessThanOrEqual(threshold);
-    console.log(`✓ Assertion passed: $${totalAmount} <= $${threshold}`);
-    
-    if (cartItemsCount === itemsCount) {
-      console.log(`✓ Cart contains exactly ${itemsCount} items as expected`);
-    }
+    expect(totalAmount, `Cart ${mode} exceeds budget`).toBeLessThanOrEqual(threshold);
+    console.log(`✓ Assertion passed: ${PriceParser.format(totalAmount)} <= ${PriceParser.format(threshold)}`);
+
+    return reconciliation;
+  }
+
+  /**
+   * Print each summary component and the budgeted amount
+   */
+  private logCartSummary(summary: CartSummary, mode: BudgetMode, budgetedAmount: number): void {
+    console.log(`Items subtotal:  ${PriceParser.format(summary.itemSubtotal)}`);
+    console.log(`Shipping:        ${summary.shipping === 0 ? 'Free' : PriceParser.format(summary.shipping)}`);
+    console.log(`Estimated tax:   ${summary.tax === null ? 'not shown' : PriceParser.format(summary.tax)}`);
+    console.log(`Order total:     ${PriceParser.format(summary.orderTotal)}`);
+    console.log(`Budgeted amount (${mode}): ${PriceParser.format(budgetedAmount)}`);
   }
 }
@@ -0,0 +1,180 @@
+import { Page, Locator } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { PriceParser } from '../utils/PriceParser';
+import { SummaryParser } from '../utils/SummaryParser';
+import { AddressValidationError } from '../utils/Errors';
+import { step, AllureReporter } from '../utils/AllureReporter';
+import { config } from '../config/env.config';
+import { SelectorKey } from '../config/selectors';
+import { CartSummary } from '../models/CartSummary';
+import { ShippingAddress } from '../models/ShippingAddress';
+
+/**
+ * CheckoutPage - Guest checkout from the cart up to the order review step
+ * Never clicks "Confirm and pay"
+ */
+export class CheckoutPage extends BasePage {
+  // Entry points
+  readonly goToCheckoutButton: Locator;
+  readonly guestCheckoutButton: Locator;
+
+  // Ship to
+  readonly addressSubmitButton: Locator;
+  readonly fieldErrors: Locator;
+
+  // Delivery
+  readonly deliveryOptions: Locator;
+  readonly deliveryContinueButton: Locator;
+
+  // Review
+  readonly confirmAndPayButton: Locator;
+
+  // Address form field per ShippingAddress property
+  private readonly addressFields: Record<keyof ShippingAddress, SelectorKey> = {
+    firstName: 'checkout.addressFirstName',
+    lastName: 'checkout.addressLastName',
+    street: 'checkout.addressStreet',
+    city: 'checkout.addressCity',
+    state: 'checkout.addressState',
+    postalCode: 'checkout.addressPostalCode',
+    email: 'checkout.addressEmail',
+    phone: 'checkout.addressPhone',
+  };
+
+  constructor(page: Page) {
+    super(page);
+    this.goToCheckoutButton = this.locate('checkout.goToCheckout').first();
+    this.guestCheckoutButton = this.locate('checkout.guestCheckout').first();
+    this.addressSubmitButton = this.locate('checkout.addressSubmit').first();
+    this.fieldErrors = this.locate('checkout.fieldErrors');
+    this.deliveryOptions = this.locate('checkout.deliveryOptions');
+    this.deliveryContinueButton = this.locate('checkout.deliveryContinue').first();
+    this.confirmAndPayButton = this.locate('checkout.confirmAndPay').first();
+  }
+
+  /**
+   * Leave the cart via "Go to checkout" and continue as guest when asked
+   * Signed-in sessions go straight to the address step
+   */
+  @step('Start guest checkout')
+  async startGuestCheckout(): Promise<void> {
+    console.log('Starting checkout...');
+    const goToCheckoutButton = await this.find('checkout.goToCheckout', { timeout: config.timeout.element, visible: true });
+    await this.click(goToCheckoutButton.first(), { timeout: config.timeout.element });
+    await this.page.waitForLoadState('domcontentloaded');
+
+    if (await this.guestCheckoutButton.isVisible({ timeout: 3000 }).catch(() => false)) {
+      await this.click(this.guestCheckoutButton);
+      await this.page.waitForLoadState('domcontentloaded');
+      console.log('Continuing as guest');
+    } else {
+      console.log('No guest prompt - continuing with current session');
+    }
+  }
+
+  /**
+   * Fill and submit the "Ship to" form
+   * @param address - Shipping address
+   * @throws AddressValidationError if the form shows field errors after submitting
+   */
+  @step('Fill shipping address')
+  async fillShippingAddress(address: ShippingAddress): Promise<void> {
+    console.log(`Entering shipping address for ${address.firstName} ${address.lastName}...`);
+    await this.find(this.addressFields.firstName, { timeout: config.timeout.element, visible: true });
+
+    for (const [field, key] of Object.entries(this.addressFields) as [keyof ShippingAddress, SelectorKey][]) {
+      const input = (await this.find(key)).first();
+      const isSelect = await input.evaluate(element => element.tagName === 'SELECT');
+      if (isSelect) {
+        await input.selectOption(address[field]);
+      } else {
+        await input.fill(address[field]);
+      }
+    }
+
+    await this.click((await this.find('checkout.addressSubmit')).first());
+    await this.page.waitForLoadState('domcontentloaded');
+
+    const errors = (await this.fieldErrors.allTextContents()).map(text => text.trim()).filter(Boolean);
+    if (errors.length > 0) {
+      throw new AddressValidationError(errors);
+    }
+  }
+
+  /**
+   * Choose a delivery option and continue to the review step
+   * @param label - Part of the option label (e.g. "Expedited"); keeps the preselected option when omitted
+   * @returns Label of the chosen option
+   */
+  @step('Select delivery option')
+  async selectDeliveryOption(label?: string): Promise<string> {
+    await this.deliveryOptions.first().waitFor({ state: 'attached', timeout: config.timeout.element });
+
+    const options = this.locate('checkout.deliveryOptionLabel').filter({ has: this.deliveryOptions });
+    const option = label
+      ? options.filter({ hasText: label }).first()
+      : options.filter({ has: this.locate('checkout.deliveryOptionChecked') }).first();
+    if (!(await option.count())) {
+      throw new Error(`❌ Delivery option "${label}" not found`);
+    }
+
+    await option.locator('input').check();
+    const chosen = ((await option.textContent()) ?? '').replace(/\s+/g, ' ').trim();
+    console.log(`Delivery option: ${chosen}`);
+
+    await this.click((await this.find('checkout.deliveryContinue')).first());
+    await this.page.waitForLoadState('domcontentloaded');
+    return chosen;
+  }
+
+  /**
+   * Check whether the review step is shown (the "Confirm and pay" button is present)
+   */
+  async isOnReviewStep(): Promise<boolean> {
+    return this.confirmAndPayButton.isVisible({ timeout: config.timeout.element }).catch(() => false);
+  }
+
+  /**
+   * Read the order summary on the review step
+   * @returns Items, shipping, tax and order total
+   */
+  @step('Read order summary')
+  async getOrderSummary(): Promise<CartSummary> {
+    const summaryRows = await this.find('checkout.summaryRows', { timeout: config.timeout.element, visible: true });
+    await summaryRows.first().waitFor({ state: 'visible', timeout: config.timeout.element });
+
+    const rows = SummaryParser.parseRows(await this.readRowCells(summaryRows));
+    const itemSubtotal = rows.itemSubtotal ?? 0;
+    const orderTotal = rows.orderTotal ?? (rows.subtotal ?? itemSubtotal + rows.shipping) + (rows.tax ?? 0);
+    const summary = { itemSubtotal, shipping: rows.shipping, tax: rows.tax, orderTotal };
+
+    console.log(`Order items:     ${PriceParser.format(summary.itemSubtotal)}`);
+    console.log(`Order shipping:  ${summary.shipping === 0 ? 'Free' : PriceParser.format(summary.shipping)}`);
+    console.log(`Order tax:       ${summary.tax === null ? 'not shown' : PriceParser.format(summary.tax)}`);
+    console.log(`Order total:     ${PriceParser.format(summary.orderTotal)}`);
+    await AllureReporter.attachJson('Order summary', summary);
+    return summary;
+  }
+
+  /**
+   * Go from the cart to the review step as a guest
+   * @param address - Shipping address
+   * @param deliveryOption - Part of the delivery option label (default: preselected option)
+   * @returns Order summary of the review step
+   */
+  @step('Check out as guest up to order review')
+  async checkoutAsGuestToReview(address: ShippingAddress, deliveryOption?: string): Promise<CartSummary> {
+    await this.startGuestCheckout();
+    await this.fillShippingAddress(address);
+    await this.selectDeliveryOption(deliveryOption);
+
+    if (!(await this.isOnReviewStep())) {
+      await this.takeScreenshot('checkout_review_missing');
+      throw new Error('❌ Checkout did not reach the order review step');
+    }
+
+    await this.takeScreenshot('checkout_review');
+    console.log('✓ Reached order review - stopping before purchase');
+    return this.getOrderSummary();
+  }
+}
@@ -1,41 +1,152 @@
 import { Page, Locator } from '@playwright/test';
 import { BasePage } from './BasePage';
+import { config } from '../config/env.config';
+import { InvalidCredentialsError, TwoFactorRequiredError } from '../utils/Errors';
+import { step } from '../utils/AllureReporter';
 
 /**
  * LoginPage - Handles authentication
- * Currently supports Guest mode, prepared for future login implementation
+ * Supports Guest mode and the multi-step eBay sign-in (user ID → password → 2FA → stay signed in)
  */
 export class LoginPage extends BasePage {
+  // Sign-in Steps
   readonly usernameInput: Locator;
+  readonly continueButton: Locator;
   readonly passwordInput: Locator;
   readonly loginButton: Locator;
+  readonly errorMessage: Locator;
+
+  // Interstitials after password
+  readonly otpInput: Locator;
+  readonly otpSubmitButton: Locator;
+  readonly staySignedInButton: Locator;
+
+  // Header account menu link, only present when signed in
+  readonly signOutLink: Locator;
 
   constructor(page: Page) {
     super(page);
-    // eBay login selectors (for future use)
-    this.usernameInput = page.locator('#userid');
-    this.passwordInput = page.locator('#pass');
-    this.loginButton = page.locator('#sgnBt');
+    this.usernameInput = this.locate('login.usernameInput');
+    this.continueButton = this.locate('login.continueButton');
+    this.passwordInput = this.locate('login.passwordInput');
+    this.loginButton = this.locate('login.signInButton');
+    this.errorMessage = this.locate('login.errorMessage');
+    this.otpInput = this.locate('login.otpInput');
+    this.otpSubmitButton = this.locate('login.otpSubmitButton');
+    this.staySignedInButton = this.locate('login.staySignedInButton');
+    this.signOutLink = this.locate('login.signOutLink');
   }
 
   /**
    * Login function - Authentication
+   * Reuses the stored session (storageState) when it is still signed in.
+   * With an explicit CART_SESSION=guest every test stays a guest, so parallel tests never share the account's cart
    * @param username - Optional username
    * @param password - Optional password
    */
+  @step('Log in')
   async login(username?: string, password?: string): Promise<void> {
+    await this.goto(config.baseURL);
+    await this.waitForPageLoad();
+
     if (!username || !password) {
       console.log('No credentials provided - Proceeding as Guest.');
-      await this.goto('https://www.ebay.com');
-      await this.waitForPageLoad();
       return;
     }
 
-    // Future: Implement actual login when credentials are available
-    // await this.goto('https://signin.ebay.com');
-    // await this.usernameInput.fill(username);
-    // await this.passwordInput.fill(password);
-    // await this.loginButton.click();
-    // await this.waitForPageLoad();
+    if (config.parallel.cartSession === 'guest') {
+      console.log(`CART_SESSION=guest is set - not signing in as ${username}, proceeding as Guest.`);
+      return;
+    }
+
+    if (await this.isSignedIn()) {
+      console.log(`Reusing stored session for ${username}`);
+      return;
+    }
+
+    await this.signIn(username, password);
+  }
+
+  /**
+   * Run the full sign-in flow
+   * @param username - eBay user ID or email
+   * @param password - eBay password
+   */
+  @step('Sign in as {username}')
+  async signIn(username: string, password: string): Promise<void> {
+    console.log(`Signing in as ${username}...`);
+    await this.goto(config.signinURL);
+
+    // Step 1: User ID
+    await (await this.find('login.usernameInput', { timeout: config.timeout.element })).fill(username);
+    await this.click(await this.find('login.continueButton'));
+    await this.passwordInput.or(this.errorMessage).first().waitFor({ state: 'visible', timeout: config.timeout.element });
+    await this.throwIfSignInError(username);
+
+    // Step 2: Password
+    await (await this.find('login.passwordInput')).fill(password);
+    await this.click(await this.find('login.signInButton'));
+    await this.waitForPageLoad();
+    await this.throwIfSignInError(username);
+
+    // Step 3: Optional 2FA challenge
+    if (await this.otpInput.isVisible()) {
+      await this.completeTwoFactorChallenge(username);
+    }
+
+    // Step 4: Optional "Stay signed in" prompt
+    if (await this.staySignedInButton.isVisible()) {
+      await this.click(this.staySignedInButton);
+      await this.waitForPageLoad();
+      console.log('Accepted "Stay signed in"');
+    }
+
+    if (!(await this.isSignedIn())) {
+      throw new InvalidCredentialsError(username, 'sign-in did not complete');
+    }
+    console.log(`✓ Signed in as ${username}`);
+  }
+
+  /**
+   * Check if the header account menu offers to sign out (the greeting text differs per marketplace)
+   */
+  async isSignedIn(): Promise<boolean> {
+    try {
+      await this.signOutLink.first().waitFor({ state: 'attached', timeout: 3000 });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Save the current session so later tests can reuse it
+   * @param path - storageState file path
+   */
+  async saveStorageState(path: string): Promise<void> {
+    await this.page.context().storageState({ path });
+    console.log(`Session saved: ${path}`);
+  }
+
+  /**
+   * Enter the 2FA code from EBAY_OTP_CODE
+   */
+  private async completeTwoFactorChallenge(username: string): Promise<void> {
+    if (!config.credentials.otpCode) {
+      throw new TwoFactorRequiredError(username);
+    }
+
+    await this.otpInput.fill(config.credentials.otpCode);
+    await this.click(this.otpSubmitButton);
+    await this.waitForPageLoad();
+    await this.throwIfSignInError(username);
+    console.log('2FA challenge completed');
+  }
+
+  private async throwIfSignInError(username: string): Promise<void> {
+    if (await this.errorMessage.first().isVisible()) {
+      const reason = (await this.errorMessage.first().textContent())?.trim() || 'unknown error';
+      throw new InvalidCredentialsError(username, reason);
+    }
   }
 }
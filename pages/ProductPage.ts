@@ -1,7 +1,16 @@
 import { Page, Locator } from '@playwright/test';
+import * as allure from 'allure-js-commons';
 import { BasePage } from './BasePage';
 import { RandomSelector } from '../utils/RandomSelector';
 import { PriceParser } from '../utils/PriceParser';
+import { SearchResult } from '../models/SearchResult';
+import { SkuControl, SkuDimension, SkuValue, VariantSelection } from '../models/SkuDimension';
+import { AddedItem } from '../models/CartLineItem';
+import { BotDetectedError, ItemSkippedError, VariantUnavailableError } from '../utils/Errors';
+import { config } from '../config/env.config';
+import { step } from '../utils/AllureReporter';
+import { measure } from '../utils/PerformanceMonitor';
+import { SelectorRegistry } from '../utils/SelectorRegistry';
 
 /**
  * ProductPage - Handles product variants selection and adding to cart
@@ -12,58 +21,22 @@ export class ProductPage extends BasePage {
   readonly quantitySelect: Locator;
   readonly priceElement: Locator;
 
-  // Size Variant Selectors
-  readonly sizeDropdownButton: Locator;
-  readonly sizeDropdownOptions: Locator;
+  // SKU (variant) Selectors - menus, swatches and legacy selects
+  readonly skuControls: Locator;
 
-  // Color Variant Selectors
-  readonly colorDropdownButton: Locator;
-  readonly colorDropdownOptions: Locator;
+  private readonly maxVariantAttempts = 3;
 
   constructor(page: Page) {
     super(page);
     
     // Cart and Product
-    this.addToCartButton = page.locator('//a[contains(@id,"atcBtn_btn")]');
-    this.quantitySelect = page.locator('select[id*="quantity" i], select[name*="quantity" i]');
-    this.priceElement = page.locator('.x-price-primary, [itemprop="price"], .vi-price, .display-price');
+    this.addToCartButton = this.locate('product.addToCart');
+    this.quantitySelect = this.locate('product.quantity');
+    this.priceElement = this.locate('product.price');
     
-    // Size Variants
-    this.sizeDropdownButton = page.locator("//span[text()='size:']");
-    this.sizeDropdownOptions = page.locator("//span[text()='size:']/ancestor::div[contains(@class,'vim') and contains(@class,'x-sku')]//div[@role='option']");
-    
-    // Color Variants
-    this.colorDropdownButton = page.locator("//span[text()='color:']");
-    this.colorDropdownOptions = page.locator("//span[text()='color:']/ancestor::div[contains(@class,'vim') and contains(@class,'x-sku')]//div[@role='option']");
-  }
 
-  /**
-   * Check for CAPTCHA or bot detection
-   */
-  private async checkForCaptcha(): Promise<void> {
-    try {
-      // Check for common CAPTCHA indicators
-      const captchaSelectors = [
-        'iframe[title*="recaptcha"]',
-        'iframe[src*="captcha"]',
-        '[class*="captcha"]',
-        '#px-captcha',
-        '.g-recaptcha',
-        'text=Please verify you are a human',
-        'text=Security Verification',
-      ];
-
-      for (const selector of captchaSelectors) {
-        if (await this.page.locator(selector).first().isVisible({ timeout: 1000 })) {
-          throw new Error('❌ CAPTCHA/Bot detection encountered! Test cannot continue.');
-        }
-      }
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('CAPTCHA')) {
-        throw error;
-      }
-      // Timeout is OK - no captcha found
-    }
+    // SKU dimensions
+    this.skuControls = this.locate('product.skuControls');
   }
 
   /**
@@ -72,7 +45,8 @@ export class ProductPage extends BasePage {
    */
   async getProductPrice(): Promise<number> {
     try {
-      const priceText = await this.priceElement.first().textContent();
+      const priceElement = await this.find('product.price', { timeout: config.timeout.element });
+      const priceText = await priceElement.first().textContent();
       return priceText ? PriceParser.parse(priceText) : 0;
     } catch {
       console.log('Could not get product price');
@@ -81,143 +55,215 @@ export class ProductPage extends BasePage {
   }
 
   /**
-   * Select random variants (size, color, etc.) if available
-   * This is a critical function for handling dynamic product options
+   * Select random in-stock variants for every SKU dimension on the page
+   * Retries with a new combination if the chosen one disables Add to Cart
+   * @param required - Values that must be chosen for these dimensions (names and values match case-insensitively)
+   * @returns Chosen value per dimension (empty for listings without variants)
+   * @throws VariantUnavailableError if the listing lacks a required dimension or value
    */
-  async selectRandomVariants(): Promise<void> {
+  @step('Select variants')
+  async selectRandomVariants(required: VariantSelection = {}): Promise<VariantSelection> {
     console.log('Checking for product variants...');
 
-    // Check for CAPTCHA first
-    await this.checkForCaptcha();
-
-    // 1. Handle Size Selection (Dropdown)
-    await this.selectSizeVariant();
+    // Overlays can appear after the page settled
+    await this.handleInterstitials();
 
-    // 2. Handle Color Selection (Buttons or Dropdown)
-    await this.selectColorVariant();
+    let selection: VariantSelection = {};
+    for (let attempt = 1; attempt <= this.maxVariantAttempts; attempt++) {
+      selection = await this.selectVariantCombination(required);
+      if (await this.isAddToCartEnabled()) {
+        break;
+      }
 
-    // 3. Handle Other Dropdowns (Material, Style, etc.)
-    await this.selectOtherDropdowns();
+      if (attempt === this.maxVariantAttempts) {
+        throw new Error(`❌ No purchasable variant combination found after ${attempt} attempts`);
+      }
+      console.log(`⚠️  Combination ${JSON.stringify(selection)} is unavailable, retrying (${attempt}/${this.maxVariantAttempts})`);
+    }
 
-    // 4. Handle Quantity (keep default 1 or select random)
+    // Keep default quantity of 1
     await this.selectQuantity();
 
-    // Wait a bit for selections to process
-    await this.page.waitForTimeout(1000);
-    console.log('Variant selection completed');
+    // Let the selections update price and availability
+    await this.waitForSettled();
+    console.log(`Variant selection completed: ${JSON.stringify(selection)}`);
+    return selection;
   }
 
   /**
-   * Select size variant if available
+   * Enumerate every SKU dimension on the page with the availability of its values
+   * @returns Dimensions in page order
    */
-  private async selectSizeVariant(): Promise<void> {
-    try {
-      // Open the size dropdown
-      if (await this.sizeDropdownButton.first().isVisible({ timeout: 2000 })) {
-        await this.sizeDropdownButton.first().click();
-        console.log('Opened size dropdown');
-        await this.page.waitForTimeout(500);
-        
-        // Get all options (skip first one - it's "Select")
-        const allOptions = await this.sizeDropdownOptions.all();
-        
-        if (allOptions.length > 1) {
-          // Remove first option (Select/placeholder)
-          const validOptions = allOptions.slice(1);
-          
-          // Select random option
-          const randomOption = RandomSelector.getRandomElement(validOptions);
-          if (randomOption) {
-            const optionText = await randomOption.textContent();
-            await randomOption.click();
-            console.log(`Selected size: ${optionText?.trim()}`);
-            return;
-          }
-        }
+  async getSkuDimensions(): Promise<SkuDimension[]> {
+    const dimensions: SkuDimension[] = [];
+    for (const control of await this.skuControls.all()) {
+      const dimension = await this.readSkuDimension(control);
+      if (dimension) {
+        dimensions.push(dimension);
       }
+    }
+    return dimensions;
+  }
 
-      console.log('No size variant found or already selected');
-    } catch (error) {
-      console.log('No size variant found or already selected');
+  /**
+   * Check whether the Add to Cart button can be clicked
+   */
+  async isAddToCartEnabled(): Promise<boolean> {
+    const button = (await this.find('product.addToCart', { visible: true })).first();
+    if (!(await button.isVisible())) {
+      return false;
     }
+
+    return button.evaluate(element =>
+      element.getAttribute('aria-disabled') !== 'true' &&
+      !element.hasAttribute('disabled') &&
+      !element.classList.contains('disabled')
+    );
   }
 
   /**
-   * Select color variant if available
+   * Pick one random available value per dimension, in page order
+   * Each dimension is re-read after the previous choice, since choices can disable values further down
+   * @param required - Values that must be chosen for these dimensions
    */
-  private async selectColorVariant(): Promise<void> {
-    try {
-      // Open the color dropdown
-      if (await this.colorDropdownButton.first().isVisible({ timeout: 2000 })) {
-        await this.colorDropdownButton.first().click();
-        console.log('Opened color dropdown');
-        await this.page.waitForTimeout(500);
-        
-        // Get all options (skip first one - it's "Select")
-        const allOptions = await this.colorDropdownOptions.all();
-        
-        if (allOptions.length > 1) {
-          // Remove first option (Select/placeholder)
-          const validOptions = allOptions.slice(1);
-          
-          // Select random option
-          const randomOption = RandomSelector.getRandomElement(validOptions);
-          if (randomOption) {
-            const optionText = await randomOption.textContent();
-            await randomOption.click();
-            console.log(`Selected color: ${optionText?.trim()}`);
-            return;
-          }
-        }
+  private async selectVariantCombination(required: VariantSelection): Promise<VariantSelection> {
+    const selection: VariantSelection = {};
+    const normalize = (text: string) => text.trim().toLowerCase();
+    const pending = new Map(Object.entries(required).map(([name, value]) => [normalize(name), { name, value }]));
+
+    for (const control of await this.skuControls.all()) {
+      const dimension = await this.readSkuDimension(control);
+      if (!dimension) {
+        continue;
       }
 
-      console.log('No color variant found or already selected');
-    } catch (error) {
-      console.log('No color variant found or already selected');
+      const requirement = pending.get(normalize(dimension.name));
+      pending.delete(normalize(dimension.name));
+      const candidates = dimension.values.filter(value =>
+        value.available && (!requirement || normalize(value.value) === normalize(requirement.value))
+      );
+
+      const choice = RandomSelector.getRandomElement(candidates);
+      if (!choice && requirement) {
+        throw new VariantUnavailableError(dimension.name, requirement.value, this.page.url());
+      }
+      if (!choice) {
+        throw new Error(`❌ No in-stock value for "${dimension.name}"`);
+      }
+
+      await this.applySkuValue(control, dimension.control, choice);
+      selection[dimension.name] = choice.value;
+      console.log(`Selected ${dimension.name}: ${choice.value}`);
+    }
+
+    // A required dimension the listing does not have
+    const [missing] = pending.values();
+    if (missing) {
+      throw new VariantUnavailableError(missing.name, missing.value, this.page.url());
     }
+
+    return selection;
   }
 
   /**
-   * Select other dropdown variants (material, style, etc.)
+   * Read one SKU control (container or legacy select)
+   * @returns Dimension, or null for controls handled through their container or without values
    */
-  private async selectOtherDropdowns(): Promise<void> {
-    try {
-      const allSelects = await this.page.locator('select[id*="msku"], select.x-msku__select').all();
+  private async readSkuDimension(control: Locator): Promise<SkuDimension | null> {
+    return control.evaluate((element, selectors) => {
+      const clean = (text: string | null | undefined) => (text ?? '').replace(/\s+/g, ' ').trim();
+      const outOfStock = new RegExp(selectors.outOfStock.source, selectors.outOfStock.flags);
+      const placeholder = /^-*\s*select\s*-*$/i;
+
+      // Selects inside a SKU container are read through the container
+      if (element.tagName === 'SELECT' && element.parentElement?.closest('.x-sku')) {
+        return null;
+      }
 
-      for (const select of allSelects) {
-        const id = await select.getAttribute('id');
-        
-        // Skip if already handled (size, color, quantity)
-        if (id && (
-          id.toLowerCase().includes('quantity') ||
-          id.toLowerCase().includes('size') ||
-          id.toLowerCase().includes('color')
-        )) {
-          continue;
+      const nativeSelect = (element.tagName === 'SELECT' ? element : element.querySelector('select')) as HTMLSelectElement | null;
+      const selectLabel = nativeSelect?.id ? document.querySelector(`label[for="${nativeSelect.id}"]`) : null;
+      const name = clean(
+        element.getAttribute('data-sku') ??
+        element.querySelector(selectors.label)?.textContent ??
+        selectLabel?.textContent ??
+        nativeSelect?.getAttribute('aria-label') ??
+        nativeSelect?.name
+      ).replace(/:$/, '');
+
+      // Mobile bottom sheets are nested in the control or referenced through aria-controls
+      const sheetButton = selectors.sheetButton ? element.querySelector(selectors.sheetButton) : null;
+      const sheetId = sheetButton?.getAttribute('aria-controls');
+      const sheet = sheetId ? document.getElementById(sheetId) ?? element : element;
+
+      let control: SkuControl;
+      let options: Element[];
+      if (nativeSelect) {
+        control = 'select';
+        options = Array.from(nativeSelect.options);
+      } else if (sheetButton) {
+        control = 'sheet';
+        options = Array.from(sheet.querySelectorAll('[role="option"]'));
+      } else if (element.querySelector('[role="option"]')) {
+        control = 'menu';
+        options = Array.from(element.querySelectorAll('[role="option"]'));
+      } else {
+        control = 'swatch';
+        options = Array.from(element.querySelectorAll(selectors.swatch));
+      }
+
+      const values: SkuValue[] = [];
+      options.forEach((option, index) => {
+        const label = clean(option.textContent);
+        const value = clean(option.getAttribute('data-value') ?? (option instanceof HTMLOptionElement ? option.value : label))
+          .replace(outOfStock, '')
+          .trim();
+        if (!value || placeholder.test(label)) {
+          return;
         }
 
-        if (await select.isVisible({ timeout: 1000 })) {
-          const options = await select.locator('option').all();
-          
-          const validOptions = [];
-          for (const option of options) {
-            const value = await option.getAttribute('value');
-            if (value && value !== '') {
-              validOptions.push(value);
-            }
-          }
+        const disabled = (option as HTMLButtonElement | HTMLOptionElement).disabled === true ||
+          option.getAttribute('aria-disabled') === 'true';
+        values.push({ value, available: !disabled && !outOfStock.test(label), index });
+      });
+
+      return name && values.length > 0 ? { name, control, values } : null;
+    }, {
+      label: SelectorRegistry.candidates('product.skuLabel').join(', '),
+      swatch: SelectorRegistry.candidates('product.skuSwatch').join(', '),
+      sheetButton: this.layout === 'mobile' ? SelectorRegistry.candidates('product.skuSheetButton', 'mobile').join(', ') : null,
+      outOfStock: { source: config.marketplace.patterns.outOfStock.source, flags: config.marketplace.patterns.outOfStock.flags },
+    });
+  }
 
-          if (validOptions.length > 1) { // More than just "Select" option
-            const randomValue = RandomSelector.getRandomElement(validOptions);
-            if (randomValue) {
-              await select.selectOption(randomValue);
-              console.log(`Selected variant: ${randomValue}`);
-            }
-          }
-        }
+  /**
+   * Choose a value on a SKU control
+   */
+  private async applySkuValue(control: Locator, type: SkuControl, choice: SkuValue): Promise<void> {
+    switch (type) {
+      case 'select': {
+        const isSelect = await control.evaluate(element => element.tagName === 'SELECT');
+        await (isSelect ? control : control.locator('select').first()).selectOption({ index: choice.index });
+        // A variant change can bring up an interstitial just like a click
+        await this.handleInterstitials();
+        break;
+      }
+      case 'menu':
+        await this.click(this.locate('product.skuMenuButton', control).first());
+        await this.click(control.locator('[role="option"]').nth(choice.index));
+        break;
+      case 'swatch':
+        await this.click(this.locate('product.skuSwatch', control).nth(choice.index));
+        break;
+      case 'sheet': {
+        const button = this.locate('product.skuSheetButton', control).first();
+        const sheetId = await button.getAttribute('aria-controls');
+        const sheet = sheetId ? this.page.locator(`[id="${sheetId}"]`) : this.locate('product.skuSheet', control).first();
+        await this.click(button);
+        await sheet.waitFor({ state: 'visible', timeout: config.timeout.element });
+        await this.click(sheet.locator('[role="option"]').nth(choice.index));
+        await sheet.waitFor({ state: 'hidden', timeout: config.timeout.element });
+        break;
       }
-    } catch (error) {
-      console.log('No other variants to select');
     }
   }
 
@@ -226,9 +272,10 @@ export class ProductPage extends BasePage {
    */
   private async selectQuantity(): Promise<void> {
     try {
-      if (await this.quantitySelect.first().isVisible({ timeout: 2000 })) {
+      const quantitySelect = this.quantitySelect.first();
+      if (await quantitySelect.isVisible({ timeout: 2000 })) {
         // Keep default quantity of 1
-        await this.quantitySelect.first().selectOption('1');
+        await quantitySelect.selectOption('1');
         console.log('Quantity set to 1');
       }
     } catch (error) {
@@ -238,83 +285,137 @@ export class ProductPage extends BasePage {
 
   /**
    * Add item to cart after selecting variants
+   * Succeeds once the "Added to cart" layer shows or the header cart count changes
+   * @throws Error when the button is disabled, eBay shows an error (e.g. variation not available) or nothing confirms the add
    */
+  @step('Add to cart')
+  @measure('addToCart')
   async addToCart(): Promise<void> {
     try {
       // Wait for Add to Cart button to be visible
-      await this.addToCartButton.first().waitFor({ state: 'visible', timeout: 5000 });
-      
-      await this.addToCartButton.first().click();
-      await this.page.waitForTimeout(2000); // Wait for cart update
-      await this.page.pause();
+      const addToCartButton = (await this.find('product.addToCart', { timeout: 5000, visible: true })).first();
+      if (!(await addToCartButton.isVisible())) {
+        throw new Error('Add to Cart button is not visible');
+      }
+      if (await addToCartButton.getAttribute('aria-disabled') === 'true') {
+        throw new Error('Add to Cart button is disabled');
+      }
+
+      const countBefore = await this.headerCartCount();
+      await this.click(addToCartButton);
+
+      // Wait for the confirmation layer or an error message, whichever comes first
+      const confirmation = this.locate('product.addToCartConfirmation').first();
+      const error = this.locate('product.addToCartError').first();
+      await confirmation.or(error).first().waitFor({ state: 'visible', timeout: config.timeout.element }).catch(() => undefined);
+
+      if (await error.isVisible()) {
+        throw new Error(`eBay rejected the add: ${(await error.textContent())?.trim() || 'error shown'}`);
+      }
+      if (!(await confirmation.isVisible())) {
+        await this.waitForSettled();
+        if (await this.headerCartCount() === countBefore) {
+          throw new Error('no confirmation and the cart count did not change');
+        }
+      }
       console.log('Item added to cart');
     } catch (error) {
+      if (error instanceof BotDetectedError || error instanceof ItemSkippedError) throw error;
       console.log('❌ Error: Could not add item to cart');
       throw new Error(`Failed to add item to cart: ${error}`);
     }
   }
 
+  /**
+   * Item count on the header cart icon (null when it shows no number)
+   */
+  private async headerCartCount(): Promise<number | null> {
+    const text = await this.locate('cart.cartIcon').first().textContent().catch(() => null);
+    const match = text?.match(/\d+/);
+    return match ? parseInt(match[0], 10) : null;
+  }
+
   /**
    * Main function to add items to cart with variant selection
-   * @param urls - Array of product URLs
+   * @param items - Search results to add
+   * @param requiredVariants - Values that must be chosen; listings without them are skipped
+   * @returns The items that were added successfully, with chosen variants and item page price
    */
-  async addItemsToCart(urls: string[]): Promise<void> {
-    console.log(`Adding ${urls.length} items to cart...`);
+  @step('Add items to cart')
+  async addItemsToCart(items: SearchResult[], requiredVariants: VariantSelection = {}): Promise<AddedItem[]> {
+    console.log(`Adding ${items.length} items to cart...`);
 
-    let successCount = 0;
+    const addedItems: AddedItem[] = [];
     let failureCount = 0;
+    let skippedCount = 0;
 
-    for (let i = 0; i < urls.length; i++) {
-      const url = urls[i];
-      console.log(`\n--- Processing item ${i + 1}/${urls.length} ---`);
+    for (let i = 0; i < items.length; i++) {
+      const item = items[i];
+      console.log(`\n--- Processing item ${i + 1}/${items.length}: ${item.title} (${item.itemId}) ---`);
 
       try {
-        // Navigate to product page
-        await this.goto(url);
-        await this.page.waitForTimeout(2000);
+        const addedItem = await allure.step(`Add item ${i + 1}/${items.length}: ${item.title}`, async () => {
+          // Navigate to product page
+          await this.goto(item.url);
+          await this.waitForSettled();
+
+          // Get price
+          const price = await this.getProductPrice();
+          console.log(`Product price: ${PriceParser.format(price)}`);
+          if (price > 0 && price !== item.price) {
+            console.log(`⚠️  Price changed since search: ${PriceParser.format(item.price)} → ${PriceParser.format(price)}`);
+          }
 
-        // Check for CAPTCHA
-        await this.checkForCaptcha();
+          // Select variants
+          const variants = await this.selectRandomVariants(requiredVariants);
 
-        // Get price
-        const price = await this.getProductPrice();
-        console.log(`Product price: $${price}`);
+          // Add to cart
+          await this.addToCart();
 
-        // Select variants
-        await this.selectRandomVariants();
+          // Take screenshot
+          await this.takeScreenshot(`item_${i + 1}_added`);
 
-        // Add to cart
-        await this.addToCart();
-        
-        // Take screenshot
-        await this.takeScreenshot(`item_${i + 1}_added`);
-        
-        successCount++;
+          return { ...item, variants, quantity: 1, addedPrice: price > 0 ? price : item.price };
+        });
+        addedItems.push(addedItem);
 
       } catch (error) {
+        // Bot detection stops the whole process
+        if (error instanceof BotDetectedError) {
+          throw error;
+        }
+
+        // Ended listings and listings without a required variant are skipped, not failed
+        if (error instanceof ItemSkippedError || error instanceof VariantUnavailableError) {
+          skippedCount++;
+          console.log(error.message);
+          continue;
+        }
+
         failureCount++;
+
         console.log(`❌ Error processing item ${i + 1}:`, error);
         await this.takeScreenshot(`item_${i + 1}_error`);
         
-        // If it's a CAPTCHA error, stop the whole process
-        if (error instanceof Error && error.message.includes('CAPTCHA')) {
-          throw error;
-        }
-        
         // For other errors, continue but log warning
         console.log(`⚠️  Warning: Failed to add item ${i + 1}, continuing with next item...`);
       }
     }
 
-    console.log(`\n✓ Successfully added: ${successCount}/${urls.length} items`);
-    
+    console.log(`\n✓ Successfully added: ${addedItems.length}/${items.length} items`);
+
+    if (skippedCount > 0) {
+      console.log(`⚠️  Skipped: ${skippedCount}/${items.length} items`);
+    }
     if (failureCount > 0) {
-      console.log(`⚠️  Failed to add: ${failureCount}/${urls.length} items`);
+      console.log(`⚠️  Failed to add: ${failureCount}/${items.length} items`);
     }
-    
-    // Fail the test if too many items failed
-    if (failureCount === urls.length) {
-      throw new Error(`❌ Failed to add any items to cart (0/${urls.length})`);
+
+    // Fail the test when nothing could be added; an empty list or only skipped items leave an empty cart
+    if (addedItems.length === 0 && failureCount > 0) {
+      throw new Error(`❌ Failed to add any items to cart (0/${items.length}, ${failureCount} failed, ${skippedCount} skipped)`);
     }
+
+    return addedItems;
   }
 }
@@ -1,8 +1,29 @@
 import { Page, Locator } from '@playwright/test';
 import { BasePage } from './BasePage';
 import { PriceParser } from '../utils/PriceParser';
+import { ListingParser } from '../utils/ListingParser';
+import { SearchUrlBuilder } from '../utils/SearchUrlBuilder';
+import { SearchVerifier } from '../utils/SearchVerifier';
+import { BotDetectedError, SearchResultsError } from '../utils/Errors';
+import { step, AllureReporter } from '../utils/AllureReporter';
+import { measure } from '../utils/PerformanceMonitor';
+import { SearchResult, BuyingFormat, SellerInfo } from '../models/SearchResult';
+import {
+  SearchCriteria,
+  SearchFilters,
+  FilterApplyMode,
+  ItemCondition,
+  ItemLocation,
+  SortOrder,
+} from '../models/SearchCriteria';
+import { ResultCard, SearchExpectation, SearchVerificationReport } from '../models/SearchVerification';
 import { config } from '../config/env.config';
 
+export interface SearchOptions {
+  /** Count the card's shipping cost toward maxPrice (landed cost) */
+  includeShipping?: boolean;
+}
+
 /**
  * SearchPage - Handles product search, filtering, and pagination
  */
@@ -16,36 +37,46 @@ export class SearchPage extends BasePage {
   readonly maxPriceInput: Locator;
   readonly priceSubmitButton: Locator;
   
+  // Left-rail (mobile: "Refine" sheet) Facets and Sort Elements
+  readonly facetGroups: Locator;
+  readonly sortButton: Locator;
+  readonly sortMenu: Locator;
+
   // Pagination Elements
   readonly nextPageButton: Locator;
-  
-  // XPath Selectors for item extraction
-  private readonly itemCardXPath: string = '//li[@data-gr3 and @class="s-card s-card--vertical"]';
-  private readonly itemPriceXPath: string = 'xpath=.//span[contains(@class, "s-item__price") or contains(@class, "price")]';
-  private readonly itemLinkXPath: string = 'xpath=.//a[contains(@href, "itm/")]';
-  
-  // Selector strings for visibility checks
-  private readonly maxPriceInputSelector: string = 'input[name*="MaxPrice"]';
-  private readonly priceSubmitSelector: string = 'button:has-text("Submit")';
-  private readonly nextPageSelector: string = 'a.pagination__next, a[aria-label*="next"]';
+
+  // Left-rail facet group headings and option labels of the active marketplace
+  private readonly texts = config.marketplace.texts;
+  private readonly facetGroupLabels = this.texts.facetHeadings;
+  private readonly conditionLabels: Record<ItemCondition, string> = this.texts.conditions;
+  private readonly buyingFormatLabels: Record<BuyingFormat, string> = this.texts.buyingFormats;
+  private readonly locationLabels: Record<ItemLocation, string> = this.texts.locations;
+  private readonly sortOrderLabels: Record<SortOrder, string> = this.texts.sortOrders;
+  private readonly freeShippingLabel: string = this.texts.freeShipping;
 
   constructor(page: Page) {
     super(page);
-    this.searchBox = page.locator('input[type="text"][placeholder*="Search"]').first();
-    this.searchButton = page.locator('#gh-search-btn').first();
-    this.minPriceInput = page.locator('input[name*="MinPrice"], input[aria-label*="Minimum"]').first();
-    this.maxPriceInput = page.locator('input[name*="MaxPrice"], input[aria-label*="Maximum"]').first();
-    this.priceSubmitButton = page.locator('button:has-text("Submit price range")').first();
-    this.nextPageButton = page.locator('a.pagination__next, a[aria-label="Go to next search page"]').first();
+    this.searchBox = this.locate('search.searchBox').first();
+    this.searchButton = this.locate('search.searchButton').first();
+    this.minPriceInput = this.locate('search.minPriceInput').first();
+    this.maxPriceInput = this.locate('search.maxPriceInput').first();
+    this.priceSubmitButton = this.locate('search.priceSubmit').first();
+    this.facetGroups = this.locate('search.facetGroup');
+    this.sortButton = this.locate('search.sortButton').first();
+    this.sortMenu = this.locate('search.sortMenu').first();
+    this.nextPageButton = this.locate('search.nextPage').first();
   }
 
   /**
    * Search for products by keyword
    * @param query - Search keyword
    */
+  @step('Search for "{query}"')
+  @measure('search')
   async searchByKeyword(query: string): Promise<void> {
-    await this.searchBox.fill(query);
-    await this.searchButton.click();
+    const searchBox = await this.find('search.searchBox', { timeout: config.timeout.element });
+    await searchBox.first().fill(query);
+    await this.click((await this.find('search.searchButton')).first());
     await this.waitForPageLoad();
     console.log(`Searched for: ${query}`);
   }
@@ -53,41 +84,167 @@ export class SearchPage extends BasePage {
   /**
    * Apply price filter if available
    * @param maxPrice - Maximum price to filter
+   * @param minPrice - Optional minimum price
    */
-  async applyPriceFilter(maxPrice: number): Promise<void> {
+  @step('Apply price filter')
+  async applyPriceFilter(maxPrice?: number, minPrice?: number): Promise<void> {
     try {
+      await this.openFilterSheet();
+
       // Check if price filter exists
-      const isPriceFilterVisible = await this.isElementVisible(this.maxPriceInputSelector);
+      const maxPriceInput = (await this.find('search.maxPriceInput', { timeout: 3000, visible: true })).first();
       
-      if (isPriceFilterVisible) {
-        await this.maxPriceInput.fill(maxPrice.toString());
+      if (await maxPriceInput.isVisible()) {
+        if (minPrice !== undefined) {
+          await (await this.find('search.minPriceInput')).first().fill(minPrice.toString());
+        }
+        if (maxPrice !== undefined) {
+          await maxPriceInput.fill(maxPrice.toString());
+        }
         
         // Try to submit the filter
-        const isSubmitVisible = await this.isElementVisible(this.priceSubmitSelector);
-        if (isSubmitVisible) {
-          await this.priceSubmitButton.click();
+        const submitButton = (await this.find('search.priceSubmit', { timeout: 3000, visible: true })).first();
+        if (await submitButton.isVisible()) {
+          await this.click(submitButton);
           await this.waitForPageLoad();
-          console.log(`Applied price filter: max $${maxPrice}`);
+          console.log(`Applied price filter: min ${minPrice !== undefined ? PriceParser.format(minPrice) : '-'}, max ${maxPrice !== undefined ? PriceParser.format(maxPrice) : '-'}`);
         }
       } else {
         console.log('Price filter not available on page - will filter manually');
       }
     } catch (error) {
+      if (error instanceof BotDetectedError) throw error;
       console.log('Could not apply price filter - will filter manually');
     }
   }
 
   /**
-   * Extract product items from current page under specified price
+   * Search with keyword and filters, then read back which filters are active
+   * @param criteria - Keyword and filters
+   * @param mode - 'url' builds the /sch/i.html query directly, 'facets' clicks the left rail
+   * @returns Filters eBay reports as active after applying
+   */
+  @step('Search with criteria ({mode})')
+  async searchWithCriteria(criteria: SearchCriteria, mode: FilterApplyMode = 'url'): Promise<SearchFilters> {
+    if (mode === 'url') {
+      const url = SearchUrlBuilder.build(criteria);
+      await this.goto(url);
+      await this.waitForPageLoad();
+      console.log(`Opened search URL: ${url}`);
+    } else {
+      await this.searchByKeyword(criteria.query);
+      await this.applyFacets(criteria);
+    }
+
+    const activeFilters = await this.getActiveFilters();
+    console.log(`Active filters: ${JSON.stringify(activeFilters)}`);
+    return activeFilters;
+  }
+
+  /**
+   * Apply criteria through the left-rail facets (the "Refine" sheet on mobile web) and sort menu
+   * Each click reloads the results page
+   * @param criteria - Filters to apply
+   */
+  @step('Apply left-rail facets')
+  async applyFacets(criteria: SearchFilters): Promise<void> {
+    if (criteria.minPrice !== undefined || criteria.maxPrice !== undefined) {
+      await this.applyPriceFilter(criteria.maxPrice, criteria.minPrice);
+    }
+
+    for (const condition of criteria.conditions ?? []) {
+      await this.clickFacet(this.facetGroupLabels.condition, this.conditionLabels[condition]);
+    }
+
+    if (criteria.buyingFormat) {
+      await this.clickFacet(this.facetGroupLabels.buyingFormat, this.buyingFormatLabels[criteria.buyingFormat]);
+    }
+
+    if (criteria.freeShipping) {
+      await this.clickFacet(this.facetGroupLabels.delivery, this.freeShippingLabel);
+    }
+
+    if (criteria.location) {
+      await this.clickFacet(this.facetGroupLabels.location, this.locationLabels[criteria.location]);
+    }
+
+    if (criteria.categoryId) {
+      await this.openFilterSheet();
+      const categoryLink = this.facetGroup(this.facetGroupLabels.category)
+        .locator(`a[href*="_sacat=${criteria.categoryId}"]`).first();
+      await this.click(categoryLink);
+      await this.waitForPageLoad();
+      console.log(`Applied category: ${criteria.categoryId}`);
+    }
+
+    if (criteria.sortOrder) {
+      await this.click((await this.find('search.sortButton')).first());
+      await this.click(this.sortMenu.getByRole('link', { name: this.sortOrderLabels[criteria.sortOrder], exact: true }));
+      await this.waitForPageLoad();
+      console.log(`Applied sort: ${this.sortOrderLabels[criteria.sortOrder]}`);
+    }
+  }
+
+  /**
+   * Read which filters the results page shows as active
+   * Reads the rail checkboxes, price inputs and sort button rather than the request we made
+   * @returns Active filters
+   */
+  async getActiveFilters(): Promise<SearchFilters> {
+    const filters: SearchFilters = {};
+
+    const minPrice = parseFloat(await this.minPriceInput.inputValue().catch(() => ''));
+    const maxPrice = parseFloat(await this.maxPriceInput.inputValue().catch(() => ''));
+    if (!isNaN(minPrice)) filters.minPrice = minPrice;
+    if (!isNaN(maxPrice)) filters.maxPrice = maxPrice;
+
+    const conditions = await this.checkedFacetLabels(this.facetGroupLabels.condition);
+    const selectedConditions = this.keysForLabels(this.conditionLabels, conditions);
+    if (selectedConditions.length) filters.conditions = selectedConditions;
+
+    const formats = await this.checkedFacetLabels(this.facetGroupLabels.buyingFormat);
+    filters.buyingFormat = this.keysForLabels(this.buyingFormatLabels, formats)[0];
+
+    const delivery = await this.checkedFacetLabels(this.facetGroupLabels.delivery);
+    if (delivery.includes(this.freeShippingLabel)) filters.freeShipping = true;
+
+    const locations = await this.checkedFacetLabels(this.facetGroupLabels.location);
+    filters.location = this.keysForLabels(this.locationLabels, locations)[0];
+
+    // The rail shows the category name; its ID is only in the results URL
+    const selectedCategory = this.facetGroup(this.facetGroupLabels.category).locator('[aria-checked="true"]');
+    if (await selectedCategory.count() > 0) {
+      filters.categoryId = SearchUrlBuilder.parse(this.page.url()).categoryId;
+    }
+
+    const sortButton = (await this.find('search.sortButton')).first();
+    if (await sortButton.count() > 0) {
+      const sortText = ((await sortButton.textContent()) ?? '').replace(new RegExp(`^\\s*${this.texts.sortPrefix}:\\s*`, 'i'), '').trim();
+      filters.sortOrder = this.keysForLabels(this.sortOrderLabels, [sortText])[0];
+    }
+
+    // Drop filters that were not found so the result compares cleanly
+    for (const key of Object.keys(filters) as (keyof SearchFilters)[]) {
+      if (filters[key] === undefined) delete filters[key];
+    }
+    return filters;
+  }
+
+  /**
+   * Search for products under a price and collect their listings
+   * @param query - Search keyword
    * @param maxPrice - Maximum price threshold
    * @param limit - Maximum number of items to collect
-   * @returns Array of product URLs
+   * @param options - Optional landed-cost filtering
+   * @returns Array of search results
    */
+  @step('Collect up to {limit} "{query}" items under {maxPrice}')
   async searchItemsByNameUnderPrice(
     query: string,
     maxPrice: number,
-    limit: number = 5
-  ): Promise<string[]> {
+    limit: number = 5,
+    options: SearchOptions = {}
+  ): Promise<SearchResult[]> {
     // Perform search
     await this.searchByKeyword(query);
     
@@ -95,33 +252,73 @@ export class SearchPage extends BasePage {
     await this.applyPriceFilter(maxPrice);
 
     // Collect items with pagination support
-    return await this.collectItemsWithPaging(maxPrice, limit);
+    return await this.collectItemsWithPaging(maxPrice, limit, options);
+  }
+
+  /**
+   * Search with keyword and filters and collect listings
+   * @param criteria - Keyword and filters (maxPrice is also enforced per card)
+   * @param limit - Maximum number of items to collect
+   * @param options - Optional landed-cost filtering
+   * @param mode - How to apply the filters
+   * @returns Array of search results
+   */
+  @step('Collect up to {limit} items by criteria')
+  async searchItemsByCriteria(
+    criteria: SearchCriteria,
+    limit: number = 5,
+    options: SearchOptions = {},
+    mode: FilterApplyMode = 'url'
+  ): Promise<SearchResult[]> {
+    await this.searchWithCriteria(criteria, mode);
+    return await this.collectItemsWithPaging(criteria.maxPrice ?? Infinity, limit, options);
+  }
+
+  /**
+   * Collect listings from the results already on screen, following pagination
+   * @param limit - Maximum number of items to collect
+   * @param maxPrice - Per-card price cap (default: none)
+   * @param options - Optional landed-cost filtering
+   * @returns Array of search results
+   */
+  @step('Collect up to {limit} items from the results')
+  async collectResults(limit: number, maxPrice: number = Infinity, options: SearchOptions = {}): Promise<SearchResult[]> {
+    return await this.collectItemsWithPaging(maxPrice, limit, options);
   }
 
   /**
    * Collect items from multiple pages if needed
    * @param maxPrice - Maximum price threshold
    * @param limit - Number of items to collect
-   * @returns Array of product URLs
+   * @param options - Optional landed-cost filtering
+   * @returns Array of search results
    */
-  private async collectItemsWithPaging(maxPrice: number, limit: number): Promise<string[]> {
-    const collectedUrls: string[] = [];
+  private async collectItemsWithPaging(
+    maxPrice: number,
+    limit: number,
+    options: SearchOptions
+  ): Promise<SearchResult[]> {
+    const collected: SearchResult[] = [];
+    const seenItemIds = new Set<string>();
     let currentPage = 1;
 
-    while (collectedUrls.length < limit && currentPage <= config.pagination.maxPages) {
+    while (collected.length < limit && currentPage <= config.pagination.maxPages) {
       console.log(`Collecting items from page ${currentPage}...`);
       
-      const pageItems = await this.extractItemsFromCurrentPage(maxPrice);
+      const pageItems = await this.extractItemsFromCurrentPage(maxPrice, currentPage, options);
       
       for (const item of pageItems) {
-        if (collectedUrls.length >= limit) break;
-        collectedUrls.push(item);
+        if (collected.length >= limit) break;
+        // Sponsored listings can repeat across pages
+        if (seenItemIds.has(item.itemId)) continue;
+        seenItemIds.add(item.itemId);
+        collected.push(item);
       }
 
-      console.log(`Collected ${collectedUrls.length}/${limit} items so far`);
+      console.log(`Collected ${collected.length}/${limit} items so far`);
 
       // Check if we need more items and next page exists
-      if (collectedUrls.length >= limit) break;
+      if (collected.length >= limit) break;
       
       const hasNext = await this.hasNextPage();
       if (!hasNext) {
@@ -133,42 +330,54 @@ export class SearchPage extends BasePage {
       currentPage++;
     }
 
-    return collectedUrls.slice(0, limit);
+    const items = collected.slice(0, limit);
+    await AllureReporter.attachJson('Collected items', items);
+    return items;
   }
 
   /**
-   * Extract items from current page using XPath
+   * Extract items from current page
    * @param maxPrice - Maximum price threshold
-   * @returns Array of product URLs that meet price criteria
+   * @param pageNumber - Current results page (recorded on each result)
+   * @param options - Optional landed-cost filtering
+   * @returns Search results that meet price criteria
    */
-  private async extractItemsFromCurrentPage(maxPrice: number): Promise<string[]> {
-    await this.page.waitForTimeout(2000); // Wait for items to load
+  private async extractItemsFromCurrentPage(
+    maxPrice: number,
+    pageNumber: number,
+    options: SearchOptions
+  ): Promise<SearchResult[]> {
+    await this.waitForSettled(); // Wait for items to load
     
-    const items: string[] = [];
+    const items: SearchResult[] = [];
 
-    // Find all search result items using XPath (as per requirements)
-    const itemElements = await this.page.locator(this.itemCardXPath).all();
+    // Find all search result cards
+    const itemElements = await (await this.find('search.resultCard')).all();
 
-    for (const item of itemElements) {
+    for (const [index, item] of itemElements.entries()) {
       try {
-        // Get price using XPath
-        const priceElement = item.locator(this.itemPriceXPath).first();
+        // Get price
+        const priceElement = (await this.find('search.cardPrice', { scope: item })).first();
         const priceText = await priceElement.textContent();
         
         if (!priceText) continue;
 
         const price = PriceParser.parse(priceText);
         
-        // Check if price is within budget
+        // Check if price is within budget (item price alone can already rule it out)
         if (price > 0 && price <= maxPrice) {
-          // Get product URL using XPath
-          const linkElement = item.locator(this.itemLinkXPath).first();
-          const url = await linkElement.getAttribute('href');
-          
-          if (url) {
-            items.push(url);
-            console.log(`Found item: ${price} - ${url.substring(0, 50)}...`);
+          const result = await this.readSearchResult(item, price, pageNumber, index + 1);
+          if (!result) continue;
+
+          // Landed cost: unknown shipping counts as free
+          const cost = options.includeShipping ? price + (result.shippingCost ?? 0) : price;
+          if (cost > maxPrice) {
+            console.log(`Skipping item ${result.itemId}: ${PriceParser.format(cost)} with shipping exceeds ${PriceParser.format(maxPrice)}`);
+            continue;
           }
+
+          items.push(result);
+          console.log(`Found item: ${PriceParser.format(cost)} - ${result.title.substring(0, 50)} (${result.itemId})`);
         }
       } catch (error) {
         // Skip invalid items
@@ -179,13 +388,204 @@ export class SearchPage extends BasePage {
     return items;
   }
 
+  /**
+   * Read the remaining card fields into a SearchResult
+   * @param card - Search result card
+   * @param price - Already parsed card price
+   * @param pageNumber - Results page number
+   * @param position - Card position on the page
+   * @returns Search result or null if the card has no item link
+   */
+  private async readSearchResult(
+    card: Locator,
+    price: number,
+    pageNumber: number,
+    position: number
+  ): Promise<SearchResult | null> {
+    // Get product URL
+    const href = await (await this.find('search.cardLink', { scope: card })).first().getAttribute('href');
+    if (!href) return null;
+
+    const itemId = ListingParser.extractItemId(href);
+    if (!itemId) return null;
+
+    const titleElement = (await this.find('search.cardTitle', { scope: card })).first();
+    const title = ListingParser.cleanTitle(await titleElement.textContent() ?? '');
+    // Not every card shows a condition; the card has rendered, so do not wait for one
+    const conditionElement = (await this.find('search.cardCondition', { scope: card, timeout: 0 })).first();
+    const condition = (await conditionElement.count()) > 0 ? (await conditionElement.textContent())?.trim() ?? '' : '';
+
+    let shippingCost: number | null = null;
+    let seller: SellerInfo | null = null;
+    const buyingFormats: BuyingFormat[] = [];
+
+    for (const row of await (await this.find('search.cardAttributeRows', { scope: card })).allTextContents()) {
+      shippingCost = shippingCost ?? ListingParser.parseShipping(row);
+      seller = seller ?? ListingParser.parseSeller(row);
+      for (const format of ListingParser.parseBuyingFormats(row)) {
+        if (!buyingFormats.includes(format)) buyingFormats.push(format);
+      }
+    }
+
+    return {
+      itemId,
+      url: ListingParser.canonicalUrl(itemId),
+      title,
+      price,
+      shippingCost,
+      condition,
+      buyingFormats,
+      seller,
+      page: pageNumber,
+      position,
+    };
+  }
+
+  /**
+   * Walk the results pages and check them against a sort order and price bounds
+   * Call after the search with the sort and filter is on screen; attaches the report to Allure
+   * @param expectation - Sort order and min/max price the results should meet
+   * @param pages - Number of pages to walk (capped by config.pagination.maxPages)
+   * @returns Report listing every offending card with its page and position
+   */
+  @step('Verify results over {pages} page(s)')
+  async verifyResults(expectation: SearchExpectation, pages: number = 3): Promise<SearchVerificationReport> {
+    const url = this.page.url();
+    const cards: ResultCard[] = [];
+    let pageNumber = 1;
+
+    while (true) {
+      cards.push(...await this.readResultCards(pageNumber));
+      if (pageNumber >= Math.min(pages, config.pagination.maxPages) || !(await this.hasNextPage())) break;
+
+      const before = this.page.url();
+      await this.goToNextPage();
+      if (this.page.url() === before) break;
+      pageNumber++;
+    }
+
+    const report = SearchVerifier.verify(url, cards, expectation, pageNumber);
+    await AllureReporter.attachJson('Search verification', report);
+    if (report.violations.length > 0) {
+      await AllureReporter.attachCsv('Search violations', SearchVerifier.toCsv(report.violations));
+    }
+    console.log(SearchVerifier.format(report));
+    return report;
+  }
+
+  /**
+   * Verify the results and fail on any violation
+   * @param expectation - Sort order and min/max price the results should meet
+   * @param pages - Number of pages to walk
+   * @throws SearchResultsError listing the offending cards
+   */
+  async assertResults(expectation: SearchExpectation, pages: number = 3): Promise<SearchVerificationReport> {
+    const report = await this.verifyResults(expectation, pages);
+    if (report.violations.length > 0) {
+      throw new SearchResultsError(report.url, report.violations);
+    }
+    return report;
+  }
+
+  /**
+   * Read every card on the current page, sponsored ones included
+   * @param pageNumber - Current results page (recorded on each card)
+   * @returns Cards in the order shown
+   */
+  private async readResultCards(pageNumber: number): Promise<ResultCard[]> {
+    await this.waitForSettled();
+
+    const cards: ResultCard[] = [];
+    const cardElements = await (await this.find('search.resultCard')).all();
+
+    for (const [index, card] of cardElements.entries()) {
+      try {
+        const priceText = await (await this.find('search.cardPrice', { scope: card })).first().textContent();
+        const bounds = priceText ? PriceParser.parseBounds(priceText) : null;
+        if (!bounds) continue;
+
+        const result = await this.readSearchResult(card, bounds.min, pageNumber, index + 1);
+        if (!result) continue;
+
+        const rows = await this.locate('search.cardAttributeRows', card).allTextContents();
+        const listedAt = rows.map(row => ListingParser.parseListedAt(row)).find(time => time !== null) ?? null;
+        const sponsored = await this.locate('search.cardSponsored', card).count() > 0;
+
+        cards.push({ ...result, priceMax: bounds.max, sponsored, listedAt });
+      } catch (error) {
+        if (error instanceof BotDetectedError) throw error;
+        // Skip unreadable cards
+        continue;
+      }
+    }
+
+    console.log(`Read ${cards.length} cards from page ${pageNumber}`);
+    return cards;
+  }
+
+  /**
+   * Locate a left-rail facet group by its heading
+   */
+  private facetGroup(heading: string): Locator {
+    return this.facetGroups.filter({ has: this.locate('search.facetHeading').filter({ hasText: heading }) });
+  }
+
+  /**
+   * Click a facet option unless it is already checked
+   */
+  private async clickFacet(heading: string, label: string): Promise<void> {
+    const option = this.locate('search.facetOption', this.facetGroup(heading))
+      .filter({ has: this.page.getByText(label, { exact: true }) })
+      .first();
+
+    if (await option.getAttribute('aria-checked') === 'true') {
+      return;
+    }
+
+    await this.openFilterSheet();
+    await this.click(option);
+    await this.waitForPageLoad();
+    console.log(`Applied filter: ${heading} → ${label}`);
+  }
+
+  /**
+   * Mobile web keeps price range and facets in a sheet behind the "Refine" button; open it unless it is showing
+   * The desktop rail is always on the page
+   */
+  private async openFilterSheet(): Promise<void> {
+    if (this.layout !== 'mobile') {
+      return;
+    }
+
+    const sheet = this.locate('search.filterSheet').first();
+    if (await sheet.isVisible()) {
+      return;
+    }
+
+    await this.click((await this.find('search.refineButton', { timeout: config.timeout.element, visible: true })).first());
+    await sheet.waitFor({ state: 'visible', timeout: config.timeout.element });
+  }
+
+  /**
+   * Labels of checked options in a facet group
+   */
+  private async checkedFacetLabels(heading: string): Promise<string[]> {
+    const checkedOptions = this.facetGroup(heading).locator('[aria-checked="true"]');
+    const labels = await this.locate('search.facetOptionLabel', checkedOptions).allTextContents();
+    return labels.map(label => label.trim());
+  }
+
+  private keysForLabels<K extends string>(labels: Record<K, string>, texts: string[]): K[] {
+    return (Object.keys(labels) as K[]).filter(key => texts.includes(labels[key]));
+  }
+
   /**
    * Check if next page button exists
    * @returns True if next page is available
    */
   async hasNextPage(): Promise<boolean> {
     try {
-      const nextButton = await this.page.locator(this.nextPageSelector).first();
+      const nextButton = (await this.find('search.nextPage')).first();
       const isVisible = await nextButton.isVisible({ timeout: 3000 });
       const isDisabled = await nextButton.getAttribute('aria-disabled');
       return isVisible && isDisabled !== 'true';
@@ -197,12 +597,15 @@ export class SearchPage extends BasePage {
   /**
    * Navigate to next page
    */
+  @step('Go to next results page')
+  @measure('nextPage')
   async goToNextPage(): Promise<void> {
     try {
-      await this.nextPageButton.click();
+      await this.click((await this.find('search.nextPage')).first());
       await this.waitForPageLoad();
       console.log('Navigated to next page');
     } catch (error) {
+      if (error instanceof BotDetectedError) throw error;
       console.log('Could not navigate to next page');
     }
   }
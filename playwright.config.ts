@@ -1,4 +1,8 @@
 import { defineConfig, devices } from '@playwright/test';
+import { config } from './config/env.config';
+
+// Browser-free specs of pure utilities; the browser projects skip them
+const UNIT_SPECS = /unit\/.*\.spec\.ts/;
 
 /**
  * Read environment variables from file.
@@ -13,14 +17,14 @@ import { defineConfig, devices } from '@playwright/test';
  */
 export default defineConfig({
   testDir: './tests',
-  /* Run tests in files in parallel */
-  fullyParallel: false,
+  /* Run tests in files in parallel; each test gets its own context and guest cart (config.parallel) */
+  fullyParallel: true,
   /* Fail the build on CI if you accidentally left test.only in the source code. */
   forbidOnly: !!process.env.CI,
   /* Retry on CI only */
   retries: process.env.CI ? 2 : 0,
-  /* Opt out of parallel tests on CI. */
-  workers: 1,
+  /* Signed-in tests share the account's cart and must run one at a time */
+  workers: config.parallel.cartSession === 'account' ? 1 : config.parallel.workers,
   /* Timeout for each test */
   timeout: 300000,
   /* Reporter to use. See https://playwright.dev/docs/test-reporters */
@@ -31,56 +35,99 @@ export default defineConfig({
       outputFolder: 'allure-results',
       detail: true,
       suiteTitle: false,
-    }]
+      categories: [
+        { name: 'Cart data/page mismatch', messageRegex: '.*Cart data and page disagree[\\s\\S]*', matchedStatuses: ['failed', 'broken'] },
+        { name: 'Search results regression', messageRegex: '.*Search results violate[\\s\\S]*', matchedStatuses: ['failed', 'broken'] },
+      ],
+    }],
+    ['./utils/SelectorDriftReporter.ts'], // Selector fallback/drift summary
+    ['./utils/BrowserMatrixReporter.ts'], // Outcome per test and browser
+    ['./utils/RandomSeedReporter.ts'],    // Run seed, printed once
   ],
   /* Shared settings for all the projects below. See https://playwright.dev/docs/api/class-testoptions. */
   use: {
-    baseURL: 'https://www.ebay.com',
+    baseURL: config.baseURL,
+    locale: config.locale,
     trace: 'retain-on-failure',
     screenshot: 'only-on-failure',
     video: 'retain-on-failure',
     actionTimeout: 30000,
     navigationTimeout: 60000,
+    /* Service workers would answer requests before the HAR routes see them */
+    serviceWorkers: config.har.mode === 'off' ? 'allow' : 'block',
   },
 
 
   /* Configure projects for major browsers */
   projects: [
+    /* Signs in once and saves storageState for the browser projects */
+    {
+      name: 'setup',
+      testMatch: /.*\.setup\.ts/,
+    },
+
+    /* Parsers, loaders and verifiers; no browser or network needed (npm run test:unit) */
+    {
+      name: 'unit',
+      testMatch: UNIT_SPECS,
+    },
+
     {
       name: 'chromium',
-      use: { ...devices['Desktop Chrome'] },
+      testIgnore: UNIT_SPECS,
+      use: { ...devices['Desktop Chrome'], storageState: config.auth.storageStatePath },
+      dependencies: ['setup'],
+    },
+
+    {
+      name: 'firefox',
+      testIgnore: UNIT_SPECS,
+      use: { ...devices['Desktop Firefox'], storageState: config.auth.storageStatePath },
+      dependencies: ['setup'],
     },
 
-    // {
-    //   name: 'firefox',
-    //   use: { ...devices['Desktop Firefox'] },
-    // },
+    {
+      name: 'webkit',
+      testIgnore: UNIT_SPECS,
+      use: { ...devices['Desktop Safari'], storageState: config.auth.storageStatePath },
+      dependencies: ['setup'],
+    },
 
-    /* Test against mobile viewports. */
-    // {
-    //   name: 'Mobile Chrome',
-    //   use: { ...devices['Pixel 5'] },
-    // },
-    // {
-    //   name: 'Mobile Safari',
-    //   use: { ...devices['iPhone 12'] },
-    // },
+    /* Mobile web layout (page objects switch locators on phone viewports); shopping spec only */
+    {
+      name: 'Mobile Chrome',
+      testMatch: /ebay-shopping\.spec\.ts/,
+      use: { ...devices['Pixel 5'], storageState: config.auth.storageStatePath },
+      dependencies: ['setup'],
+    },
+    {
+      name: 'Mobile Safari',
+      testMatch: /ebay-shopping\.spec\.ts/,
+      use: { ...devices['iPhone 12'], storageState: config.auth.storageStatePath },
+      dependencies: ['setup'],
+    },
 
-    /* Test against branded browsers. */
-    // {
-    //   name: 'Microsoft Edge',
-    //   use: { ...devices['Desktop Edge'], channel: 'msedge' },
-    // },
-    // {
-    //   name: 'Google Chrome',
-    //   use: { ...devices['Desktop Chrome'], channel: 'chrome' },
-    // },
+    /* Branded browsers, when installed (BRANDED_BROWSERS=true) */
+    ...(config.browsers.branded ? [
+      {
+        name: 'Microsoft Edge',
+        testIgnore: UNIT_SPECS,
+        use: { ...devices['Desktop Edge'], channel: 'msedge', storageState: config.auth.storageStatePath },
+        dependencies: ['setup'],
+      },
+      {
+        name: 'Google Chrome',
+        testIgnore: UNIT_SPECS,
+        use: { ...devices['Desktop Chrome'], channel: 'chrome', storageState: config.auth.storageStatePath },
+        dependencies: ['setup'],
+      },
+    ] : []),
   ],
 
-  /* Run your local dev server before starting the tests */
-  // webServer: {
-  //   command: 'npm run start',
-  //   url: 'http://localhost:3000',
-  //   reuseExistingServer: !process.env.CI,
-  // },
+  /* Start the local eBay stand-in when running offline (EBAY_MOCK=true) */
+  webServer: config.mock.enabled ? {
+    command: 'npm run mock:server',
+    url: `${config.baseURL}/health`,
+    reuseExistingServer: !process.env.CI,
+  } : undefined,
 });
@@ -0,0 +1,143 @@
+import { chromium } from '@playwright/test';
+import { setGlobalTestRuntime, MessageHolderTestRuntime } from 'allure-js-commons/sdk/runtime';
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { SearchPage } from '../pages/SearchPage';
+import { ProductPage } from '../pages/ProductPage';
+import { CartPage } from '../pages/CartPage';
+import { config } from '../config/env.config';
+import { SelectorRegistry } from '../utils/SelectorRegistry';
+import { SelectorHealthCheck } from '../utils/SelectorHealthCheck';
+import { SearchUrlBuilder } from '../utils/SearchUrlBuilder';
+import { ListingParser } from '../utils/ListingParser';
+import { SelectorHealth, SelectorHealthReport } from '../models/SelectorHealth';
+import { SelectorKey } from '../config/selectors';
+
+/**
+ * Selector health check (npm run selectors:check)
+ * Opens a search results page, the first listing and the cart in a fresh guest session and probes
+ * every registry element of SearchPage, ProductPage and CartPage. Prints a table, writes
+ * config.selectors.healthReportPath and exits with 1 when a required element is missing.
+ *
+ * Options:
+ *   --query=<keyword>   Search to open (default: shoes)
+ *   --strict            Also fail when a required element only matches through a fallback
+ *   --no-add            Do not add the listing to the cart (cart rows and summary are then optional)
+ *   --output=<path>     JSON report path
+ */
+
+const args = process.argv.slice(2);
+const option = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
+const strict = args.includes('--strict');
+const addToCart = !args.includes('--no-add');
+const query = option('query') ?? 'shoes';
+const output = option('output') ?? config.selectors.healthReportPath;
+
+// An empty cart shows no rows and no summary; they are only required after an add
+const CART_CONTENT: SelectorKey[] = [
+  ...SelectorHealthCheck.withChildren('cart.lineItems'),
+  'cart.summaryRows',
+  'cart.total',
+  'cart.itemsCount',
+];
+
+// Page objects report Allure steps; outside the test runner they are held in memory and dropped
+setGlobalTestRuntime(new MessageHolderTestRuntime());
+
+async function main(): Promise<boolean> {
+  const browser = await chromium.launch();
+  const context = await browser.newContext({ locale: config.locale });
+  const page = await context.newPage();
+  page.setDefaultTimeout(config.timeout.element);
+
+  const elements: SelectorHealth[] = [];
+  const pages: Record<string, string> = {};
+  const failure = (error: unknown) => (error instanceof Error ? error.message : String(error)).split('\n')[0];
+
+  try {
+    // Search results
+    const searchPage = new SearchPage(page);
+    let itemUrl: string | null = null;
+    try {
+      await searchPage.goto(SearchUrlBuilder.build({ query }));
+      pages.search = page.url();
+      elements.push(...await SelectorHealthCheck.checkGroup(page, 'search'));
+
+      const card = SelectorRegistry.any(page, 'search.resultCard').first();
+      const href = await SelectorRegistry.any(card, 'search.cardLink').first().getAttribute('href').catch(() => null);
+      const itemId = href ? ListingParser.extractItemId(href) : null;
+      itemUrl = itemId ? ListingParser.canonicalUrl(itemId) : null;
+    } catch (error) {
+      elements.push(...SelectorHealthCheck.skipGroup('search', `search page failed: ${failure(error)}`));
+    }
+
+    // First listing
+    const productPage = new ProductPage(page);
+    let added = false;
+    if (!itemUrl) {
+      elements.push(...SelectorHealthCheck.skipGroup('product', 'no listing found on the search page'));
+    } else {
+      try {
+        await productPage.goto(itemUrl);
+        pages.product = page.url();
+        elements.push(...await SelectorHealthCheck.checkGroup(page, 'product'));
+
+        if (addToCart) {
+          await productPage.selectRandomVariants();
+          await productPage.addToCart();
+          added = true;
+        }
+      } catch (error) {
+        if (!pages.product) {
+          elements.push(...SelectorHealthCheck.skipGroup('product', `item page failed: ${failure(error)}`));
+        } else {
+          console.log(`⚠️  Could not add the listing to the cart: ${failure(error)}`);
+        }
+      }
+    }
+
+    // Cart
+    try {
+      await new CartPage(page).goto(config.cartURL);
+      pages.cart = page.url();
+      if (!added) {
+        console.log('Nothing was added to the cart: cart rows and summary are optional');
+      }
+      elements.push(...await SelectorHealthCheck.checkGroup(page, 'cart', added ? [] : CART_CONTENT));
+    } catch (error) {
+      elements.push(...SelectorHealthCheck.skipGroup('cart', `cart page failed: ${failure(error)}`));
+    }
+  } finally {
+    await browser.close();
+  }
+
+  const report: SelectorHealthReport = {
+    passed: SelectorHealthCheck.passed(elements, strict),
+    strict,
+    baseURL: config.baseURL,
+    marketplace: config.marketplace.id,
+    checkedAt: new Date().toISOString(),
+    pages,
+    elements,
+  };
+  mkdirSync(dirname(output), { recursive: true });
+  writeFileSync(output, JSON.stringify(report, null, 2));
+
+  console.log(`\n${SelectorHealthCheck.format(elements)}\n`);
+  const counts = ['ok', 'fallback', 'missing', 'skipped']
+    .map(status => `${elements.filter(element => element.status === status).length} ${status}`)
+    .join(', ');
+  console.log(`${report.passed ? '✓ Selector health check passed' : '❌ Selector health check failed'}: ${counts} (${output})`);
+  for (const failure of SelectorHealthCheck.failures(elements, strict)) {
+    const reason = failure.status === 'fallback' ? `matched only by fallback ${failure.matched} (--strict)` : failure.note ?? failure.status;
+    console.log(`  - ${failure.key}: ${reason}`);
+  }
+  return report.passed;
+}
+
+main()
+  .then(passed => process.exit(passed ? 0 : 1))
+  .catch(error => {
+    console.log('❌ Selector health check could not run:', error);
+    process.exit(2);
+  });
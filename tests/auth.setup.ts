@@ -0,0 +1,30 @@
+import { test as setup } from '@playwright/test';
+import { writeFileSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { LoginPage } from '../pages/LoginPage';
+import { config } from '../config/env.config';
+
+/**
+ * Authentication Setup
+ * Signs in once per run and saves the session (storageState) for all test projects.
+ * Without EBAY_USERNAME/EBAY_PASSWORD, or when CART_SESSION=guest is set explicitly for
+ * isolated guest carts, an empty Guest state is written instead.
+ */
+
+setup('authenticate', async ({ page }) => {
+  const { username, password } = config.credentials;
+  const storageStatePath = config.auth.storageStatePath;
+
+  if (!username || !password || config.parallel.cartSession === 'guest') {
+    console.log(username && password
+      ? `CART_SESSION=guest is set - not signing in as ${username}, saving empty Guest session (every test gets its own cart).`
+      : 'No credentials provided - saving empty Guest session.');
+    mkdirSync(dirname(storageStatePath), { recursive: true });
+    writeFileSync(storageStatePath, JSON.stringify({ cookies: [], origins: [] }));
+    return;
+  }
+
+  const loginPage = new LoginPage(page);
+  await loginPage.signIn(username, password);
+  await loginPage.saveStorageState(storageStatePath);
+});
@@ -0,0 +1,83 @@
+import { test, expect } from './fixtures';
+import { LoginPage } from '../pages/LoginPage';
+import { SearchPage } from '../pages/SearchPage';
+import { ProductPage } from '../pages/ProductPage';
+import { CartPage } from '../pages/CartPage';
+import { CheckoutPage } from '../pages/CheckoutPage';
+import testData from '../data/test-data.json';
+import { config } from '../config/env.config';
+import { PriceParser } from '../utils/PriceParser';
+import { SummaryParser } from '../utils/SummaryParser';
+import { AllureReporter } from '../utils/AllureReporter';
+import { ScenarioLoader } from '../utils/ScenarioLoader';
+import { SearchCriteria } from '../models/SearchCriteria';
+
+/**
+ * eBay Checkout Test Suite
+ * Cart → guest checkout → shipping address → delivery → order review (no purchase)
+ */
+
+test.describe('eBay Checkout E2E Tests', () => {
+  let loginPage: LoginPage;
+  let searchPage: SearchPage;
+  let productPage: ProductPage;
+  let cartPage: CartPage;
+  let checkoutPage: CheckoutPage;
+
+  test.beforeEach(async ({ page }) => {
+    // Initialize Page Objects
+    loginPage = new LoginPage(page);
+    searchPage = new SearchPage(page);
+    productPage = new ProductPage(page);
+    cartPage = new CartPage(page);
+    checkoutPage = new CheckoutPage(page);
+
+    // Login (reuses the session saved by auth.setup.ts; Guest mode without credentials)
+    await loginPage.login(config.credentials.username, config.credentials.password);
+  });
+
+  // First scenario that runs on this marketplace (skipped ones fill no cart); without one the test is
+  // skipped - throwing here would fail loading every spec of the run
+  const scenario = ScenarioLoader.load(config.scenarios.source)
+    .find(candidate => ScenarioLoader.skipReason(candidate, config.marketplace.id) === null);
+  test.skip(!scenario, `No runnable scenario in ${config.scenarios.source}: the source holds none, `
+    + `or every scenario is skipped or bound to another marketplace (active: "${config.marketplace.id}")`);
+
+  test(`${scenario?.name ?? 'No runnable scenario'} - Order review matches cart and budget`, async () => {
+    if (!scenario) return;
+
+    await AllureReporter.applyLabels({ epic: 'Shopping', feature: 'Checkout', story: 'Guest checkout to order review', severity: 'critical' });
+    await cartPage.clearCart();
+
+    // Step 1: Fill the cart (through the URL when the scenario sets filters)
+    const searchOptions = { includeShipping: scenario.includeShipping };
+    const criteria: SearchCriteria = { query: scenario.query, minPrice: scenario.minPrice, maxPrice: scenario.maxPrice, ...scenario.filters };
+    const searchResults = scenario.filters || scenario.minPrice !== undefined
+      ? await searchPage.searchItemsByCriteria(criteria, scenario.limit, searchOptions)
+      : await searchPage.searchItemsByNameUnderPrice(scenario.query, scenario.maxPrice, scenario.limit, searchOptions);
+    expect(searchResults.length).toBeGreaterThan(0);
+    const addedItems = await productPage.addItemsToCart(searchResults, scenario.requiredVariants);
+
+    // Step 2: Read cart totals
+    await cartPage.openCart();
+    const cartSummary = await cartPage.getCartSummary();
+
+    // Step 3: Checkout as guest up to the review step (standard delivery keeps cart shipping)
+    const orderSummary = await checkoutPage.checkoutAsGuestToReview(testData.checkout.shippingAddress);
+
+    // Items and shipping must match the cart; tax is recalculated for the shipping address
+    expect(orderSummary.itemSubtotal).toBeCloseTo(cartSummary.itemSubtotal, 2);
+    expect(orderSummary.shipping).toBeCloseTo(cartSummary.shipping, 2);
+    expect(orderSummary.orderTotal).toBeCloseTo(
+      orderSummary.itemSubtotal + orderSummary.shipping + (orderSummary.tax ?? 0),
+      2
+    );
+
+    // Budget applies to the order as well
+    const mode = scenario.budgetMode;
+    const budgetedAmount = SummaryParser.budgetedAmount(orderSummary, mode);
+    const threshold = scenario.maxPrice * addedItems.length;
+    expect(budgetedAmount, `Order ${mode} exceeds budget`).toBeLessThanOrEqual(threshold);
+    console.log(`✓ Order ${mode}: ${PriceParser.format(budgetedAmount)} <= ${PriceParser.format(threshold)}`);
+  });
+});
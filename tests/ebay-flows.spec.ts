@@ -0,0 +1,38 @@
+import { test } from './fixtures';
+import * as allure from 'allure-js-commons';
+import { LoginPage } from '../pages/LoginPage';
+import { config } from '../config/env.config';
+import { AllureReporter } from '../utils/AllureReporter';
+import { FlowLoader } from '../utils/FlowLoader';
+import { FlowRunner } from './flow-runner';
+
+/**
+ * eBay Flow Test Suite
+ * One test per flow from config.flows.source (flows.json by default); each step is an Allure step
+ */
+
+test.describe('eBay Shopping Flows', () => {
+  let runner: FlowRunner;
+
+  test.beforeEach(async ({ page }) => {
+    runner = new FlowRunner(page);
+
+    // Login (reuses the session saved by auth.setup.ts; Guest mode without credentials)
+    await new LoginPage(page).login(config.credentials.username, config.credentials.password);
+  });
+
+  for (const flow of FlowLoader.load(config.flows.source)) {
+    test(flow.name, { tag: flow.tags.map(tag => `@${tag}`) }, async () => {
+      await AllureReporter.applyLabels(flow.labels ?? {});
+      if (flow.description) await allure.description(flow.description);
+
+      console.log(`\n========================================`);
+      console.log(`FLOW: ${flow.name} (${flow.steps.length} steps)`);
+      console.log(`========================================`);
+
+      await runner.run(flow);
+
+      console.log(`\n✓ Flow passed: ${flow.name}`);
+    });
+  }
+});
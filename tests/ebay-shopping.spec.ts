@@ -1,9 +1,16 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from './fixtures';
+import * as allure from 'allure-js-commons';
 import { LoginPage } from '../pages/LoginPage';
 import { SearchPage } from '../pages/SearchPage';
 import { ProductPage } from '../pages/ProductPage';
 import { CartPage } from '../pages/CartPage';
-import testData from '../data/test-data.json';
+import { config } from '../config/env.config';
+import { SearchCriteria } from '../models/SearchCriteria';
+import { CartData } from '../models/CartData';
+import { PriceParser } from '../utils/PriceParser';
+import { BotDetectedError, CartDataMismatchError } from '../utils/Errors';
+import { AllureReporter } from '../utils/AllureReporter';
+import { ScenarioLoader } from '../utils/ScenarioLoader';
 
 /**
  * eBay E2E Shopping Test Suite
@@ -23,130 +30,189 @@ test.describe('eBay Shopping E2E Tests', () => {
     productPage = new ProductPage(page);
     cartPage = new CartPage(page);
 
-    // Login (Guest mode)
-    await loginPage.login();
+    // Login (reuses the session saved by auth.setup.ts; Guest mode without credentials)
+    await loginPage.login(config.credentials.username, config.credentials.password);
   });
 
   /**
    * Data-Driven Test: Search and Add Items to Cart
-   * Tests each scenario from test-data.json
+   * Tests each scenario from config.scenarios.source (test-data.json by default)
    */
-  for (const scenario of testData.scenarios) {
-    test(`${scenario.name} - Search, Add to Cart, and Validate Total`, async ({ page }) => {
+  for (const scenario of ScenarioLoader.load(config.scenarios.source)) {
+    const skipReason = ScenarioLoader.skipReason(scenario, config.marketplace.id);
+    const declare = skipReason ? test.skip : scenario.only ? test.only : test;
+    const details = {
+      tag: scenario.tags.map(tag => `@${tag}`),
+      annotation: skipReason ? { type: 'skip', description: skipReason } : undefined,
+    };
+
+    declare(`${scenario.name} - Search, Add to Cart, and Validate Total`, details, async () => {
+      await AllureReporter.applyLabels(scenario.labels ?? {});
+      if (scenario.description) await allure.description(scenario.description);
+
       console.log(`\n========================================`);
       console.log(`TEST: ${scenario.name}`);
       console.log(`Description: ${scenario.description}`);
-      console.log(`Query: "${scenario.query}" | Max Price: $${scenario.maxPrice} | Limit: ${scenario.limit}`);
+      console.log(`Query: "${scenario.query}" | Max Price: ${PriceParser.format(scenario.maxPrice)} | Limit: ${scenario.limit}`);
       console.log(`========================================\n`);
 
-      // Step 1: Search for items under specified price
+      // Start from an empty cart so the reconciliation only sees this run's items
+      await cartPage.clearCart();
+
+      // Step 1: Search for items under specified price (through the URL when the scenario sets filters)
       console.log('STEP 1: Searching for items...');
-      const productUrls = await searchPage.searchItemsByNameUnderPrice(
-        scenario.query,
-        scenario.maxPrice,
-        scenario.limit
-      );
-
-      console.log(`\nFound ${productUrls.length} items within budget`);
-      expect(productUrls.length).toBeGreaterThan(0);
-
-      // Log collected URLs
-      productUrls.forEach((url, index) => {
-        console.log(`  ${index + 1}. ${url.substring(0, 80)}...`);
+      const searchOptions = { includeShipping: scenario.includeShipping };
+      const criteria: SearchCriteria = { query: scenario.query, minPrice: scenario.minPrice, maxPrice: scenario.maxPrice, ...scenario.filters };
+      const searchResults = scenario.filters || scenario.minPrice !== undefined
+        ? await searchPage.searchItemsByCriteria(criteria, scenario.limit, searchOptions)
+        : await searchPage.searchItemsByNameUnderPrice(scenario.query, scenario.maxPrice, scenario.limit, searchOptions);
+
+      console.log(`\nFound ${searchResults.length} items within budget`);
+      expect(searchResults.length).toBeGreaterThanOrEqual(scenario.expectedMinResults);
+
+      // Log collected items (the search step attaches them to the report)
+      searchResults.forEach((item, index) => {
+        console.log(`  ${index + 1}. [p${item.page}#${item.position}] ${PriceParser.format(item.price)} - ${item.title} (${item.url})`);
       });
 
       // Step 2: Add items to cart with variant selection
       console.log('\n\nSTEP 2: Adding items to cart...');
-      await productPage.addItemsToCart(productUrls);
+      const addedItems = await productPage.addItemsToCart(searchResults, scenario.requiredVariants);
 
       // Step 3: Validate cart total
       console.log('\n\nSTEP 3: Validating cart total...');
-      await cartPage.assertCartTotalNotExceeds(scenario.maxPrice, productUrls.length);
+      await cartPage.assertCartTotalNotExceeds(scenario.maxPrice, addedItems, scenario.budgetMode);
 
       console.log(`\n✓ Test passed: ${scenario.name}`);
     });
   }
 
   /**
-   * Individual Test Functions (as specified in requirements)
+   * Search Filters Test: criteria applied via URL and via the left rail are reported back as active
+   */
+  for (const mode of ['url', 'facets'] as const) {
+    test(`Search filters are applied and read back (${mode})`, async () => {
+      await AllureReporter.applyLabels({ epic: 'Shopping', feature: 'Search', story: 'Filters', severity: 'normal' });
+      const criteria: SearchCriteria = {
+        query: 'shoes',
+        minPrice: 20,
+        conditions: ['new'],
+        buyingFormat: 'buyItNow',
+        freeShipping: true,
+        sortOrder: 'pricePlusShippingLowest',
+        location: 'domestic',
+      };
+
+      const activeFilters = await searchPage.searchWithCriteria(criteria, mode);
+      const { query, ...expectedFilters } = criteria;
+      expect(activeFilters).toEqual(expectedFilters);
+    });
+  }
+
+  /**
+   * Sort Order Test: results over several pages follow the sort order and stay inside the price filter
+   */
+  for (const sortOrder of ['pricePlusShippingLowest', 'pricePlusShippingHighest', 'newlyListed'] as const) {
+    test(`Results follow the sort order and price filter across pages (${sortOrder})`, async () => {
+      await AllureReporter.applyLabels({ epic: 'Shopping', feature: 'Search', story: 'Sort order', severity: 'normal' });
+      const expectation = { sortOrder, minPrice: 20, maxPrice: 200 };
+
+      await searchPage.searchWithCriteria({ query: 'shoes', ...expectation });
+      const report = await searchPage.assertResults(expectation, 3);
+      expect(report.itemsChecked).toBeGreaterThan(0);
+    });
+  }
+
+  /**
+   * Variant Selection Test: every SKU dimension gets an in-stock value and Add to Cart stays enabled
+   */
+  test('Variant selection picks in-stock values for every dimension', async () => {
+    await AllureReporter.applyLabels({ epic: 'Shopping', feature: 'Product page', story: 'Variant selection', severity: 'critical' });
+    const [item] = await searchPage.searchItemsByNameUnderPrice('shoes', 220, 1);
+    expect(item).toBeDefined();
+
+    await productPage.goto(item.url);
+    const dimensions = await productPage.getSkuDimensions();
+    const selection = await productPage.selectRandomVariants();
+
+    expect(Object.keys(selection)).toEqual(dimensions.map(dimension => dimension.name));
+    for (const dimension of dimensions) {
+      const inStock = dimension.values.filter(value => value.available).map(value => value.value);
+      expect(inStock).toContain(selection[dimension.name]);
+    }
+    expect(await productPage.isAddToCartEnabled()).toBe(true);
+  });
+
+  /**
+   * Cart Operations Test: quantity change, save for later, move to cart and remove each update the totals
    */
+  test('Cart line operations update totals', async () => {
+    await AllureReporter.applyLabels({ epic: 'Shopping', feature: 'Cart', story: 'Line operations', severity: 'normal' });
+    await cartPage.clearCart();
+
+    const items = await searchPage.searchItemsByNameUnderPrice('mug', 100, 2);
+    const addedItems = await productPage.addItemsToCart(items);
+    expect(addedItems).toHaveLength(2);
+    const [first, second] = addedItems;
+
+    await cartPage.openCart();
+    let summary = await cartPage.updateQuantity(first.itemId, 2);
+    expect(summary.itemSubtotal).toBeCloseTo(first.addedPrice * 2 + second.addedPrice, 2);
+
+    summary = await cartPage.saveForLater(second.itemId);
+    expect(await cartPage.getSavedItemIds()).toContain(second.itemId);
+    expect(summary.itemSubtotal).toBeCloseTo(first.addedPrice * 2, 2);
+
+    summary = await cartPage.moveToCart(second.itemId);
+    expect(await cartPage.getSavedItemIds()).not.toContain(second.itemId);
+    expect(summary.itemSubtotal).toBeCloseTo(first.addedPrice * 2 + second.addedPrice, 2);
+
+    summary = await cartPage.removeItem(first.itemId);
+    expect(summary.itemSubtotal).toBeCloseTo(second.addedPrice, 2);
+
+    await cartPage.clearCart();
+    expect(await cartPage.getLineItems()).toHaveLength(0);
+  });
 
-//   test('searchItemsByNameUnderPrice Function Test', async ({ page }) => {
-//     const query = 'laptop';
-//     const maxPrice = 500;
-//     const limit = 5;
-
-//     console.log(`Testing searchItemsByNameUnderPrice("${query}", ${maxPrice}, ${limit})`);
-
-//     const urls = await searchPage.searchItemsByNameUnderPrice(query, maxPrice, limit);
-
-//     console.log(`Found ${urls.length} items`);
-//     expect(urls).toBeInstanceOf(Array);
-//     expect(urls.length).toBeGreaterThanOrEqual(0);
-//     expect(urls.length).toBeLessThanOrEqual(limit);
-//   });
-
-//   test('addItemsToCart Function Test', async ({ page }) => {
-//     // First get some items
-//     const urls = await searchPage.searchItemsByNameUnderPrice('mouse', 30, 2);
-
-//     if (urls.length > 0) {
-//       console.log(`Testing addItemsToCart with ${urls.length} items`);
-//       await productPage.addItemsToCart(urls);
-
-//       // Verify items were added
-//       await cartPage.openCart();
-//       const itemsCount = await cartPage.getItemsCount();
-//       console.log(`Cart now contains ${itemsCount} items`);
-//       expect(itemsCount).toBeGreaterThan(0);
-//     } else {
-//       console.log('No items found - skipping addItemsToCart test');
-//     }
-//   });
-
-//   test('assertCartTotalNotExceeds Function Test', async ({ page }) => {
-//     // Search and add items first
-//     const query = 'keyboard';
-//     const maxPrice = 100;
-//     const limit = 3;
-
-//     const urls = await searchPage.searchItemsByNameUnderPrice(query, maxPrice, limit);
-
-//     if (urls.length > 0) {
-//       await productPage.addItemsToCart(urls);
-
-//       console.log(`Testing assertCartTotalNotExceeds(${maxPrice}, ${urls.length})`);
-//       await cartPage.assertCartTotalNotExceeds(maxPrice, urls.length);
-//     } else {
-//       console.log('No items found - skipping assertion test');
-//     }
-//   });
-
-//   /**
-//    * Edge Case Test: Handle items with variants
-//    */
-//   test('Variant Selection Test - Items with Size/Color', async ({ page }) => {
-//     const urls = await searchPage.searchItemsByNameUnderPrice('shirt', 50, 2);
-
-//     if (urls.length > 0) {
-//       console.log('Testing variant selection on clothing items');
-//       await productPage.addItemsToCart(urls);
-
-//       await cartPage.openCart();
-//       const itemsCount = await cartPage.getItemsCount();
-//       expect(itemsCount).toBeGreaterThan(0);
-//       console.log('✓ Successfully handled items with variants');
-//     }
-//   });
-
-//   /**
-//    * Pagination Test: Ensure we can collect items from multiple pages
-//    */
-//   test('Pagination Test - Collect items from multiple pages', async ({ page }) => {
-//     // Search for common term with low price to force pagination
-//     const urls = await searchPage.searchItemsByNameUnderPrice('cable', 10, 8);
-
-//     console.log(`Collected ${urls.length} items (potentially from multiple pages)`);
-//     expect(urls.length).toBeGreaterThan(0);
-//   });
+  /**
+   * Cart Data Test: a cart page that renders other numbers than the cart service sent fails with its own error
+   */
+  test('Cart data that disagrees with the page is reported as a mismatch', async ({ page }) => {
+    await AllureReporter.applyLabels({ epic: 'Shopping', feature: 'Cart', story: 'Cart data cross-check', severity: 'normal' });
+    const origin = new URL(config.cartURL).origin;
+    await page.route(`${origin}/api/cart`, route => route.fulfill({ json: {
+      lineItems: [{ listingId: '111111111111', title: 'Test item', quantity: 1, price: { value: 20 } }],
+      summary: { itemSubtotal: { value: 20 }, shipping: { value: 0 }, total: { value: 20 } },
+    } }));
+    await page.route(`${origin}/cart-data-check`, route => route.fulfill({ contentType: 'text/html', body: `
+      <div class="cart-bucket-lineitem" data-listing-id="111111111111">
+        <a class="item-title" href="/itm/111111111111">Test item</a><div class="item-price">$25.00</div>
+      </div>
+      <div class="cart-bucket-summary">
+        <div class="cart-summary-line-item"><span>Items (1)</span><span>$25.00</span></div>
+        <div data-test-id="SUBTOTAL" class="total-row"><span>Subtotal</span><span class="text-display-24">$25.00</span></div>
+      </div>
+      <script>fetch('/api/cart');</script>` }));
+
+    const data = await cartPage.captureCartData(() => cartPage.goto(`${origin}/cart-data-check`));
+    expect(data?.lineItems.map(line => line.itemId)).toEqual(['111111111111']);
+    await expect(cartPage.crossCheckCartData(data as CartData)).rejects.toThrow(CartDataMismatchError);
+  });
+
+  /**
+   * Interstitials Test: overlays are dismissed, bot checks fail with a typed error
+   */
+  test('Interstitials are dismissed or stop the run', async ({ page }) => {
+    await AllureReporter.applyLabels({ epic: 'Resilience', feature: 'Interstitials', severity: 'normal' });
+    await page.setContent(`
+      <div id="survey-overlay" role="dialog"><p>Tell us about your visit</p><button>No thanks</button></div>
+      <script>
+        document.querySelector('#survey-overlay button').addEventListener('click', () => document.getElementById('survey-overlay').remove());
+      </script>`);
+    await searchPage.handleInterstitials();
+    await expect(page.locator('#survey-overlay')).toHaveCount(0);
+
+    await page.setContent('<div id="px-captcha">Please verify you are a human</div>');
+    await expect(searchPage.handleInterstitials()).rejects.toThrow(BotDetectedError);
+  });
 });
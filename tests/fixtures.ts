@@ -0,0 +1,116 @@
+import { test as base } from '@playwright/test';
+import * as allure from 'allure-js-commons';
+import { RandomSelector } from '../utils/RandomSelector';
+import { SelectorRegistry } from '../utils/SelectorRegistry';
+import { SELECTOR_USAGE_ATTACHMENT } from '../utils/SelectorDriftReporter';
+import { BROWSER_DEVIATION_ANNOTATION } from '../utils/BrowserMatrixReporter';
+import { HarRecorder } from '../utils/HarRecorder';
+import { BasePage } from '../pages/BasePage';
+import { PerformanceMonitor } from '../utils/PerformanceMonitor';
+import { AllureReporter } from '../utils/AllureReporter';
+import { HarReplayError, PerformanceBudgetError } from '../utils/Errors';
+import { config } from '../config/env.config';
+import { deviationsFor } from '../config/browsers';
+
+/**
+ * Test Fixtures
+ * Extends the Playwright test with per-test setup shared by all specs
+ */
+
+type Fixtures = {
+  /** Seed the RandomSelector was reset to for this test */
+  randomSeed: number;
+  /** Records which selector candidates matched; attached for the drift report */
+  selectorUsage: void;
+  /** HAR_MODE=record|replay: captures or serves this test's search, item and cart traffic */
+  harTraffic: void;
+  /** Page-open and action metrics: attached as a table, appended to the history file */
+  performanceMetrics: void;
+  /** Browser parameter for the report matrix; known deviations of the browser are annotated on the test */
+  browserDeviations: void;
+  /** Interstitial registry reset to the built-in entries, so one a test registers never leaks into the next */
+  interstitials: void;
+};
+
+export const test = base.extend<Fixtures>({
+  // Reseed before every test so variant choices replay with the same RANDOM_SEED
+  randomSeed: [async ({}, use, testInfo) => {
+    const seed = RandomSelector.deriveSeed(config.random.seed, testInfo.titlePath.join(' › '));
+    RandomSelector.setSeed(seed);
+    await allure.parameter('RANDOM_SEED', String(config.random.seed), { excluded: true });
+    await use(seed);
+  }, { auto: true }],
+
+  selectorUsage: [async ({}, use, testInfo) => {
+    SelectorRegistry.reset();
+    await use();
+    const usage = SelectorRegistry.getUsage();
+    if (usage.length > 0) {
+      await testInfo.attach(SELECTOR_USAGE_ATTACHMENT, { body: JSON.stringify(usage), contentType: 'application/json' });
+    }
+  }, { auto: true }],
+
+  harTraffic: [async ({ context, randomSeed }, use, testInfo) => {
+    if (config.har.mode === 'record') {
+      await HarRecorder.record(context, testInfo, randomSeed);
+      await use();
+      return;
+    }
+    if (config.har.mode !== 'replay') {
+      await use();
+      return;
+    }
+
+    const { har, recording, unmatched } = await HarRecorder.replay(context, testInfo);
+    RandomSelector.setSeed(recording.seed);
+    await allure.parameter('HAR', har, { excluded: true });
+    await use();
+    if (unmatched.length > 0 && config.har.unmatched === 'fail') {
+      throw new HarReplayError(har, unmatched);
+    }
+  }, { auto: true }],
+
+  performanceMetrics: [async ({}, use, testInfo) => {
+    PerformanceMonitor.reset();
+    await use();
+    const steps = PerformanceMonitor.getMetrics();
+    if (steps.length === 0) {
+      return;
+    }
+
+    await AllureReporter.attachCsv('Performance', PerformanceMonitor.toCsv(steps));
+    PerformanceMonitor.appendHistory({
+      runAt: new Date().toISOString(),
+      test: testInfo.titlePath.join(' › '),
+      project: testInfo.project.name,
+      marketplace: config.marketplace.id,
+      baseURL: config.baseURL,
+      steps,
+    });
+
+    const violations = steps.flatMap(entry => entry.violations.map(violation => `${entry.step} (${entry.url}): ${violation}`));
+    if (violations.length > 0 && config.performance.budgetMode === 'fail') {
+      throw new PerformanceBudgetError(violations);
+    }
+  }, { auto: true }],
+
+  browserDeviations: [async ({ browserName }, use, testInfo) => {
+    await allure.parameter('Browser', testInfo.project.name);
+    for (const deviation of deviationsFor(browserName, testInfo.titlePath.join(' › '))) {
+      testInfo.annotations.push({ type: BROWSER_DEVIATION_ANNOTATION, description: `${browserName}: ${deviation.description}` });
+      await allure.label('browserDeviation', `${browserName}: ${deviation.description}`);
+      if (deviation.expectation === 'fail') {
+        testInfo.fail(true, deviation.description);
+      }
+    }
+    await use();
+  }, { auto: true }],
+
+  interstitials: [async ({}, use) => {
+    BasePage.resetInterstitials();
+    await use();
+    BasePage.resetInterstitials();
+  }, { auto: true }],
+});
+
+export { expect } from '@playwright/test';
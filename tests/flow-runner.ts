@@ -0,0 +1,162 @@
+import { Page } from '@playwright/test';
+import * as allure from 'allure-js-commons';
+import { expect } from './fixtures';
+import { SearchPage } from '../pages/SearchPage';
+import { ProductPage } from '../pages/ProductPage';
+import { CartPage } from '../pages/CartPage';
+import { Flow, FlowStep } from '../models/Flow';
+import { SearchCriteria } from '../models/SearchCriteria';
+import { SearchResult } from '../models/SearchResult';
+import { AddedItem } from '../models/CartLineItem';
+import { VariantSelection } from '../models/SkuDimension';
+import { AllureReporter } from '../utils/AllureReporter';
+import { FlowLoader } from '../utils/FlowLoader';
+import { PriceParser } from '../utils/PriceParser';
+
+/**
+ * FlowRunner - Runs the steps of a flow (data/flows.json) against the page objects
+ * State (current search, picked results, open listing, added items) carries from one step to the next
+ */
+export class FlowRunner {
+  private readonly searchPage: SearchPage;
+  private readonly productPage: ProductPage;
+  private readonly cartPage: CartPage;
+
+  private criteria: SearchCriteria | null = null;
+  private results: SearchResult[] = [];
+  private openItem: { item: SearchResult; price: number; variants?: VariantSelection } | null = null;
+  private added: AddedItem[] = [];
+
+  constructor(page: Page) {
+    this.searchPage = new SearchPage(page);
+    this.productPage = new ProductPage(page);
+    this.cartPage = new CartPage(page);
+  }
+
+  /**
+   * Run every step of a flow in order, each as an Allure step with its arguments as parameters
+   * @param flow - Validated flow
+   * @returns Items added to the cart during the flow
+   */
+  async run(flow: Flow): Promise<AddedItem[]> {
+    for (const [i, flowStep] of flow.steps.entries()) {
+      const title = FlowLoader.describeStep(flowStep);
+      console.log(`\nSTEP ${i + 1}/${flow.steps.length}: ${title}`);
+
+      await allure.step(`${i + 1}. ${title}`, async context => {
+        const { step: _name, ...args } = flowStep;
+        for (const [name, value] of Object.entries(args)) {
+          await context.parameter(name, AllureReporter.formatParameter(value));
+        }
+        await this.runStep(flowStep);
+      });
+    }
+    return this.added;
+  }
+
+  private async runStep(flowStep: FlowStep): Promise<void> {
+    switch (flowStep.step) {
+      case 'clearCart':
+        await this.cartPage.clearCart();
+        this.added = [];
+        return;
+
+      case 'search':
+        await this.searchPage.searchByKeyword(flowStep.query);
+        this.criteria = { query: flowStep.query };
+        this.results = [];
+        return;
+
+      case 'filter': {
+        const { step: _name, mode, ...filters } = flowStep;
+        const criteria: SearchCriteria = { ...this.requireSearch('filter'), ...filters };
+        await this.searchPage.searchWithCriteria(criteria, mode ?? 'url');
+        this.criteria = criteria;
+        this.results = [];
+        return;
+      }
+
+      case 'pickResults': {
+        const criteria = this.requireSearch('pickResults');
+        const maxPrice = flowStep.maxPrice ?? criteria.maxPrice ?? Infinity;
+        this.results = await this.searchPage.collectResults(flowStep.count, maxPrice, { includeShipping: flowStep.includeShipping });
+        this.results.forEach((item, index) => {
+          console.log(`  ${index}. ${PriceParser.format(item.price)} - ${item.title}`);
+        });
+        expect(this.results.length, 'pickResults found no listings').toBeGreaterThan(0);
+        return;
+      }
+
+      case 'openItem': {
+        const item = this.results[flowStep.index];
+        if (!item) {
+          throw new Error(`openItem: index ${flowStep.index} is out of range (${this.results.length} picked results)`);
+        }
+        await this.productPage.goto(item.url);
+        this.openItem = { item, price: await this.productPage.getProductPrice() };
+        return;
+      }
+
+      case 'selectVariant': {
+        const open = this.requireOpenItem('selectVariant');
+        open.variants = await this.productPage.selectRandomVariants(flowStep.values);
+        return;
+      }
+
+      case 'addToCart':
+        if (flowStep.all) {
+          if (this.results.length === 0) throw new Error('addToCart: "all" needs a pickResults step first');
+          this.added.push(...await this.productPage.addItemsToCart(this.results));
+          return;
+        }
+        await this.addOpenItem();
+        return;
+
+      case 'removeFromCart': {
+        const index = flowStep.index ?? this.added.length - 1;
+        const [removed] = index >= 0 ? this.added.splice(index, 1) : [];
+        if (!removed) {
+          throw new Error(`removeFromCart: index ${flowStep.index ?? 'last'} is out of range (${this.added.length} added items)`);
+        }
+        await this.cartPage.openCart();
+        await this.cartPage.removeItem(removed.itemId);
+        return;
+      }
+
+      case 'assertCart':
+        await this.cartPage.assertCartTotalNotExceeds(flowStep.maxPrice, this.added, flowStep.budgetMode ?? 'subtotal');
+        if (flowStep.itemCount !== undefined) {
+          expect(await this.cartPage.getItemsCount(), 'items in cart').toBe(flowStep.itemCount);
+        }
+        return;
+    }
+  }
+
+  /**
+   * Add the open listing; variants are picked at random when no selectVariant step ran
+   */
+  private async addOpenItem(): Promise<void> {
+    const open = this.requireOpenItem('addToCart');
+    open.variants ??= await this.productPage.selectRandomVariants();
+    await this.productPage.addToCart();
+    await this.productPage.takeScreenshot(`flow_item_${this.added.length + 1}_added`);
+
+    this.added.push({
+      ...open.item,
+      variants: open.variants,
+      quantity: 1,
+      addedPrice: open.price > 0 ? open.price : open.item.price,
+    });
+    this.openItem = null;
+  }
+
+  private requireSearch(stepName: string): SearchCriteria {
+    if (!this.criteria) throw new Error(`${stepName}: needs a search step first`);
+    return this.criteria;
+  }
+
+  private requireOpenItem(stepName: string): NonNullable<FlowRunner['openItem']> {
+    if (!this.openItem) throw new Error(`${stepName}: needs an openItem step first`);
+    return this.openItem;
+  }
+}
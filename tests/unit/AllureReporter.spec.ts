@@ -0,0 +1,42 @@
+import { test, expect } from '@playwright/test';
+import { AllureReporter } from '../../utils/AllureReporter';
+import { BasePage } from '../../pages/BasePage';
+import { SearchPage } from '../../pages/SearchPage';
+
+/**
+ * AllureReporter unit tests: step titles and parameters of decorated page object methods
+ */
+
+test.describe('AllureReporter', () => {
+  test('decorated methods keep their own parameter names', () => {
+    // goto carries @step and @measure; the wrappers must not hide "url"
+    expect(AllureReporter.parameterNames(BasePage.prototype.goto)).toEqual(['url']);
+    expect(AllureReporter.parameterNames(SearchPage.prototype.searchByKeyword)).toEqual(['query']);
+  });
+
+  test('goto step title contains the URL', () => {
+    const url = 'https://www.ebay.com/sch/i.html?_nkw=shoes';
+    const title = AllureReporter.stepTitle('Open {url}', AllureReporter.parameters(BasePage.prototype.goto), [url]);
+    expect(title).toBe(`Open ${url}`);
+  });
+
+  test('left-out arguments show their default value', () => {
+    const parameters = AllureReporter.parameters(SearchPage.prototype.searchItemsByNameUnderPrice);
+    const title = AllureReporter.stepTitle('Collect up to {limit} "{query}" items under {maxPrice}', parameters, ['shoes', 50]);
+    expect(title).toBe('Collect up to 5 "shoes" items under 50');
+  });
+
+  test('placeholders without a value or literal default are dropped', () => {
+    const parameters = AllureReporter.parameters(function (query: string, options: object = {}) {
+      return [query, options];
+    });
+    expect(AllureReporter.stepTitle('Search {query} {options} {unknown}', parameters, ['shoes'])).toBe('Search shoes');
+  });
+
+  test('destructured parameters are named by position', () => {
+    const names = AllureReporter.parameterNames(function (first: string, { second }: { second: number }, ...rest: unknown[]) {
+      return [first, second, rest];
+    });
+    expect(names).toEqual(['first', 'arg1', 'rest']);
+  });
+});
@@ -0,0 +1,89 @@
+import { test, expect } from '@playwright/test';
+import { config } from '../../config/env.config';
+import { CartDataParser } from '../../utils/CartDataParser';
+import { CartLineItem } from '../../models/CartLineItem';
+import { CartSummary } from '../../models/CartSummary';
+
+/**
+ * CartDataParser unit tests: cart service JSON shapes, comparison with the rendered cart, report text
+ */
+
+const SERVICE_URL = `${config.cartURL}api/cart`;
+
+function row(itemId: string, quantity: number, lineTotal: number): CartLineItem {
+  return { itemId, title: `Item ${itemId}`, variants: {}, quantity, unitPrice: lineTotal / quantity, lineTotal, warnings: [] };
+}
+
+test.describe('CartDataParser', () => {
+  test('finds nested line items and the summary under their key aliases', () => {
+    const body = {
+      modules: {
+        cartDetails: {
+          sellers: [{
+            items: [
+              { listingId: '111', itemTitle: 'Mug', qty: 2, price: { value: 7.5 }, variations: [{ name: 'Color', value: 'Blue' }] },
+              { itemId: 222, title: 'Plate', totalPrice: '$12.00', aspects: { Size: 'L' } },
+            ],
+          }],
+        },
+        summary: { subtotal: '$27.00', shippingCost: 'Free', estimatedTax: 2.16, grandTotal: { amount: 29.16 } },
+      },
+    };
+
+    expect(CartDataParser.parse(body, SERVICE_URL)).toEqual({
+      url: SERVICE_URL,
+      lineItems: [
+        { itemId: '111', title: 'Mug', variants: { Color: 'Blue' }, quantity: 2, unitPrice: 7.5, lineTotal: 15 },
+        { itemId: '222', title: 'Plate', variants: { Size: 'L' }, quantity: 1, unitPrice: 12, lineTotal: 12 },
+      ],
+      summary: { itemSubtotal: 27, shipping: 0, tax: 2.16, orderTotal: 29.16 },
+    });
+  });
+
+  test('derives the item subtotal from the total when it is missing', () => {
+    const data = CartDataParser.parse({ lineItems: [{ itemId: '1', price: 10 }], totals: { shipping: 4, total: 14 } }, SERVICE_URL);
+    expect(data?.summary).toEqual({ itemSubtotal: 10, shipping: 4, tax: null, orderTotal: 14 });
+  });
+
+  test('reads an empty cart and ignores unrelated JSON', () => {
+    expect(CartDataParser.parse({ cart: { lineItems: [] } }, SERVICE_URL)).toEqual({ url: SERVICE_URL, lineItems: [], summary: null });
+    expect(CartDataParser.parse({ user: { name: 'guest' } }, SERVICE_URL)).toBeNull();
+  });
+
+  test('accepts only JSON responses from the cart origin', () => {
+    expect(CartDataParser.isCartService(SERVICE_URL, 'application/json; charset=utf-8')).toBe(true);
+    expect(CartDataParser.isCartService(SERVICE_URL, 'text/html')).toBe(false);
+    expect(CartDataParser.isCartService('https://example.com/cart', 'application/json')).toBe(false);
+    expect(CartDataParser.isCartService('not a url', 'application/json')).toBe(false);
+  });
+
+  test('lists every disagreement with the rendered cart', () => {
+    const data = CartDataParser.parse({
+      lineItems: [{ itemId: '1', quantity: 2, lineTotal: 20 }, { itemId: '2', lineTotal: 5 }],
+      summary: { itemSubtotal: 25, shipping: 0, orderTotal: 25 },
+    }, SERVICE_URL)!;
+    const summary: CartSummary = { itemSubtotal: 24, shipping: 0, tax: 1.92, orderTotal: 25.92 };
+
+    const mismatches = CartDataParser.compare(data, [row('1', 1, 20.004), row('3', 1, 4)], summary);
+    expect(mismatches).toEqual([
+      { field: '1 quantity', data: 2, page: 1 },
+      { field: '2', data: 'in cart', page: null },
+      { field: '3', data: null, page: 'in cart' },
+      { field: 'itemSubtotal', data: 25, page: 24 },
+      { field: 'orderTotal', data: 25, page: 25.92 },
+    ]);
+    expect(CartDataParser.format(mismatches).split('\n')).toEqual([
+      '1 quantity: data 2, page 1',
+      '2: data in cart, page absent',
+      '3: data absent, page in cart',
+      'itemSubtotal: data $25.00, page $24.00',
+      'orderTotal: data $25.00, page $25.92',
+    ]);
+  });
+
+  test('reports a match when data and page agree', () => {
+    const data = CartDataParser.parse({ lineItems: [{ itemId: '1', lineTotal: 20 }] }, SERVICE_URL)!;
+    expect(CartDataParser.compare(data, [row('1', 1, 20)], { itemSubtotal: 20, shipping: 0, tax: null, orderTotal: 20 })).toEqual([]);
+    expect(CartDataParser.format([])).toBe('Cart data matches the page');
+  });
+});
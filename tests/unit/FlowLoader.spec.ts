@@ -0,0 +1,78 @@
+import { test, expect } from '@playwright/test';
+import { mkdirSync, writeFileSync } from 'fs';
+import { FlowLoader } from '../../utils/FlowLoader';
+import { FlowValidationError } from '../../utils/Errors';
+import { issuesOf } from './helpers';
+
+/**
+ * FlowLoader unit tests: step validation, flow files and directories, step titles
+ */
+
+test.describe('FlowLoader', () => {
+  test('loads the bundled flows', () => {
+    const flows = FlowLoader.load('data/flows.json');
+    expect(flows.length).toBeGreaterThan(0);
+    expect(flows.every(flow => flow.steps.length > 0)).toBe(true);
+  });
+
+  test('defaults tags to an empty list', () => {
+    const flow = FlowLoader.validate({ name: 'Search', steps: [{ step: 'search', query: 'mug' }] }, 'test');
+    expect(flow.tags).toEqual([]);
+  });
+
+  test('names every invalid step and argument', () => {
+    const issues = issuesOf(() => FlowLoader.validate({
+      name: 'Broken',
+      steps: [
+        { step: 'search' },
+        { step: 'checkout' },
+        { step: 'pickResults', count: 0, includeShipping: 'yes' },
+        { step: 'filter', maxPrice: 50, sortOrder: 'cheapest', mode: 'fast' },
+        { step: 'openItem', Index: 1 },
+        'clearCart',
+      ],
+    }, 'test'), FlowValidationError);
+
+    expect(issues).toEqual([
+      'steps[0].query: expected a non-empty string, got nothing',
+      'steps[1].step: expected one of clearCart, search, filter, pickResults, openItem, selectVariant, addToCart, removeFromCart, assertCart, got "checkout"',
+      'steps[2].count: expected a positive integer, got 0',
+      'steps[2].includeShipping: expected true or false, got "yes"',
+      'steps[3].mode: expected "url" or "facets", got "fast"',
+      'steps[3].sortOrder: expected one of bestMatch, endingSoonest, newlyListed, pricePlusShippingLowest, pricePlusShippingHighest, got "cheapest"',
+      'steps[4].Index: unknown field (did you mean "index"?)',
+      'steps[4].index: expected an integer >= 0, got nothing',
+      'steps[5]: expected a step object, got "clearCart"',
+    ]);
+  });
+
+  test('reports flow errors as flow data, not scenario data', () => {
+    const load = () => FlowLoader.validate({ name: 'Empty', steps: [] }, 'flows.json flows[0]');
+    expect(load).toThrow('Invalid flow data in flows.json flows[0] ("Empty")');
+    expect(issuesOf(load, FlowValidationError)).toEqual(['steps: expected a non-empty array, got []']);
+  });
+
+  test('loads a directory of JSON files in file name order and rejects duplicate names', async ({}, testInfo) => {
+    const dir = testInfo.outputPath('flows');
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(`${dir}/b.json`, JSON.stringify([{ name: 'Clear', steps: [{ step: 'clearCart' }] }]));
+    writeFileSync(`${dir}/a.json`, JSON.stringify({ flows: [{ name: 'Search', steps: [{ step: 'search', query: 'mug' }] }] }));
+    writeFileSync(`${dir}/notes.txt`, 'ignored');
+
+    expect(FlowLoader.load(dir).map(flow => flow.name)).toEqual(['Search', 'Clear']);
+
+    writeFileSync(`${dir}/c.json`, JSON.stringify({ name: 'Clear', steps: [{ step: 'clearCart' }] }));
+    expect(issuesOf(() => FlowLoader.load(dir), FlowValidationError)).toEqual(['duplicate flow name "Clear"']);
+  });
+
+  test('rejects a file that is not valid JSON', async ({}, testInfo) => {
+    const file = testInfo.outputPath('flows.json');
+    writeFileSync(file, '{ "flows": [');
+    expect(issuesOf(() => FlowLoader.load(file), FlowValidationError)[0]).toMatch(/^not valid JSON: /);
+  });
+
+  test('titles a step with its arguments', () => {
+    expect(FlowLoader.describeStep({ step: 'clearCart' })).toBe('clearCart');
+    expect(FlowLoader.describeStep({ step: 'filter', maxPrice: 100, conditions: ['new'] })).toBe('filter (maxPrice=100, conditions=["new"])');
+  });
+});
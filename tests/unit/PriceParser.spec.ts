@@ -0,0 +1,59 @@
+import { test, expect } from '@playwright/test';
+import { PriceParser } from '../../utils/PriceParser';
+
+/**
+ * PriceParser unit tests: currency markers, separators, ranges and converted prices
+ * Run against the default marketplace (ebay.com, en-US, USD)
+ */
+
+test.describe('PriceParser', () => {
+  test('parses dollar prices', () => {
+    expect(PriceParser.parse('$50.99')).toBe(50.99);
+    expect(PriceParser.parse('$1,234.56')).toBe(1234.56);
+    expect(PriceParser.parseMoney('US $999.00')).toEqual({ amount: 999, currency: 'USD' });
+    expect(PriceParser.parseMoney('C $20.00')).toEqual({ amount: 20, currency: 'CAD' });
+  });
+
+  test('resolves separators of the site currency by locale', () => {
+    expect(PriceParser.parseMoney('1.234,56 €')).toEqual({ amount: 1234.56, currency: 'EUR' });
+    expect(PriceParser.parseMoney('1 234,56 €')).toEqual({ amount: 1234.56, currency: 'EUR' });
+    expect(PriceParser.parse('$1,000')).toBe(1000);
+    expect(PriceParser.parse('$1.000')).toBe(1);
+    expect(PriceParser.parseMoney('1.234', 'de-DE')?.amount).toBe(1234);
+  });
+
+  test('reads a three-digit group after "." as thousands for euro amounts', () => {
+    expect(PriceParser.parseMoney('1.000 €', 'en-US')).toEqual({ amount: 1000, currency: 'EUR' });
+    expect(PriceParser.parseMoney('EUR 1.000', 'en-US')).toEqual({ amount: 1000, currency: 'EUR' });
+    expect(PriceParser.parseRange('1.000 - 2.000 €', 'en-US')).toEqual({
+      min: { amount: 1000, currency: 'EUR' },
+      max: { amount: 2000, currency: 'EUR' },
+    });
+    expect(PriceParser.parseMoney('EUR 45,00', 'en-US')).toEqual({ amount: 45, currency: 'EUR' });
+  });
+
+  test('parses ranges', () => {
+    expect(PriceParser.parseRange('$10.00 to $25.00')).toEqual({
+      min: { amount: 10, currency: 'USD' },
+      max: { amount: 25, currency: 'USD' },
+    });
+    expect(PriceParser.parse('$10.00 to $25.00')).toBe(10);
+    expect(PriceParser.parseBounds('$10.00 to $25.00')).toEqual({ min: 10, max: 25 });
+    expect(PriceParser.parseBounds('$12.50')).toEqual({ min: 12.5, max: 12.5 });
+  });
+
+  test('prefers the converted amount in the site currency', () => {
+    expect(PriceParser.parsePrice('EUR 45,00 approximately US $48.99')).toEqual({
+      listed: { min: { amount: 45, currency: 'EUR' }, max: { amount: 45, currency: 'EUR' } },
+      converted: { min: { amount: 48.99, currency: 'USD' }, max: { amount: 48.99, currency: 'USD' } },
+    });
+    expect(PriceParser.parse('EUR 45,00 approximately US $48.99')).toBe(48.99);
+    expect(PriceParser.parseBounds('£10.00 to £20.00 approx. $12.70 to $25.40')).toEqual({ min: 12.7, max: 25.4 });
+  });
+
+  test('returns nothing for text without an amount', () => {
+    expect(PriceParser.parse('')).toBe(0);
+    expect(PriceParser.parseBounds('Free shipping')).toBeNull();
+    expect(PriceParser.isValid('See price')).toBe(false);
+  });
+});
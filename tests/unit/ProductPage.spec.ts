@@ -0,0 +1,56 @@
+import { test, expect } from '@playwright/test';
+import { ProductPage } from '../../pages/ProductPage';
+import { SearchResult } from '../../models/SearchResult';
+import { ItemSkippedError, VariantUnavailableError } from '../../utils/Errors';
+
+/**
+ * ProductPage.addItemsToCart unit tests: how skipped and failed items count, without a browser
+ * Opening a listing is replaced by a function that throws the outcome under test
+ */
+
+function item(itemId: string): SearchResult {
+  return {
+    itemId,
+    url: `https://www.ebay.com/itm/${itemId}`,
+    title: `Mug ${itemId}`,
+    price: 10,
+    shippingCost: 0,
+    condition: 'New',
+    buyingFormats: ['buyItNow'],
+    seller: null,
+    page: 1,
+    position: 1,
+  };
+}
+
+// Product page whose goto throws the error given for each item ID
+function productPage(outcomes: Record<string, Error>): ProductPage {
+  return Object.assign(Object.create(ProductPage.prototype) as ProductPage, {
+    goto: async (url: string) => {
+      throw outcomes[url.split('/').pop()!];
+    },
+    takeScreenshot: async () => {},
+  });
+}
+
+test.describe('ProductPage.addItemsToCart', () => {
+  test('an empty list adds nothing and does not fail', async () => {
+    await expect(productPage({}).addItemsToCart([])).resolves.toEqual([]);
+  });
+
+  test('skipped items and items without the required variant are not failures', async () => {
+    const page = productPage({
+      '1': new ItemSkippedError('Listing ended', 'https://www.ebay.com/itm/1'),
+      '2': new VariantUnavailableError('US Shoe Size', '9', 'https://www.ebay.com/itm/2'),
+    });
+    await expect(page.addItemsToCart([item('1'), item('2')], { 'US Shoe Size': '9' })).resolves.toEqual([]);
+  });
+
+  test('fails when no item could be added because of errors', async () => {
+    const page = productPage({
+      '1': new ItemSkippedError('Listing ended', 'https://www.ebay.com/itm/1'),
+      '2': new Error('Add to cart button not found'),
+    });
+    await expect(page.addItemsToCart([item('1'), item('2')])).rejects.toThrow('Failed to add any items to cart (0/2, 1 failed, 1 skipped)');
+  });
+});
@@ -0,0 +1,55 @@
+import { test, expect } from '@playwright/test';
+import { RandomSelector } from '../../utils/RandomSelector';
+
+/**
+ * RandomSelector unit tests: seeded sequences, per-test seeds, weighted and distinct picks
+ */
+
+// The next n floats after reseeding
+function sequence(seed: number, n: number): number[] {
+  RandomSelector.setSeed(seed);
+  return Array.from({ length: n }, () => RandomSelector.next());
+}
+
+test.describe('RandomSelector', () => {
+  test('the same seed gives the same sequence', () => {
+    const first = sequence(1234567, 20);
+    expect(sequence(1234567, 20)).toEqual(first);
+    expect(sequence(7654321, 20)).not.toEqual(first);
+    expect(first.every(value => value >= 0 && value < 1)).toBe(true);
+    expect(RandomSelector.getSeed()).toBe(7654321);
+  });
+
+  test('derives a stable seed per test title', () => {
+    const checkout = RandomSelector.deriveSeed(42, 'eBay Checkout E2E Tests › Order review');
+    expect(RandomSelector.deriveSeed(42, 'eBay Checkout E2E Tests › Order review')).toBe(checkout);
+    expect(RandomSelector.deriveSeed(42, 'eBay Shopping E2E Tests › Add items')).not.toBe(checkout);
+    expect(RandomSelector.deriveSeed(43, 'eBay Checkout E2E Tests › Order review')).not.toBe(checkout);
+    expect(Number.isInteger(checkout) && checkout >= 0 && checkout <= 0xffffffff).toBe(true);
+  });
+
+  test('distinct picks hold no duplicates and stop at the array length', () => {
+    RandomSelector.setSeed(99);
+    const items = ['a', 'b', 'c', 'd', 'e', 'f'];
+
+    const three = RandomSelector.getDistinctElements(items, 3);
+    expect(three).toHaveLength(3);
+    expect(new Set(three).size).toBe(3);
+
+    const all = RandomSelector.getDistinctElements(items, 10);
+    expect([...all].sort()).toEqual(items);
+    expect(RandomSelector.getDistinctElements(items, 0)).toEqual([]);
+    expect(RandomSelector.getDistinctElements([], 2)).toEqual([]);
+  });
+
+  test('never picks an entry with zero weight', () => {
+    RandomSelector.setSeed(5);
+    const picks = Array.from({ length: 200 }, () => RandomSelector.getWeightedElement(['never', 'often', 'rare'], [0, 9, 1]));
+    expect(picks).not.toContain('never');
+    expect(new Set(picks)).toEqual(new Set(['often', 'rare']));
+
+    const byWeight = Array.from({ length: 50 }, () => RandomSelector.getWeightedElement([1, 2, 3], value => (value === 2 ? 1 : 0)));
+    expect(new Set(byWeight)).toEqual(new Set([2]));
+    expect(RandomSelector.getWeightedElement(['a', 'b'], [0, 0])).toBeNull();
+  });
+});
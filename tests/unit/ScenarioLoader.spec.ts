@@ -0,0 +1,105 @@
+import { test, expect } from '@playwright/test';
+import { mkdirSync, writeFileSync } from 'fs';
+import { ScenarioLoader } from '../../utils/ScenarioLoader';
+import { ScenarioValidationError } from '../../utils/Errors';
+import { issuesOf } from './helpers';
+
+/**
+ * ScenarioLoader unit tests: schema validation, CSV rows and scenario directories
+ */
+
+test.describe('ScenarioLoader', () => {
+  test('applies defaults to a minimal scenario', () => {
+    const scenario = ScenarioLoader.validate({ name: 'Shoes', query: 'shoes', maxPrice: 220 }, 'test');
+    expect(scenario).toMatchObject({ limit: 5, budgetMode: 'subtotal', expectedMinResults: 1, tags: [] });
+  });
+
+  test('names every invalid field', () => {
+    const issues = issuesOf(() => ScenarioLoader.validate({
+      name: 'Shoes',
+      query: '',
+      maxPrice: -1,
+      limit: 2.5,
+      budgetMode: 'total',
+      filters: { sortOrder: 'cheapest', conditions: ['new', 'mint'] },
+      labels: { severity: 'huge' },
+    }, 'test'), ScenarioValidationError);
+
+    expect(issues).toEqual([
+      'query: expected a non-empty string, got ""',
+      'maxPrice: expected a positive number, got -1',
+      'limit: expected a positive integer, got 2.5',
+      'budgetMode: expected one of subtotal, subtotalPlusShipping, grandTotal, got "total"',
+      'filters.conditions: expected an array of new, openBox, refurbished, used, forParts, got ["new","mint"]',
+      'filters.sortOrder: expected one of bestMatch, endingSoonest, newlyListed, pricePlusShippingLowest, pricePlusShippingHighest, got "cheapest"',
+      'labels.severity: expected one of blocker, critical, normal, minor, trivial, got "huge"',
+    ]);
+  });
+
+  test('suggests the field name for a typo and checks minPrice against maxPrice', () => {
+    const issues = issuesOf(() => ScenarioLoader.validate({ name: 'Shoes', query: 'shoes', maxprice: 10, maxPrice: 10, minPrice: 20 }, 'test'), ScenarioValidationError);
+    expect(issues).toEqual(['maxprice: unknown field (did you mean "maxPrice"?)', 'minPrice: 20 is above maxPrice 10']);
+  });
+
+  test('suggests names up to two edits away and nothing for unrelated fields', () => {
+    const issues = issuesOf(() => ScenarioLoader.validate({ name: 'Shoes', query: 'shoes', maxPirce: 10, minPrcie: 5, budget: 10 }, 'test'), ScenarioValidationError);
+    expect(issues).toEqual([
+      'maxPirce: unknown field (did you mean "maxPrice"?)',
+      'minPrcie: unknown field (did you mean "minPrice"?)',
+      'budget: unknown field',
+      'maxPrice: expected a positive number, got nothing',
+    ]);
+  });
+
+  test('reads CSV rows with quoting, ";" lists, variants and filter columns', () => {
+    const csv = [
+      'name,query,maxPrice,tags,conditions,requiredVariants,freeShipping,severity',
+      '"Shoes, size 9","running ""trail"" shoes",120,smoke;regression,new;used,US Shoe Size=9;Color=Black,yes,critical',
+      '',
+      'Laptop,laptop,500,,,,,',
+    ].join('\r\n');
+
+    const [shoes, laptop] = ScenarioLoader.parseCsv(csv, 'scenarios.csv');
+    expect(shoes).toMatchObject({
+      name: 'Shoes, size 9',
+      query: 'running "trail" shoes',
+      maxPrice: 120,
+      tags: ['smoke', 'regression'],
+      requiredVariants: { 'US Shoe Size': '9', Color: 'Black' },
+      filters: { conditions: ['new', 'used'], freeShipping: true },
+      labels: { severity: 'critical' },
+    });
+    expect(laptop).toMatchObject({ name: 'Laptop', maxPrice: 500, tags: [] });
+    expect(laptop.filters).toBeUndefined();
+  });
+
+  test('reports the CSV row and the unparseable value', () => {
+    const parse = () => ScenarioLoader.parseCsv('name,query,maxPrice,limit\nShoes,shoes,cheap,two', 'scenarios.csv');
+    expect(parse).toThrow('Invalid scenario data in scenarios.csv row 2 ("Shoes")');
+    expect(issuesOf(parse, ScenarioValidationError)).toEqual(['maxPrice: expected a positive number, got "cheap"', 'limit: expected a positive integer, got "two"']);
+  });
+
+  test('a header-only CSV holds no scenarios', () => {
+    expect(ScenarioLoader.parseCsv('name,query,maxPrice\n', 'scenarios.csv')).toEqual([]);
+  });
+
+  test('loads a directory of JSON and CSV files in file name order and rejects duplicate names', async ({}, testInfo) => {
+    const dir = testInfo.outputPath('scenarios');
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(`${dir}/b.csv`, 'name,query,maxPrice\nLaptop,laptop,500\n');
+    writeFileSync(`${dir}/a.json`, JSON.stringify({ scenarios: [{ name: 'Shoes', query: 'shoes', maxPrice: 220 }] }));
+    writeFileSync(`${dir}/notes.txt`, 'ignored');
+
+    expect(ScenarioLoader.load(dir).map(scenario => scenario.name)).toEqual(['Shoes', 'Laptop']);
+
+    writeFileSync(`${dir}/c.json`, JSON.stringify([{ name: 'Laptop', query: 'laptop', maxPrice: 400 }]));
+    expect(issuesOf(() => ScenarioLoader.load(dir), ScenarioValidationError)).toEqual(['duplicate scenario name "Laptop"']);
+  });
+
+  test('skips scenarios marked "skip" or bound to another marketplace', () => {
+    const scenario = ScenarioLoader.validate({ name: 'Shoes', query: 'shoes', maxPrice: 220, marketplace: 'de' }, 'test');
+    expect(ScenarioLoader.skipReason(scenario, 'de')).toBeNull();
+    expect(ScenarioLoader.skipReason(scenario, 'us')).toContain('"de"');
+    expect(ScenarioLoader.skipReason({ ...scenario, skip: true }, 'de')).toBe('Scenario is marked "skip"');
+  });
+});
@@ -0,0 +1,135 @@
+import { test, expect } from '@playwright/test';
+import { SearchVerifier } from '../../utils/SearchVerifier';
+import { ListingParser } from '../../utils/ListingParser';
+import { ResultCard } from '../../models/SearchVerification';
+
+/**
+ * SearchVerifier unit tests: sort order across pages, price bounds, report text and CSV
+ */
+
+const SEARCH_URL = 'https://www.ebay.com/sch/i.html?_nkw=mug';
+
+function card(itemId: string, page: number, position: number, price: number, extra: Partial<ResultCard> = {}): ResultCard {
+  return {
+    itemId,
+    url: `https://www.ebay.com/itm/${itemId}`,
+    title: `Mug ${itemId}`,
+    price,
+    priceMax: price,
+    shippingCost: 0,
+    condition: 'New',
+    buyingFormats: ['buyItNow'],
+    seller: null,
+    page,
+    position,
+    sponsored: false,
+    listedAt: null,
+    ...extra,
+  };
+}
+
+test.describe('SearchVerifier', () => {
+  test('checks ascending landed cost across page boundaries', () => {
+    const cards = [card('1', 1, 1, 5), card('2', 1, 2, 8, { shippingCost: 2 }), card('3', 2, 1, 9), card('4', 2, 2, 12)];
+    const report = SearchVerifier.verify(SEARCH_URL, cards, { sortOrder: 'pricePlusShippingLowest' }, 2);
+
+    expect(report.violations).toEqual([expect.objectContaining({ check: 'sort', page: 2, position: 1, itemId: '3', value: '$9.00', bound: '$10.00' })]);
+    expect(report).toMatchObject({ sortOrder: 'pricePlusShippingLowest', pagesChecked: 2, itemsChecked: 4, sponsoredSkipped: 0 });
+  });
+
+  test('checks descending landed cost', () => {
+    const cards = [card('1', 1, 1, 30), card('2', 1, 2, 20), card('3', 1, 3, 25)];
+    const report = SearchVerifier.verify(SEARCH_URL, cards, { sortOrder: 'pricePlusShippingHighest' }, 1);
+    expect(report.violations.map(violation => violation.itemId)).toEqual(['3']);
+    expect(report.violations[0].detail).toBe('landed cost higher than the previous item (2, page 1 #2)');
+  });
+
+  test('flags a card only when its whole cost interval is out of order', () => {
+    const cards = [
+      card('1', 1, 1, 10, { priceMax: 20 }),
+      card('2', 1, 2, 12, { shippingCost: null }),
+      card('3', 1, 3, 15),
+      card('4', 1, 4, 11),
+    ];
+    const report = SearchVerifier.verify(SEARCH_URL, cards, { sortOrder: 'pricePlusShippingLowest' }, 1);
+
+    // 2 ("$12.00+", unknown shipping) overlaps the "$10.00 to $20.00" range of 1 and 3 overlaps 2; 4 lies wholly below 3
+    expect(report.violations.map(violation => [violation.itemId, violation.value, violation.bound])).toEqual([['4', '$11.00', '$15.00']]);
+    expect(SearchVerifier.landedCost(cards[1])).toEqual({ low: 12, high: Infinity });
+  });
+
+  test('leaves sponsored cards and repeated items out of the sort check', () => {
+    const cards = [
+      card('1', 1, 1, 5),
+      card('ad', 1, 2, 1, { sponsored: true }),
+      card('2', 1, 3, 8),
+      card('1', 2, 1, 5),
+      card('3', 2, 2, 9),
+    ];
+    const report = SearchVerifier.verify(SEARCH_URL, cards, { sortOrder: 'pricePlusShippingLowest' }, 2);
+    expect(report.violations).toEqual([]);
+    expect(report.sponsoredSkipped).toBe(1);
+  });
+
+  test('checks newly listed order and skips cards without a listing time', () => {
+    const at = (hour: number) => Date.UTC(2026, 9, 17, hour);
+    const cards = [
+      card('1', 1, 1, 5, { listedAt: at(14) }),
+      card('2', 1, 2, 5, { listedAt: null }),
+      card('3', 1, 3, 5, { listedAt: at(12) }),
+      card('4', 1, 4, 5, { listedAt: at(13) }),
+    ];
+    const report = SearchVerifier.verify(SEARCH_URL, cards, { sortOrder: 'newlyListed' }, 1);
+    expect(report.violations.map(violation => [violation.itemId, violation.value, violation.bound])).toEqual([
+      ['4', '2026-10-17T13:00:00.000Z', '2026-10-17T12:00:00.000Z'],
+    ]);
+  });
+
+  test('checks price bounds on every card, sponsored included, in the order shown', () => {
+    const cards = [
+      card('1', 1, 1, 60, { sponsored: true }),
+      card('2', 1, 2, 5, { priceMax: 15 }),
+      card('3', 1, 3, 4, { priceMax: 8 }),
+      card('4', 2, 1, 30),
+    ];
+    const report = SearchVerifier.verify(SEARCH_URL, cards, { sortOrder: 'pricePlusShippingLowest', minPrice: 10, maxPrice: 50 }, 2);
+
+    expect(report.violations.map(violation => [violation.page, violation.position, violation.check, violation.value])).toEqual([
+      [1, 1, 'maxPrice', '$60.00'],
+      [1, 3, 'minPrice', '$4.00 to $8.00'],
+    ]);
+    expect(report).toMatchObject({ minPrice: 10, maxPrice: 50 });
+  });
+
+  test('formats the report and renders violations as CSV', () => {
+    const report = SearchVerifier.verify(SEARCH_URL, [card('1', 1, 1, 60, { title: 'Mug "large"' })], { maxPrice: 50 }, 1);
+
+    expect(SearchVerifier.format(report)).toBe([
+      '1 violation(s) in 1 item(s) on 1 page(s), 0 sponsored:',
+      '  - page 1 #1 1 [maxPrice] price above the maximum: $60.00 vs $50.00 - Mug "large"',
+    ].join('\n'));
+    expect(SearchVerifier.toCsv(report.violations).split('\n')).toEqual([
+      '"Page","Position","Check","Item ID","Value","Bound","Detail","Title"',
+      '"1","1","maxPrice","1","$60.00","$50.00","price above the maximum","Mug ""large"""',
+    ]);
+    expect(SearchVerifier.format(SearchVerifier.verify(SEARCH_URL, [], {}, 1))).toBe('Search results meet the expectation (0 item(s) on 1 page(s), 0 sponsored)');
+  });
+});
+
+test.describe('ListingParser.parseListedAt', () => {
+  const now = new Date(2026, 9, 19, 12, 0);
+
+  test('reads the listing time line of a card', () => {
+    expect(ListingParser.parseListedAt('Listed Oct-17 14:05', now)).toBe(new Date(2026, 9, 17, 14, 5).getTime());
+    expect(ListingParser.parseListedAt('Listed 17-Oct 14:05', now)).toBe(new Date(2026, 9, 17, 14, 5).getTime());
+  });
+
+  test('takes a date after now to be from last year', () => {
+    expect(ListingParser.parseListedAt('Listed Dec-30 09:00', now)).toBe(new Date(2025, 11, 30, 9, 0).getTime());
+  });
+
+  test('ignores other card lines', () => {
+    expect(ListingParser.parseListedAt('Free delivery', now)).toBeNull();
+    expect(ListingParser.parseListedAt('Listed recently', now)).toBeNull();
+  });
+});
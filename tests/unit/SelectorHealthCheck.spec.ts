@@ -0,0 +1,31 @@
+import { test, expect } from '@playwright/test';
+import { SelectorHealthCheck } from '../../utils/SelectorHealthCheck';
+import { SelectorHealth, SelectorHealthStatus } from '../../models/SelectorHealth';
+import { SelectorKey } from '../../config/selectors';
+
+/**
+ * SelectorHealthCheck unit tests: which probe results fail the gate
+ */
+
+const element = (key: SelectorKey, status: SelectorHealthStatus, optional = false): SelectorHealth =>
+  ({ key, status, optional, matched: null, count: 0, visible: false, candidates: [] });
+
+test.describe('SelectorHealthCheck', () => {
+  test('optional elements never fail the check', () => {
+    const elements = [element('search.resultCard', 'ok'), element('cart.lineItems', 'missing', true), element('cart.lineTitle', 'skipped', true)];
+    expect(SelectorHealthCheck.passed(elements, true)).toBe(true);
+  });
+
+  test('required missing and skipped elements are reported as failures', () => {
+    const elements = [element('search.resultCard', 'missing'), element('product.addToCart', 'skipped'), element('cart.total', 'fallback')];
+    expect(SelectorHealthCheck.failures(elements, false).map(failure => failure.key)).toEqual(['search.resultCard', 'product.addToCart']);
+    expect(SelectorHealthCheck.failures(elements, true)).toHaveLength(3);
+  });
+
+  test('cart rows include the elements probed inside them', () => {
+    const keys = SelectorHealthCheck.withChildren('cart.lineItems');
+    expect(keys).toContain('cart.lineItems');
+    expect(keys).toContain('cart.lineTitle');
+    expect(keys).not.toContain('cart.moveToCartButton');
+  });
+});
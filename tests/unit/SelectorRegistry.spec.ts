@@ -0,0 +1,45 @@
+import { test, expect } from '@playwright/test';
+import { SelectorRegistry } from '../../utils/SelectorRegistry';
+import { SelectorUsage } from '../../models/SelectorUsage';
+import { SelectorKey } from '../../config/selectors';
+
+/**
+ * SelectorRegistry unit tests: merging usage across tests and classifying drift
+ */
+
+const usage = (key: SelectorKey, hits: number[], misses = 0): SelectorUsage =>
+  ({ key, layout: 'desktop', candidates: hits.map((_, index) => `#candidate-${index + 1}`), hits, misses });
+
+test.describe('SelectorRegistry.drift', () => {
+  test('classifies elements by the candidates that matched', () => {
+    const drift = SelectorRegistry.drift([
+      usage('cart.total', [3, 1, 0]),
+      usage('cart.itemsCount', [0, 2, 0]),
+      usage('search.nextPage', [0, 0], 2),
+    ]);
+
+    expect(drift.map(element => [element.key, element.status, element.matched])).toEqual([
+      ['search.nextPage', 'missing', null],
+      ['cart.itemsCount', 'fallback', '#candidate-2'],
+      ['cart.total', 'primary', '#candidate-1'],
+    ]);
+  });
+
+  test('reports an element that went missing in some tests as degraded, not primary', () => {
+    const merged = SelectorRegistry.merge([usage('cart.total', [1, 0]), usage('cart.total', [0, 0], 1), usage('cart.total', [2, 0])]);
+    expect(merged).toEqual([usage('cart.total', [3, 0], 1)]);
+
+    const [element] = SelectorRegistry.drift(merged);
+    expect(element).toMatchObject({ status: 'degraded', matched: '#candidate-1' });
+  });
+
+  test('sorts missing first, then degraded, fallback and primary', () => {
+    const drift = SelectorRegistry.drift([
+      usage('cart.total', [1]),
+      usage('cart.itemsCount', [0, 1]),
+      usage('cart.lineTitle', [0, 1], 1),
+      usage('search.nextPage', [0], 1),
+    ]);
+    expect(drift.map(element => element.status)).toEqual(['missing', 'degraded', 'fallback', 'primary']);
+  });
+});
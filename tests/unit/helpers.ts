@@ -0,0 +1,20 @@
+import { expect } from '@playwright/test';
+
+/**
+ * Shared helpers for the unit specs
+ */
+
+/**
+ * Issues listed by the validation error an action throws
+ * @param action - Call expected to throw
+ * @param errorClass - Expected error class (ScenarioValidationError, FlowValidationError)
+ */
+export function issuesOf<E extends Error & { issues: string[] }>(action: () => unknown, errorClass: new (...args: never[]) => E): string[] {
+  try {
+    action();
+  } catch (error) {
+    expect(error).toBeInstanceOf(errorClass);
+    return (error as E).issues;
+  }
+  throw new Error(`expected a ${errorClass.name}`);
+}
@@ -0,0 +1,193 @@
+import * as allure from 'allure-js-commons';
+import { ReportLabels } from '../models/ReportLabels';
+
+/**
+ * AllureReporter Utility
+ * Step decorator, attachments and labels that turn a run into a readable Allure report
+ */
+
+// Parameters whose values must not appear in the report
+const MASKED_PARAMETER = /password|secret|token|otp/i;
+
+// Longer parameter values are cut so the step table stays readable
+const MAX_PARAMETER_LENGTH = 200;
+
+// Decorator wrappers → the method they wrap, so step titles use the method's own parameter names
+const WRAPPED = new WeakMap<Function, Function>();
+
+// Declared parameter of a method; defaultValue is set for literal defaults only
+interface MethodParameter {
+  name: string;
+  defaultValue?: string;
+}
+
+type AsyncMethod<This, Args extends unknown[], Return> = (this: This, ...args: Args) => Promise<Return>;
+
+/**
+ * Report a page object method as an Allure step with its arguments as step parameters
+ * Calls made inside the method show up as nested steps
+ * @param title - Step title; "{name}" is replaced by the argument of that name, or its default when
+ *   the caller left it out (default: "Class.method")
+ */
+export function step(title?: string) {
+  return function <This, Args extends unknown[], Return>(
+    method: AsyncMethod<This, Args, Return>,
+    context: ClassMethodDecoratorContext<This, AsyncMethod<This, Args, Return>>
+  ): AsyncMethod<This, Args, Return> {
+    const parameters = AllureReporter.parameters(method);
+
+    return AllureReporter.wrap(method, function (this: This, ...args: Args): Promise<Return> {
+      const values = new Map(parameters.map(({ name }, index) => [name, args[index]]));
+      const name = title
+        ? AllureReporter.stepTitle(title, parameters, args)
+        : `${(this as object).constructor.name}.${String(context.name)}`;
+
+      return Promise.resolve(allure.step(name, async stepContext => {
+        for (const [parameter, value] of values) {
+          if (value === undefined) continue;
+          const mode = MASKED_PARAMETER.test(parameter) ? 'masked' : 'default';
+          await stepContext.parameter(parameter, AllureReporter.formatParameter(value), mode);
+        }
+        return method.apply(this, args);
+      }));
+    });
+  };
+}
+
+export class AllureReporter {
+  /**
+   * Attach a value as pretty-printed JSON to the current step
+   * @param name - Attachment name
+   * @param data - Any JSON-serializable value
+   */
+  static async attachJson(name: string, data: unknown): Promise<void> {
+    await allure.attachment(name, JSON.stringify(data, null, 2), 'application/json');
+  }
+
+  /**
+   * Attach CSV text; Allure renders it as a table
+   * @param name - Attachment name
+   * @param csv - Header row and data rows
+   */
+  static async attachCsv(name: string, csv: string): Promise<void> {
+    await allure.attachment(name, csv, 'text/csv');
+  }
+
+  /**
+   * Attach a PNG screenshot to the current step
+   * @param name - Attachment name
+   * @param png - Screenshot bytes
+   */
+  static async attachScreenshot(name: string, png: Buffer): Promise<void> {
+    await allure.attachment(name, png, 'image/png');
+  }
+
+  /**
+   * Apply epic/feature/story/severity labels to the running test
+   * @param labels - Labels from scenario metadata; missing entries are left unset
+   */
+  static async applyLabels(labels: ReportLabels): Promise<void> {
+    if (labels.epic) await allure.epic(labels.epic);
+    if (labels.feature) await allure.feature(labels.feature);
+    if (labels.story) await allure.story(labels.story);
+    if (labels.severity) await allure.severity(labels.severity);
+  }
+
+  /**
+   * Render an argument as a step parameter value
+   * @param value - Argument value
+   * @returns Plain text for primitives, truncated JSON for objects
+   */
+  static formatParameter(value: unknown): string {
+    const text = typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+    return text.length > MAX_PARAMETER_LENGTH ? `${text.slice(0, MAX_PARAMETER_LENGTH)}…` : text;
+  }
+
+  /**
+   * Fill a step title's "{name}" placeholders
+   * A left-out argument shows its default value; placeholders without a value or default are dropped
+   * @param title - Title with placeholders
+   * @param parameters - Parameters of the method (see parameters)
+   * @param args - Arguments of the call
+   */
+  static stepTitle(title: string, parameters: MethodParameter[], args: unknown[]): string {
+    return title
+      .replace(/\{(\w+)\}/g, (_placeholder, key: string) => {
+        const index = parameters.findIndex(parameter => parameter.name === key);
+        if (index < 0) return '';
+        if (args[index] !== undefined) return this.formatParameter(args[index]);
+        return parameters[index].defaultValue ?? '';
+      })
+      .replace(/\s{2,}/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Mark a decorator's wrapper as standing for the method it wraps
+   * Decorators stack in any order: step titles still read the method's own parameter names
+   * @param method - Decorated method (or an inner wrapper)
+   * @param wrapper - Function the decorator returns
+   * @returns The wrapper
+   */
+  static wrap<T extends Function>(method: Function, wrapper: T): T {
+    WRAPPED.set(wrapper, method);
+    return wrapper;
+  }
+
+  /**
+   * Read a function's parameter names from its source
+   * Destructured parameters are reported as "argN"
+   * @param fn - Function to inspect (decorator wrappers resolve to the method they wrap)
+   * @returns One name per declared parameter
+   */
+  static parameterNames(fn: Function): string[] {
+    return this.parameters(fn).map(parameter => parameter.name);
+  }
+
+  /**
+   * Read a function's parameters from its source: names and, for literal defaults, the default value
+   * @param fn - Function to inspect (decorator wrappers resolve to the method they wrap)
+   */
+  static parameters(fn: Function): MethodParameter[] {
+    while (WRAPPED.has(fn)) {
+      fn = WRAPPED.get(fn)!;
+    }
+
+    const source = fn.toString();
+    const start = source.indexOf('(');
+    if (start < 0) return [];
+
+    // Find the closing parenthesis of the parameter list, skipping nested default values
+    let depth = 0;
+    let end = start;
+    for (; end < source.length; end++) {
+      if ('([{'.includes(source[end])) depth++;
+      if (')]}'.includes(source[end]) && --depth === 0) break;
+    }
+
+    const declarations: string[] = [];
+    let current = '';
+    depth = 0;
+    for (const char of source.slice(start + 1, end)) {
+      if ('([{'.includes(char)) depth++;
+      if (')]}'.includes(char)) depth--;
+      if (char === ',' && depth === 0) {
+        declarations.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    if (current.trim()) declarations.push(current);
+
+    return declarations.map((declaration, index) => {
+      const name = declaration.trim().replace(/^\.\.\./, '').split(/[=:\s]/)[0];
+      const defaultSource = declaration.includes('=') ? declaration.slice(declaration.indexOf('=') + 1).trim() : '';
+      const literal = defaultSource.match(/^(?:(-?\d+(?:\.\d+)?|true|false|Infinity)|(['"`])(.*)\2)$/);
+      return {
+        name: /^[A-Za-z_$][\w$]*$/.test(name) ? name : `arg${index}`,
+        ...(literal ? { defaultValue: literal[1] ?? literal[3] } : {}),
+      };
+    });
+  }
+}
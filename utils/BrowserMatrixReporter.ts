@@ -0,0 +1,91 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type { Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { config } from '../config/env.config';
+import { BrowserMatrix, BrowserMatrixCell } from '../models/BrowserMatrix';
+
+/**
+ * Annotation type the browserDeviations fixture adds for known browser deviations
+ */
+export const BROWSER_DEVIATION_ANNOTATION = 'browser-deviation';
+
+// Specs of the "unit" project (tests/unit/)
+const UNIT_SPECS = /[\\/]tests[\\/]unit[\\/]/;
+
+/**
+ * BrowserMatrixReporter - Playwright reporter that tabulates every test per browser project
+ * Writes config.browsers.matrixPath and prints the matrix when more than one project ran
+ */
+export default class BrowserMatrixReporter implements Reporter {
+  private readonly projects: string[] = [];
+  private readonly rows = new Map<string, Record<string, BrowserMatrixCell>>();
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const project = test.parent.project()?.name;
+    // The setup project signs in for the browser projects and unit specs need no browser; neither is part of the matrix
+    if (!project || /\.setup\.ts$/.test(test.location.file) || UNIT_SPECS.test(test.location.file)) {
+      return;
+    }
+    if (!this.projects.includes(project)) {
+      this.projects.push(project);
+    }
+
+    // titlePath: root, project, file, describe..., title
+    const title = test.titlePath().slice(2).join(' › ');
+    const results = this.rows.get(title) ?? {};
+    const outcome = test.outcome();
+    results[project] = {
+      status: result.status,
+      expected: outcome !== 'unexpected',
+      flaky: outcome === 'flaky',
+      deviations: test.annotations
+        .filter(annotation => annotation.type === BROWSER_DEVIATION_ANNOTATION)
+        .map(annotation => annotation.description ?? ''),
+    };
+    this.rows.set(title, results);
+  }
+
+  onEnd(): void {
+    if (this.projects.length < 2) {
+      return;
+    }
+
+    const matrix: BrowserMatrix = {
+      projects: this.projects,
+      rows: [...this.rows.entries()].map(([test, results]) => ({ test, results })),
+    };
+    const path = config.browsers.matrixPath;
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, JSON.stringify(matrix, null, 2));
+
+    console.log(`\nBrowser matrix (${path})`);
+    console.log(BrowserMatrixReporter.format(matrix));
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+
+  /**
+   * Render the matrix as a plain-text table, with the annotated deviations below it
+   * ✓ passed, ✗ failed, - skipped; "expected" marks a test.fail() deviation, * a noted deviation
+   * @param matrix - Outcomes per test and project
+   */
+  static format(matrix: BrowserMatrix): string {
+    const symbol = (cell: BrowserMatrixCell | undefined) => {
+      if (!cell) return '';
+      const mark = cell.status === 'passed' ? '✓' : cell.status === 'skipped' ? '-' : '✗';
+      const detail = !cell.expected ? (cell.status === 'passed' ? ' (unexpected pass)' : '')
+        : cell.status !== 'passed' && cell.status !== 'skipped' ? ' (expected)'
+        : cell.flaky ? ' (flaky)' : '';
+      return `${mark}${detail}${cell.deviations.length > 0 ? '*' : ''}`;
+    };
+
+    const table = [['Test', ...matrix.projects], ...matrix.rows.map(row => [row.test, ...matrix.projects.map(project => symbol(row.results[project]))])];
+    const widths = table[0].map((_, column) => Math.max(...table.map(row => row[column].length)));
+    const lines = table.map(row => `  ${row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd()}`);
+
+    const notes = new Set(matrix.rows.flatMap(row => Object.values(row.results).flatMap(cell => cell.deviations)));
+    return [...lines, ...[...notes].map(note => `  * ${note}`)].join('\n');
+  }
+}
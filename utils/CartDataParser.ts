@@ -0,0 +1,207 @@
+import { config } from '../config/env.config';
+import { CartData, CartDataLine, CartDataMismatch } from '../models/CartData';
+import { CartLineItem } from '../models/CartLineItem';
+import { CartSummary } from '../models/CartSummary';
+import { VariantSelection } from '../models/SkuDimension';
+import { PriceParser } from './PriceParser';
+
+/**
+ * CartDataParser Utility
+ * Reads line items and the summary from cart service JSON and compares them with the rendered cart
+ */
+
+// Amounts are compared to the cent
+const AMOUNT_TOLERANCE = 0.005;
+
+// Field names the cart service uses, most specific first
+const KEYS = {
+  itemId: ['itemId', 'listingId'],
+  title: ['title', 'itemTitle'],
+  quantity: ['quantity', 'qty'],
+  unitPrice: ['unitPrice', 'price', 'itemPrice'],
+  lineTotal: ['lineTotal', 'totalPrice', 'total'],
+  variants: ['variants', 'variations', 'aspects'],
+  itemSubtotal: ['itemSubtotal', 'itemsTotal', 'subtotal'],
+  shipping: ['shipping', 'shippingCost'],
+  tax: ['tax', 'estimatedTax'],
+  orderTotal: ['orderTotal', 'total', 'grandTotal'],
+};
+
+type JsonObject = Record<string, unknown>;
+
+export class CartDataParser {
+  /**
+   * Whether a response may come from the cart service (same origin as the cart, JSON body)
+   * @param url - Response URL
+   * @param contentType - Response content type
+   */
+  static isCartService(url: string, contentType: string): boolean {
+    try {
+      return new URL(url).origin === new URL(config.cartURL).origin && /json/i.test(contentType);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Parse a cart service response
+   * The line items are the first array of objects carrying an item ID; the summary is the
+   * first object with a total next to a subtotal or shipping amount
+   * @param body - Parsed JSON body
+   * @param url - Response URL
+   * @returns Cart data, or null when the body holds no cart lines
+   */
+  static parse(body: unknown, url: string): CartData | null {
+    const rows = this.findFirst(body, value =>
+      Array.isArray(value) && value.length > 0 && value.every(entry => this.isObject(entry) && this.pick(entry, KEYS.itemId) !== undefined)
+    ) as JsonObject[] | undefined;
+    const summaryObject = this.findFirst(body, value =>
+      this.isObject(value)
+      && this.pick(value, KEYS.orderTotal) !== undefined
+      && (this.pick(value, KEYS.itemSubtotal) !== undefined || this.pick(value, KEYS.shipping) !== undefined)
+      && this.pick(value, KEYS.itemId) === undefined
+    ) as JsonObject | undefined;
+
+    // An empty cart answers with a summary (or an empty list) but no rows
+    if (!rows && !summaryObject && !this.findFirst(body, value => this.isObject(value) && Array.isArray(value.lineItems))) {
+      return null;
+    }
+
+    return {
+      url,
+      lineItems: (rows ?? []).map(row => this.parseLine(row)),
+      summary: summaryObject ? this.parseSummary(summaryObject) : null,
+    };
+  }
+
+  /**
+   * Compare cart data with what the page rendered
+   * Lines are matched by item ID; summary components are compared when both sides have them
+   * @param data - Parsed cart service response
+   * @param lineItems - Rows read from the page (CartPage.getLineItems)
+   * @param summary - Summary read from the page (CartPage.getCartSummary)
+   * @returns Every disagreement, empty when data and page match
+   */
+  static compare(data: CartData, lineItems: CartLineItem[], summary: CartSummary): CartDataMismatch[] {
+    const mismatches: CartDataMismatch[] = [];
+    const differs = (a: number, b: number) => Math.abs(a - b) > AMOUNT_TOLERANCE;
+    const unmatched = [...lineItems];
+
+    for (const line of data.lineItems) {
+      const row = unmatched.find(candidate => candidate.itemId === line.itemId);
+      if (!row) {
+        mismatches.push({ field: line.itemId, data: 'in cart', page: null });
+        continue;
+      }
+      unmatched.splice(unmatched.indexOf(row), 1);
+
+      if (row.quantity !== line.quantity) {
+        mismatches.push({ field: `${line.itemId} quantity`, data: line.quantity, page: row.quantity });
+      }
+      if (differs(row.lineTotal, line.lineTotal)) {
+        mismatches.push({ field: `${line.itemId} lineTotal`, data: line.lineTotal, page: row.lineTotal });
+      }
+    }
+    for (const row of unmatched) {
+      mismatches.push({ field: row.itemId ?? row.title, data: null, page: 'in cart' });
+    }
+
+    if (data.summary) {
+      for (const field of ['itemSubtotal', 'shipping', 'tax', 'orderTotal'] as const) {
+        const expected = data.summary[field];
+        const actual = summary[field];
+        if (expected !== null && actual !== null && differs(expected, actual)) {
+          mismatches.push({ field, data: expected, page: actual });
+        }
+      }
+    }
+
+    return mismatches;
+  }
+
+  /**
+   * Human-readable list of the disagreements
+   * @param mismatches - Result of compare
+   */
+  static format(mismatches: CartDataMismatch[]): string {
+    const show = (field: string, value: number | string | null) =>
+      value === null ? 'absent' : typeof value === 'number' && !field.endsWith('quantity') ? PriceParser.format(value) : String(value);
+    return mismatches.length > 0
+      ? mismatches.map(({ field, data, page }) => `${field}: data ${show(field, data)}, page ${show(field, page)}`).join('\n')
+      : 'Cart data matches the page';
+  }
+
+  private static parseLine(row: JsonObject): CartDataLine {
+    const quantity = Math.max(1, Math.round(this.amount(this.pick(row, KEYS.quantity)) ?? 1));
+    const unitPrice = this.amount(this.pick(row, KEYS.unitPrice));
+    const lineTotal = this.amount(this.pick(row, KEYS.lineTotal)) ?? (unitPrice ?? 0) * quantity;
+
+    return {
+      itemId: String(this.pick(row, KEYS.itemId)),
+      title: String(this.pick(row, KEYS.title) ?? ''),
+      variants: this.parseVariants(this.pick(row, KEYS.variants)),
+      quantity,
+      unitPrice: unitPrice ?? Math.round((lineTotal / quantity) * 100) / 100,
+      lineTotal,
+    };
+  }
+
+  private static parseSummary(summary: JsonObject): CartSummary {
+    const itemSubtotal = this.amount(this.pick(summary, KEYS.itemSubtotal));
+    const shipping = this.amount(this.pick(summary, KEYS.shipping)) ?? 0;
+    const tax = this.amount(this.pick(summary, KEYS.tax));
+    const orderTotal = this.amount(this.pick(summary, KEYS.orderTotal)) ?? 0;
+    return { itemSubtotal: itemSubtotal ?? orderTotal - shipping - (tax ?? 0), shipping, tax, orderTotal };
+  }
+
+  /**
+   * Variants as [{ name, value }] or { name: value }
+   */
+  private static parseVariants(value: unknown): VariantSelection {
+    const variants: VariantSelection = {};
+    if (Array.isArray(value)) {
+      for (const entry of value) {
+        if (this.isObject(entry) && entry.name !== undefined && entry.value !== undefined) {
+          variants[String(entry.name)] = String(entry.value);
+        }
+      }
+    } else if (this.isObject(value)) {
+      for (const [name, entry] of Object.entries(value)) {
+        variants[name] = String(entry);
+      }
+    }
+    return variants;
+  }
+
+  /**
+   * Amount as a number, a price string ("$12.50") or { value } / { amount }
+   */
+  private static amount(value: unknown): number | null {
+    if (typeof value === 'number') return value;
+    if (typeof value === 'string') return config.marketplace.patterns.free.test(value) ? 0 : PriceParser.parse(value);
+    if (this.isObject(value)) return this.amount(value.value ?? value.amount);
+    return null;
+  }
+
+  private static pick(object: JsonObject, keys: string[]): unknown {
+    const key = keys.find(candidate => object[candidate] !== undefined && object[candidate] !== null);
+    return key ? object[key] : undefined;
+  }
+
+  /**
+   * Depth-first search for the first value that satisfies a test
+   */
+  private static findFirst(value: unknown, test: (value: unknown) => boolean): unknown {
+    if (test(value)) return value;
+    const children = Array.isArray(value) ? value : this.isObject(value) ? Object.values(value) : [];
+    for (const child of children) {
+      const found = this.findFirst(child, test);
+      if (found !== undefined) return found;
+    }
+    return undefined;
+  }
+
+  private static isObject(value: unknown): value is JsonObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,88 @@
+import { AddedItem, CartLineItem, CartReconciliation } from '../models/CartLineItem';
+import { VariantSelection } from '../models/SkuDimension';
+import { PriceParser } from './PriceParser';
+
+/**
+ * CartReconciler Utility
+ * Compares the items a run added with the rows the cart shows
+ */
+
+// Prices are compared to the cent
+const PRICE_TOLERANCE = 0.005;
+
+export class CartReconciler {
+  /**
+   * Match added items to cart rows by item ID (and variants when the same item has several rows)
+   * @param addedItems - Items returned by ProductPage.addItemsToCart
+   * @param lineItems - Rows returned by CartPage.getLineItems
+   * @returns Matched, missing, extra, price-changed and variant-mismatched items
+   */
+  static reconcile(addedItems: AddedItem[], lineItems: CartLineItem[]): CartReconciliation {
+    const report: CartReconciliation = { matched: [], missing: [], extra: [], priceChanged: [], variantMismatch: [] };
+    const unmatched = [...lineItems];
+
+    for (const item of addedItems) {
+      const candidates = unmatched.filter(line => line.itemId === item.itemId);
+      const line = candidates.find(candidate => this.sameVariants(item.variants, candidate.variants)) ?? candidates[0];
+
+      if (!line) {
+        report.missing.push(item);
+        continue;
+      }
+      unmatched.splice(unmatched.indexOf(line), 1);
+
+      if (!this.sameVariants(item.variants, line.variants)) {
+        report.variantMismatch.push({ itemId: item.itemId, expected: item.variants, actual: line.variants });
+      } else {
+        report.matched.push(item.itemId);
+      }
+
+      if (Math.abs(line.unitPrice - item.addedPrice) > PRICE_TOLERANCE) {
+        report.priceChanged.push({ itemId: item.itemId, expected: item.addedPrice, actual: line.unitPrice });
+      }
+    }
+
+    report.extra = unmatched;
+    return report;
+  }
+
+  /**
+   * Whether the cart holds exactly the added items with the chosen variants
+   * Price changes are reported but do not make the cart inconsistent
+   */
+  static isConsistent(report: CartReconciliation): boolean {
+    return report.missing.length === 0 && report.extra.length === 0 && report.variantMismatch.length === 0;
+  }
+
+  /**
+   * Human-readable summary of the discrepancies
+   * @param report - Reconciliation result
+   * @returns One line per discrepancy, or a single "matched" line
+   */
+  static format(report: CartReconciliation): string {
+    const lines = [
+      ...report.missing.map(item => `Missing: ${item.itemId} ${item.title}`),
+      ...report.extra.map(line => `Extra: ${line.itemId ?? 'unknown item'} ${line.title}`),
+      ...report.variantMismatch.map(mismatch =>
+        `Variant mismatch: ${mismatch.itemId} expected ${JSON.stringify(mismatch.expected)}, cart has ${JSON.stringify(mismatch.actual)}`
+      ),
+      ...report.priceChanged.map(change =>
+        `Price changed: ${change.itemId} ${PriceParser.format(change.expected)} → ${PriceParser.format(change.actual)}`
+      ),
+    ];
+
+    return lines.length > 0 ? lines.join('\n') : `All ${report.matched.length} items matched`;
+  }
+
+  /**
+   * Compare variant maps ignoring key/value case and whitespace
+   */
+  private static sameVariants(expected: VariantSelection, actual: VariantSelection): boolean {
+    const normalize = (selection: VariantSelection) =>
+      Object.entries(selection)
+        .map(([name, value]) => `${name.trim().toLowerCase()}=${value.trim().toLowerCase()}`)
+        .sort()
+        .join('|');
+    return normalize(expected) === normalize(actual);
+  }
+}
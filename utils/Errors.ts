@@ -0,0 +1,133 @@
+import { CartDataMismatch } from '../models/CartData';
+import { SearchViolation } from '../models/SearchVerification';
+
+/**
+ * Errors
+ * Typed errors so tests can tell failure categories apart
+ */
+
+/**
+ * Thrown when eBay rejects the user ID or password
+ */
+export class InvalidCredentialsError extends Error {
+  constructor(readonly username: string, reason: string) {
+    super(`❌ Sign-in failed for "${username}": ${reason}`);
+    this.name = 'InvalidCredentialsError';
+  }
+}
+
+/**
+ * Thrown when eBay asks for a 2FA code and none is configured (EBAY_OTP_CODE)
+ */
+export class TwoFactorRequiredError extends Error {
+  constructor(readonly username: string) {
+    super(`❌ Sign-in for "${username}" requires a 2FA code - set EBAY_OTP_CODE`);
+    this.name = 'TwoFactorRequiredError';
+  }
+}
+
+/**
+ * Thrown when the checkout address form rejects the submitted address
+ */
+export class AddressValidationError extends Error {
+  constructor(readonly fieldErrors: string[]) {
+    super(`❌ Shipping address was rejected: ${fieldErrors.join('; ')}`);
+    this.name = 'AddressValidationError';
+  }
+}
+
+/**
+ * Thrown when a CAPTCHA or another bot check blocks the page
+ */
+export class BotDetectedError extends Error {
+  constructor(readonly interstitial: string, readonly url: string) {
+    super(`❌ Bot detection (${interstitial}) at ${url} - test cannot continue`);
+    this.name = 'BotDetectedError';
+  }
+}
+
+/**
+ * Thrown when an interstitial means the current item should be skipped
+ */
+export class ItemSkippedError extends Error {
+  constructor(readonly interstitial: string, readonly url: string) {
+    super(`⚠️  Skipping item at ${url}: ${interstitial}`);
+    this.name = 'ItemSkippedError';
+  }
+}
+
+/**
+ * Thrown when scenario data does not match the scenario schema
+ */
+export class ScenarioValidationError extends Error {
+  constructor(readonly source: string, readonly issues: string[]) {
+    super(`❌ Invalid scenario data in ${source}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ScenarioValidationError';
+  }
+}
+
+/**
+ * Thrown when flow data does not match the flow schema
+ */
+export class FlowValidationError extends Error {
+  constructor(readonly source: string, readonly issues: string[]) {
+    super(`❌ Invalid flow data in ${source}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'FlowValidationError';
+  }
+}
+
+/**
+ * Thrown when a listing does not offer a variant value the scenario requires
+ */
+export class VariantUnavailableError extends Error {
+  constructor(readonly dimension: string, readonly value: string, readonly url: string) {
+    super(`⚠️  Skipping item at ${url}: ${dimension} "${value}" is not available`);
+    this.name = 'VariantUnavailableError';
+  }
+}
+
+/**
+ * Thrown when a replayed test has no recording or sent requests its HAR file cannot answer
+ */
+export class HarReplayError extends Error {
+  constructor(readonly file: string, readonly unmatched: string[], reason?: string) {
+    super(reason
+      ? `❌ HAR replay from ${file} failed: ${reason}`
+      : `❌ HAR replay from ${file} failed: ${unmatched.length} request(s) not in the recording:\n${unmatched.map(request => `  - ${request}`).join('\n')}`);
+    this.name = 'HarReplayError';
+  }
+}
+
+/**
+ * Thrown when the cart service data and the rendered cart page disagree
+ */
+export class CartDataMismatchError extends Error {
+  constructor(readonly url: string, readonly mismatches: CartDataMismatch[]) {
+    super(`❌ Cart data and page disagree (${url}):\n${mismatches
+      .map(mismatch => `  - ${mismatch.field}: data ${mismatch.data ?? 'absent'}, page ${mismatch.page ?? 'absent'}`)
+      .join('\n')}`);
+    this.name = 'CartDataMismatchError';
+  }
+}
+
+/**
+ * Thrown (PERF_BUDGET_MODE=fail) when measured page opens or actions exceed their budget
+ */
+export class PerformanceBudgetError extends Error {
+  constructor(readonly violations: string[]) {
+    super(`❌ Performance budget exceeded:\n${violations.map(violation => `  - ${violation}`).join('\n')}`);
+    this.name = 'PerformanceBudgetError';
+  }
+}
+
+/**
+ * Thrown when search results break the requested sort order or price filter
+ */
+export class SearchResultsError extends Error {
+  constructor(readonly url: string, readonly violations: SearchViolation[]) {
+    super(`❌ Search results violate the sort order or price filter (${url}):\n${violations
+      .map(violation => `  - page ${violation.page} #${violation.position} ${violation.itemId} [${violation.check}]: ${violation.value} vs ${violation.bound}`)
+      .join('\n')}`);
+    this.name = 'SearchResultsError';
+  }
+}
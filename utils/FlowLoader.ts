@@ -0,0 +1,184 @@
+import { readFileSync, readdirSync, statSync } from 'fs';
+import { extname, join, relative } from 'path';
+import { Flow, FlowStep, FlowStepName } from '../models/Flow';
+import { ScenarioLoader, FILTER_FIELDS } from './ScenarioLoader';
+import { FlowValidationError } from './Errors';
+
+/**
+ * FlowLoader Utility
+ * Loads step-based flows from a JSON file or a directory of them and validates every step's arguments
+ */
+
+interface ArgumentRule {
+  test: (value: unknown) => boolean;
+  expected: string;
+  required?: boolean;
+}
+
+const isPositive = (value: unknown) => typeof value === 'number' && isFinite(value) && value > 0;
+const isIndex = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+const isBoolean = (value: unknown) => typeof value === 'boolean';
+
+const positiveNumber: ArgumentRule = { test: isPositive, expected: 'a positive number' };
+const index: ArgumentRule = { test: isIndex, expected: 'an integer >= 0' };
+const flag: ArgumentRule = { test: isBoolean, expected: 'true or false' };
+
+// Arguments per step; filter fields of the "filter" step are checked by ScenarioLoader.checkFilters
+const STEP_ARGUMENTS: Record<FlowStepName, Record<string, ArgumentRule>> = {
+  clearCart: {},
+  search: {
+    query: { test: value => typeof value === 'string' && value.trim() !== '', expected: 'a non-empty string', required: true },
+  },
+  filter: {
+    minPrice: { test: value => typeof value === 'number' && value >= 0, expected: 'a number >= 0' },
+    maxPrice: positiveNumber,
+    mode: { test: value => value === 'url' || value === 'facets', expected: '"url" or "facets"' },
+  },
+  pickResults: {
+    count: { test: value => isIndex(value) && (value as number) > 0, expected: 'a positive integer', required: true },
+    maxPrice: positiveNumber,
+    includeShipping: flag,
+  },
+  openItem: {
+    index: { ...index, required: true },
+  },
+  selectVariant: {
+    values: {
+      test: value => ScenarioLoader.isObject(value) && Object.values(value).every(entry => typeof entry === 'string'),
+      expected: 'an object of dimension → value strings',
+    },
+  },
+  addToCart: {
+    all: flag,
+  },
+  removeFromCart: {
+    index,
+  },
+  assertCart: {
+    maxPrice: { ...positiveNumber, required: true },
+    budgetMode: { test: value => ScenarioLoader.isBudgetMode(value), expected: 'subtotal, subtotalPlusShipping or grandTotal' },
+    itemCount: index,
+  },
+};
+
+const FLOW_FIELDS = ['name', 'description', 'tags', 'labels', 'steps'];
+
+export class FlowLoader {
+  /**
+   * Load and validate flows from a JSON file or a directory of JSON files
+   * A file may hold { "flows": [...] }, an array, or a single flow object
+   * @param source - File or directory path
+   * @returns Validated flows
+   * @throws FlowValidationError listing every invalid field
+   */
+  static load(source: string): Flow[] {
+    const files = statSync(source).isDirectory()
+      ? readdirSync(source).filter(file => extname(file).toLowerCase() === '.json').sort().map(file => join(source, file))
+      : [source];
+    const flows = files.flatMap(file => this.loadFile(file));
+
+    const seen = new Set<string>();
+    const duplicates = flows.map(flow => flow.name).filter(name => seen.has(name) || !seen.add(name));
+    if (duplicates.length > 0) {
+      throw new FlowValidationError(source, duplicates.map(name => `duplicate flow name "${name}"`));
+    }
+    return flows;
+  }
+
+  /**
+   * Check one raw flow and its steps
+   * @param raw - Parsed JSON object
+   * @param source - Location for error messages
+   * @throws FlowValidationError with one entry per invalid field
+   */
+  static validate(raw: unknown, source: string): Flow {
+    if (!ScenarioLoader.isObject(raw)) {
+      throw new FlowValidationError(source, ['flow must be an object']);
+    }
+
+    const issues: string[] = [];
+    ScenarioLoader.checkUnknownFields(raw, FLOW_FIELDS, '', issues);
+
+    if (typeof raw.name !== 'string' || raw.name.trim() === '') {
+      issues.push(`name: expected a non-empty string, got ${ScenarioLoader.describe(raw.name)}`);
+    }
+    if (raw.description !== undefined && typeof raw.description !== 'string') {
+      issues.push(`description: expected a string, got ${ScenarioLoader.describe(raw.description)}`);
+    }
+    if (raw.tags !== undefined && !ScenarioLoader.isTagList(raw.tags)) {
+      issues.push(`tags: expected an array of words (letters, digits, "_" or "-"), got ${ScenarioLoader.describe(raw.tags)}`);
+    }
+    if (raw.labels !== undefined) {
+      ScenarioLoader.checkLabels(raw.labels, issues);
+    }
+
+    if (!Array.isArray(raw.steps) || raw.steps.length === 0) {
+      issues.push(`steps: expected a non-empty array, got ${ScenarioLoader.describe(raw.steps)}`);
+    } else {
+      raw.steps.forEach((step, position) => this.checkStep(step, `steps[${position}]`, issues));
+    }
+
+    if (issues.length > 0) {
+      const name = typeof raw.name === 'string' ? ` ("${raw.name}")` : '';
+      throw new FlowValidationError(`${source}${name}`, issues);
+    }
+
+    return { ...(raw as unknown as Flow), tags: (raw.tags as string[] | undefined) ?? [] };
+  }
+
+  private static loadFile(file: string): Flow[] {
+    const source = relative(process.cwd(), file) || file;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(readFileSync(file, 'utf-8'));
+    } catch (error) {
+      throw new FlowValidationError(source, [`not valid JSON: ${(error as Error).message}`]);
+    }
+
+    const list = Array.isArray(data) ? data : ScenarioLoader.isObject(data) && 'flows' in data ? data.flows : [data];
+    if (!Array.isArray(list)) {
+      throw new FlowValidationError(source, ['"flows" must be an array']);
+    }
+    return list.map((raw, position) => this.validate(raw, `${source} flows[${position}]`));
+  }
+
+  private static checkStep(step: unknown, path: string, issues: string[]): void {
+    if (!ScenarioLoader.isObject(step)) {
+      issues.push(`${path}: expected a step object, got ${ScenarioLoader.describe(step)}`);
+      return;
+    }
+
+    const name = step.step as FlowStepName;
+    const rules = STEP_ARGUMENTS[name];
+    if (typeof step.step !== 'string' || !rules) {
+      issues.push(`${path}.step: expected one of ${Object.keys(STEP_ARGUMENTS).join(', ')}, got ${ScenarioLoader.describe(step.step)}`);
+      return;
+    }
+
+    const filterFields = name === 'filter' ? FILTER_FIELDS : [];
+    ScenarioLoader.checkUnknownFields(step, ['step', ...Object.keys(rules), ...filterFields], `${path}.`, issues);
+
+    for (const [argument, rule] of Object.entries(rules)) {
+      const value = step[argument];
+      if (value === undefined ? rule.required : !rule.test(value)) {
+        issues.push(`${path}.${argument}: expected ${rule.expected}, got ${ScenarioLoader.describe(value)}`);
+      }
+    }
+
+    if (name === 'filter') {
+      const filters = Object.fromEntries(Object.entries(step).filter(([field]) => filterFields.includes(field)));
+      ScenarioLoader.checkFilters(filters, issues, path);
+    }
+  }
+
+  /**
+   * Short human-readable title for a step, used as the Allure step name and in the console log
+   * @param step - Validated step
+   */
+  static describeStep(step: FlowStep): string {
+    const { step: name, ...args } = step;
+    const details = Object.entries(args).map(([key, value]) => `${key}=${typeof value === 'object' ? JSON.stringify(value) : value}`);
+    return details.length > 0 ? `${name} (${details.join(', ')})` : name;
+  }
+}
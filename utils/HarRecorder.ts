@@ -0,0 +1,110 @@
+import { BrowserContext, TestInfo } from '@playwright/test';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { config } from '../config/env.config';
+import { HarRecording } from '../models/HarRecording';
+import { HarReplayError } from './Errors';
+import { TestPaths } from './TestPaths';
+
+/**
+ * HarRecorder Utility
+ * Records a test's search, item and cart traffic into its own HAR file (HAR_MODE=record)
+ * and serves it back through routeFromHAR (HAR_MODE=replay). Works on the browser context,
+ * so page objects run unchanged in every mode.
+ */
+
+// Numbers repeated requests (the cart before and after adding) so replay serves them in recorded order
+const OCCURRENCE_HEADER = 'x-har-occurrence';
+
+export class HarRecorder {
+  /**
+   * Requests that are recorded and replayed: home, search and item pages, add-to-cart and the cart
+   * Everything else (images, scripts, tracking) always goes to the network
+   */
+  static urlFilter(): RegExp {
+    const escape = (url: string) => url.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const site = escape(config.baseURL);
+    const cart = escape(config.cartURL.replace(/\/$/, ''));
+    return new RegExp(`^(?:${site}/(?:$|\\?|sch/|itm/|api/cart(?:$|[/?]))|${cart}(?:$|[/?]))`);
+  }
+
+  /**
+   * HAR file and sidecar of a test: <dir>/<project>/<title path slug>.har
+   * @param testInfo - Test the recording belongs to
+   */
+  static pathsFor(testInfo: TestInfo): { har: string; recording: string } {
+    const base = join(config.har.dir, testInfo.project.name || 'default', TestPaths.slug(testInfo.titlePath));
+    return { har: `${base}.har`, recording: `${base}.json` };
+  }
+
+  /**
+   * Capture the test's traffic; the HAR file is written when the context closes
+   * @param context - Browser context of the test
+   * @param testInfo - Current test
+   * @param seed - Per-test RandomSelector seed, stored so replay makes the same choices
+   */
+  static async record(context: BrowserContext, testInfo: TestInfo, seed: number): Promise<string> {
+    const paths = this.pathsFor(testInfo);
+    mkdirSync(dirname(paths.har), { recursive: true });
+
+    const recording: HarRecording = {
+      title: testInfo.titlePath.join(' › '),
+      project: testInfo.project.name,
+      seed,
+      baseURL: config.baseURL,
+      marketplace: config.marketplace.id,
+      recordedAt: new Date().toISOString(),
+    };
+    writeFileSync(paths.recording, JSON.stringify(recording, null, 2));
+
+    await context.routeFromHAR(paths.har, { url: this.urlFilter(), update: true, updateContent: 'embed' });
+    await this.numberRequests(context);
+    console.log(`🎙️  Recording traffic to ${paths.har}`);
+    return paths.har;
+  }
+
+  /**
+   * Serve the test's search, item and cart traffic from its HAR file
+   * Requests without a recorded entry are aborted and collected in the returned list
+   * @param context - Browser context of the test
+   * @param testInfo - Current test
+   * @returns The recording and the (live) list of unmatched requests
+   * @throws HarReplayError when the test has no recording
+   */
+  static async replay(context: BrowserContext, testInfo: TestInfo): Promise<{ har: string; recording: HarRecording; unmatched: string[] }> {
+    const paths = this.pathsFor(testInfo);
+    if (!existsSync(paths.har) || !existsSync(paths.recording)) {
+      throw new HarReplayError(paths.har, [], 'no recording for this test - run it once with HAR_MODE=record');
+    }
+    const recording = JSON.parse(readFileSync(paths.recording, 'utf-8')) as HarRecording;
+
+    // Routes run last-registered first: the HAR router answers, unmatched requests fall back to this handler
+    const unmatched: string[] = [];
+    await context.route(this.urlFilter(), route => {
+      const request = route.request();
+      unmatched.push(`${request.method()} ${request.url()}`);
+      console.log(`⚠️  Not in ${paths.har}: ${request.method()} ${request.url()}`);
+      return route.abort('blockedbyclient');
+    });
+    await context.routeFromHAR(paths.har, { url: this.urlFilter(), notFound: 'fallback' });
+    await this.numberRequests(context);
+
+    console.log(`📼 Replaying traffic from ${paths.har} (recorded ${recording.recordedAt})`);
+    return { har: paths.har, recording, unmatched };
+  }
+
+  /**
+   * Add the occurrence header to every recorded request
+   * Registered after routeFromHAR in both modes so it runs first and the header is on the request the HAR sees
+   */
+  private static async numberRequests(context: BrowserContext): Promise<void> {
+    const seen = new Map<string, number>();
+    await context.route(this.urlFilter(), route => {
+      const request = route.request();
+      const key = `${request.method()} ${request.url()} ${request.postData() ?? ''}`;
+      const occurrence = (seen.get(key) ?? 0) + 1;
+      seen.set(key, occurrence);
+      return route.fallback({ headers: { ...request.headers(), [OCCURRENCE_HEADER]: String(occurrence) } });
+    });
+  }
+}
@@ -0,0 +1,131 @@
+import { config } from '../config/env.config';
+import { BuyingFormat, SellerInfo } from '../models/SearchResult';
+import { PriceParser } from './PriceParser';
+
+/**
+ * ListingParser Utility
+ * Turns raw search card text (URLs, shipping, format, seller lines) into typed values
+ */
+
+const COUNT_MULTIPLIERS: Record<string, number> = { K: 1000, M: 1000000 };
+
+// First three letters of English and German month names → month index
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, mär: 2, apr: 3, may: 4, mai: 4, jun: 5,
+  jul: 6, aug: 7, sep: 8, oct: 9, okt: 9, nov: 10, dec: 11, dez: 11,
+};
+
+export class ListingParser {
+  /**
+   * Extract item ID from an item URL
+   * Handles "/itm/123456789012" and "/itm/some-title/123456789012?hash=..."
+   * @param url - Item URL
+   * @returns Item ID or null if not found
+   */
+  static extractItemId(url: string): string | null {
+    const match = url.match(/\/itm\/(?:[^/?#]+\/)?(\d{9,})/);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Build canonical item URL
+   * @param itemId - eBay item ID
+   * @returns URL without tracking parameters
+   */
+  static canonicalUrl(itemId: string): string {
+    return `${config.baseURL}/itm/${itemId}`;
+  }
+
+  /**
+   * Parse shipping cost from a card line
+   * Handles "Free delivery", "Free shipping", "+$12.00 delivery", "+$5.60 shipping"
+   * @param text - Shipping line text
+   * @returns 0 for free, cost, or null if the line is not about shipping
+   */
+  static parseShipping(text: string): number | null {
+    const patterns = config.marketplace.patterns;
+    if (!patterns.shipping.test(text)) {
+      return null;
+    }
+    if (patterns.free.test(text)) {
+      return 0;
+    }
+    const cost = PriceParser.parse(text);
+    return cost > 0 ? cost : null;
+  }
+
+  /**
+   * Detect buying formats mentioned in a card line
+   * @param text - Card line text (e.g. "Buy It Now", "or Best Offer", "3 bids")
+   */
+  static parseBuyingFormats(text: string): BuyingFormat[] {
+    const formats: BuyingFormat[] = [];
+    const patterns = config.marketplace.patterns;
+    if (patterns.buyItNow.test(text)) formats.push('buyItNow');
+    if (patterns.bestOffer.test(text)) formats.push('bestOffer');
+    if (patterns.auction.test(text)) formats.push('auction');
+    return formats;
+  }
+
+  /**
+   * Parse seller line
+   * Handles "seller_name 99.5% positive (1.2K)"
+   * @param text - Seller line text
+   * @returns Seller info or null if the line is not a seller line
+   */
+  static parseSeller(text: string): SellerInfo | null {
+    const match = text.trim().match(/^(\S+)\s+([\d.]+)%\s+positive(?:\s+\(([\d.,]+)([KM]?)\))?/i);
+    if (!match) {
+      return null;
+    }
+
+    let feedbackCount: number | null = null;
+    if (match[3]) {
+      const multiplier = COUNT_MULTIPLIERS[match[4].toUpperCase()] ?? 1;
+      feedbackCount = Math.round(parseFloat(match[3].replace(/,/g, '')) * multiplier);
+    }
+
+    return {
+      name: match[1],
+      feedbackPercent: parseFloat(match[2]),
+      feedbackCount,
+    };
+  }
+
+  /**
+   * Parse the listing time line of a card (shown when sorting by newly listed)
+   * Handles "Listed Oct-17 14:05", "Listed 17-Oct 14:05" and "Eingestellt 17. Okt. 14:05";
+   * the year is not shown, so a date after now is taken to be from last year
+   * @param text - Card line text
+   * @param now - Reference time (default: now)
+   * @returns Listing time in epoch milliseconds, or null if the line is not a listing time
+   */
+  static parseListedAt(text: string, now: Date = new Date()): number | null {
+    if (!config.marketplace.patterns.listed.test(text)) {
+      return null;
+    }
+
+    const monthName = text.toLowerCase().match(/\b(\p{L}{3})\p{L}*\.?(?=[\s-]|\d)/gu)
+      ?.map(word => word.slice(0, 3))
+      .find(word => MONTHS[word] !== undefined);
+    const day = text.match(/(?:^|[\s-])(\d{1,2})(?=[.\s-]|$)/);
+    const time = text.match(/(\d{1,2}):(\d{2})/);
+    if (!monthName || !day || !time) {
+      return null;
+    }
+
+    const listed = new Date(now.getFullYear(), MONTHS[monthName], parseInt(day[1], 10), parseInt(time[1], 10), parseInt(time[2], 10));
+    if (listed.getTime() > now.getTime() + 24 * 60 * 60 * 1000) {
+      listed.setFullYear(listed.getFullYear() - 1);
+    }
+    return listed.getTime();
+  }
+
+  /**
+   * Clean card title (drops the "New Listing" badge text)
+   * @param text - Raw title text
+   */
+  static cleanTitle(text: string): string {
+    return text.replace(/^\s*New Listing/i, '').replace(/\s+/g, ' ').trim();
+  }
+}
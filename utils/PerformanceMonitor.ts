@@ -0,0 +1,228 @@
+import { Page, Request } from '@playwright/test';
+import { appendFileSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { config } from '../config/env.config';
+import { PerformanceBudget, PerformanceStep } from '../config/performance';
+import { PerformanceHistoryEntry, PerformanceMetrics } from '../models/PerformanceMetrics';
+import { AllureReporter } from './AllureReporter';
+
+/**
+ * PerformanceMonitor Utility
+ * Measures navigation timing, LCP, request count and transfer size of page opens and key actions
+ */
+
+type AsyncMethod<This, Args extends unknown[], Return> = (this: This, ...args: Args) => Promise<Return>;
+
+// Timing read in the page after a step; LCP entries are only buffered by Chromium
+interface PageTiming {
+  timeOrigin: number;
+  ttfb: number | null;
+  domContentLoaded: number | null;
+  load: number | null;
+  lcp: number | null;
+}
+
+/**
+ * Measure a page object method as a performance step
+ * Nested measured calls (e.g. openCart falling back to goto) count toward the outer step only
+ * @param step - Step name, or a function of the method's first argument (e.g. the URL)
+ */
+export function measure<This extends { page: Page }, Args extends unknown[], Return>(
+  step: PerformanceStep | ((...args: Args) => PerformanceStep)
+) {
+  return function (
+    method: AsyncMethod<This, Args, Return>,
+    _context: ClassMethodDecoratorContext<This, AsyncMethod<This, Args, Return>>
+  ): AsyncMethod<This, Args, Return> {
+    return AllureReporter.wrap(method, function (this: This, ...args: Args): Promise<Return> {
+      const name = typeof step === 'function' ? step(...args) : step;
+      return PerformanceMonitor.measure(this.page, name, () => method.apply(this, args));
+    });
+  };
+}
+
+export class PerformanceMonitor {
+  private static metrics: PerformanceMetrics[] = [];
+  private static active = 0;
+
+  /**
+   * Run an action and record what it cost
+   * @param page - Page the action runs on
+   * @param step - Step name (selects the budget)
+   * @param action - Navigation or interaction
+   * @returns The action's result
+   */
+  static async measure<T>(page: Page, step: PerformanceStep, action: () => Promise<T>): Promise<T> {
+    if (!config.performance.enabled || this.active > 0) {
+      return action();
+    }
+
+    const requests: Request[] = [];
+    const finished = new Map<Request, number>();
+    const failed = new Set<Request>();
+    const onRequest = (request: Request) => requests.push(request);
+    const onFinished = (request: Request) => finished.set(request, Date.now());
+    const onFailed = (request: Request) => failed.add(request);
+
+    const timeOrigin = await page.evaluate(() => performance.timeOrigin).catch(() => 0);
+    const started = Date.now();
+    this.active++;
+    page.on('request', onRequest);
+    page.on('requestfinished', onFinished);
+    page.on('requestfailed', onFailed);
+
+    try {
+      return await action();
+    } finally {
+      const ended = Date.now();
+      page.off('request', onRequest);
+      page.off('requestfinished', onFinished);
+      page.off('requestfailed', onFailed);
+      this.active--;
+
+      try {
+        const timing = await this.readTiming(page);
+        const navigation = timing.timeOrigin !== timeOrigin;
+        const sizes = await Promise.all([...finished.keys()].map(request =>
+          request.sizes().then(size => size.responseHeadersSize + size.responseBodySize).catch(() => 0)
+        ));
+        const lastFinished = Math.max(0, ...finished.values());
+
+        const budget = config.performance.budgets[step];
+        const metrics: PerformanceMetrics = {
+          step,
+          url: page.url(),
+          navigation,
+          durationMs: Math.round(navigation
+            ? timing.load ?? timing.domContentLoaded ?? ended - started
+            : (lastFinished || ended) - started),
+          ttfbMs: navigation ? this.round(timing.ttfb) : null,
+          domContentLoadedMs: navigation ? this.round(timing.domContentLoaded) : null,
+          lcpMs: navigation ? this.round(timing.lcp) : null,
+          requests: requests.length,
+          failedRequests: failed.size,
+          transferKb: Math.round(sizes.reduce((sum, size) => sum + size, 0) / 1024),
+          budget,
+          violations: [],
+        };
+        metrics.violations = this.check(metrics, budget);
+        this.metrics.push(metrics);
+
+        for (const violation of metrics.violations) {
+          console.log(`⚠️  ${step} over budget: ${violation}`);
+        }
+      } catch (error) {
+        console.log(`Could not read performance metrics for ${step}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Step name of a page open, by page type
+   * @param url - URL passed to BasePage.goto
+   */
+  static stepForUrl(url: string): PerformanceStep {
+    if (url.startsWith(config.cartURL)) return 'openCart';
+    if (/\/sch\//.test(url)) return 'openSearch';
+    if (/\/itm\//.test(url)) return 'openItem';
+    return 'openPage';
+  }
+
+  /**
+   * Limits a measurement exceeds
+   * @param metrics - Measured step
+   * @param budget - Limits for the step
+   * @returns One entry per exceeded limit, e.g. "lcpMs 5210 > 4000"
+   */
+  static check(metrics: PerformanceMetrics, budget: PerformanceBudget): string[] {
+    const violations: string[] = [];
+    for (const limit of ['durationMs', 'lcpMs', 'requests', 'transferKb'] as const) {
+      const value = metrics[limit];
+      const max = budget[limit];
+      if (value !== null && max !== undefined && value > max) {
+        violations.push(`${limit} ${value} > ${max}`);
+      }
+    }
+    return violations;
+  }
+
+  /**
+   * Steps measured since the last reset
+   */
+  static getMetrics(): PerformanceMetrics[] {
+    return [...this.metrics];
+  }
+
+  /**
+   * Forget the recorded steps (called before every test)
+   */
+  static reset(): void {
+    this.metrics = [];
+    this.active = 0;
+  }
+
+  /**
+   * Render steps as CSV (Allure shows CSV attachments as a table)
+   * @param metrics - Measured steps
+   */
+  static toCsv(metrics: PerformanceMetrics[]): string {
+    const cell = (value: unknown) => value === null || value === undefined ? '' : `"${String(value).replace(/"/g, '""')}"`;
+    const header = ['Step', 'Duration ms', 'TTFB ms', 'DCL ms', 'LCP ms', 'Requests', 'Failed', 'Transfer KB', 'Over budget', 'URL'];
+    const rows = metrics.map(entry => [
+      entry.step,
+      entry.durationMs,
+      entry.ttfbMs,
+      entry.domContentLoadedMs,
+      entry.lcpMs,
+      entry.requests,
+      entry.failedRequests,
+      entry.transferKb,
+      entry.violations.join('; '),
+      entry.url,
+    ]);
+    return [header, ...rows].map(row => row.map(cell).join(',')).join('\n');
+  }
+
+  /**
+   * Append one test's steps to the history file (one JSON object per line)
+   * @param entry - Test and its measured steps
+   * @param path - History file (default: config.performance.historyPath)
+   */
+  static appendHistory(entry: PerformanceHistoryEntry, path: string = config.performance.historyPath): void {
+    mkdirSync(dirname(path), { recursive: true });
+    appendFileSync(path, `${JSON.stringify(entry)}\n`);
+  }
+
+  private static async readTiming(page: Page): Promise<PageTiming> {
+    return page.evaluate(async () => {
+      const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+      const lcp = await new Promise<number | null>(resolve => {
+        if (!PerformanceObserver.supportedEntryTypes?.includes('largest-contentful-paint')) {
+          resolve(null);
+          return;
+        }
+        let latest: number | null = null;
+        const observer = new PerformanceObserver(list => {
+          const entries = list.getEntries();
+          latest = entries[entries.length - 1].startTime;
+        });
+        observer.observe({ type: 'largest-contentful-paint', buffered: true });
+        setTimeout(() => {
+          observer.disconnect();
+          resolve(latest);
+        }, 50);
+      });
+      return {
+        timeOrigin: performance.timeOrigin,
+        ttfb: navigation?.responseStart || null,
+        domContentLoaded: navigation?.domContentLoadedEventEnd || null,
+        load: navigation?.loadEventEnd || null,
+        lcp,
+      };
+    });
+  }
+
+  private static round(value: number | null): number | null {
+    return value === null ? null : Math.round(value);
+  }
+}
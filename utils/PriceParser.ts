@@ -1,34 +1,134 @@
+import { config } from '../config/env.config';
+import { Money, PriceRange, ParsedPrice } from '../models/Money';
+
 /**
  * PriceParser Utility
- * Handles price string parsing to numeric values
+ * Handles price string parsing to numeric values and Money
  */
 
+// Currency markers as shown on eBay sites, longest first so "US $" wins over "$"
+const CURRENCY_MARKERS: [string, string][] = [
+  ['US $', 'USD'], ['US$', 'USD'], ['C $', 'CAD'], ['C$', 'CAD'], ['AU $', 'AUD'], ['AU$', 'AUD'],
+  ['NZ $', 'NZD'], ['HK $', 'HKD'], ['S$', 'SGD'], ['£', 'GBP'], ['€', 'EUR'], ['¥', 'JPY'],
+  ['₹', 'INR'], ['zł', 'PLN'], ['Fr.', 'CHF'],
+];
+
+const ISO_CODES = new Set([
+  'USD', 'EUR', 'GBP', 'CAD', 'AUD', 'NZD', 'HKD', 'SGD', 'CHF', 'JPY', 'INR', 'PLN', 'SEK', 'NOK', 'DKK', 'CZK', 'MXN', 'CNY',
+]);
+
+// Usual decimal separator per currency, for amounts shown in a currency other than the site's
+const DECIMAL_SEPARATORS: Record<string, string> = {
+  EUR: ',', PLN: ',', SEK: ',', NOK: ',', DKK: ',', CZK: ',',
+  USD: '.', GBP: '.', CAD: '.', AUD: '.', NZD: '.', HKD: '.', SGD: '.', CHF: '.', JPY: '.', INR: '.', MXN: '.', CNY: '.',
+};
+
+const NUMBER_PATTERN = /\d+(?:(?:[.,'’]|\s(?=\d{3}(?!\d)))\d+)*/g;
+const APPROXIMATE_PATTERN = /approximately|approx\.?|\bca\.|\babout\b|\bcirca\b|\benviron\b|umgerechnet/i;
+const RANGE_CONNECTOR_PATTERN = /^\s*(?:to|bis|à|a|-|–|—)\s*$/i;
+
+interface AmountToken {
+  amount: number;
+  currency: string | null;
+  start: number;
+  end: number;
+}
+
 export class PriceParser {
   /**
    * Parse price string to number
-   * Handles formats like: "$50.99", "$1,234.56", "US $999.00"
+   * Handles formats like: "$50.99", "$1,234.56", "US $999.00", "1.234,56 €", "£12.99".
+   * Ranges return their lower bound; when the listed currency differs from
+   * config.currency and a converted price in config.currency is shown, that amount is used.
    * @param priceText - The price string from the page
    * @returns Numeric price value
    */
   static parse(priceText: string): number {
-    if (!priceText) {
+    const parsed = this.parsePrice(priceText);
+    if (!parsed) {
       return 0;
     }
 
-    // Remove all non-numeric characters except dots
-    const cleanPrice = priceText.replace(/[^0-9.]/g, '');
-    const price = parseFloat(cleanPrice);
+    const { listed, converted } = parsed;
+    if (listed.min.currency !== config.currency.code && converted?.min.currency === config.currency.code) {
+      return converted.min.amount;
+    }
+    return listed.min.amount;
+  }
+
+  /**
+   * Parse the lower and upper amount of a price string as numbers
+   * Same currency rule as parse; single prices give min === max
+   * @param priceText - The price string from the page
+   * @returns Bounds or null if the text has no amount
+   */
+  static parseBounds(priceText: string): { min: number; max: number } | null {
+    const parsed = this.parsePrice(priceText);
+    if (!parsed) {
+      return null;
+    }
+
+    const { listed, converted } = parsed;
+    const range = listed.min.currency !== config.currency.code && converted?.min.currency === config.currency.code ? converted : listed;
+    return { min: range.min.amount, max: range.max.amount };
+  }
+
+  /**
+   * Parse a price string into listed and converted price ranges
+   * @param priceText - The price string from the page
+   * @param locale - Locale used to resolve ambiguous separators (e.g. "1.234") of the site currency
+   * @returns Parsed price or null if the text has no amount
+   */
+  static parsePrice(priceText: string, locale: string = config.locale): ParsedPrice | null {
+    if (!priceText) {
+      return null;
+    }
+
+    const approximate = priceText.match(APPROXIMATE_PATTERN);
+    const listedText = approximate ? priceText.slice(0, approximate.index) : priceText;
+    const convertedText = approximate ? priceText.slice(approximate.index! + approximate[0].length) : '';
 
-    return isNaN(price) ? 0 : price;
+    const listed = this.parseRangeText(listedText, locale);
+    if (!listed) {
+      // Only a converted amount is present
+      const onlyConverted = this.parseRangeText(convertedText, locale);
+      return onlyConverted ? { listed: onlyConverted, converted: null } : null;
+    }
+
+    return {
+      listed,
+      converted: this.parseRangeText(convertedText, locale),
+    };
   }
 
   /**
-   * Format number to price string
-   * @param price - Numeric price
-   * @returns Formatted price string (e.g., "$50.99")
+   * Parse the first amount in a price string
+   * @param priceText - The price string from the page
+   * @param locale - Locale used to resolve ambiguous separators
+   * @returns Money or null if the text has no amount
    */
-  static format(price: number): string {
-    return `$${price.toFixed(2)}`;
+  static parseMoney(priceText: string, locale: string = config.locale): Money | null {
+    return this.parsePrice(priceText, locale)?.listed.min ?? null;
+  }
+
+  /**
+   * Parse a price range ("$10.00 to $25.00"); single prices give min === max
+   * @param priceText - The price string from the page
+   * @param locale - Locale used to resolve ambiguous separators
+   * @returns Price range or null if the text has no amount
+   */
+  static parseRange(priceText: string, locale: string = config.locale): PriceRange | null {
+    return this.parsePrice(priceText, locale)?.listed ?? null;
+  }
+
+  /**
+   * Format number to price string in config.currency
+   * @param price - Numeric price or Money
+   * @returns Formatted price string (e.g., "$50.99", "50,99 €")
+   */
+  static format(price: number | Money): string {
+    const money = typeof price === 'number' ? { amount: price, currency: config.currency.code } : price;
+    return new Intl.NumberFormat(config.locale, { style: 'currency', currency: money.currency }).format(money.amount);
   }
 
   /**
@@ -39,4 +139,123 @@ export class PriceParser {
   static isValid(priceText: string): boolean {
     return this.parse(priceText) > 0;
   }
+
+  private static parseRangeText(text: string, locale: string): PriceRange | null {
+    const tokens = this.tokenize(text, locale);
+    if (tokens.length === 0) {
+      return null;
+    }
+
+    const first = tokens[0];
+    const currency = first.currency ?? tokens.find(token => token.currency)?.currency ?? config.currency.code;
+    const min: Money = { amount: first.amount, currency };
+
+    const second = tokens[1];
+    if (second && this.isRangeConnector(text.slice(first.end, second.start))) {
+      return { min, max: { amount: second.amount, currency: second.currency ?? currency } };
+    }
+
+    return { min, max: min };
+  }
+
+  private static tokenize(text: string, locale: string): AmountToken[] {
+    const matches = [...text.matchAll(NUMBER_PATTERN)].map(match => {
+      const start = match.index!;
+      const end = start + match[0].length;
+      return { raw: match[0], start, end, currency: this.currencyBefore(text.slice(0, start)) ?? this.currencyAfter(text.slice(end)) };
+    });
+
+    // Both ends of "1.000 - 2.000 €" follow the euro's separators
+    const textCurrency = matches.find(match => match.currency)?.currency ?? null;
+    return matches.map(({ raw, start, end, currency }) => ({
+      amount: this.normalizeNumber(raw, this.decimalSeparator(currency ?? textCurrency, locale)),
+      currency,
+      start,
+      end,
+    }));
+  }
+
+  /**
+   * Resolve decimal vs. grouping separators
+   * "1.234,56" / "1,234.56" → last separator is the decimal one;
+   * a single separator followed by exactly 3 digits is decimal only if it is preferredDecimal
+   */
+  private static normalizeNumber(raw: string, preferredDecimal: string): number {
+    const compact = raw.replace(/[\s'’]/g, '');
+    const lastDot = compact.lastIndexOf('.');
+    const lastComma = compact.lastIndexOf(',');
+
+    let decimalSeparator: string | null = null;
+    if (lastDot >= 0 && lastComma >= 0) {
+      decimalSeparator = lastDot > lastComma ? '.' : ',';
+    } else if (lastDot >= 0 || lastComma >= 0) {
+      const separator = lastDot >= 0 ? '.' : ',';
+      const occurrences = compact.split(separator).length - 1;
+      const digitsAfter = compact.length - compact.lastIndexOf(separator) - 1;
+
+      if (occurrences === 1 && digitsAfter !== 3) {
+        decimalSeparator = separator;
+      } else if (occurrences === 1 && separator === preferredDecimal) {
+        decimalSeparator = separator;
+      }
+    }
+
+    const [integerPart, fractionPart] = decimalSeparator
+      ? [compact.slice(0, compact.lastIndexOf(decimalSeparator)), compact.slice(compact.lastIndexOf(decimalSeparator) + 1)]
+      : [compact, ''];
+
+    const amount = parseFloat(`${integerPart.replace(/[.,]/g, '')}.${fractionPart || '0'}`);
+    return isNaN(amount) ? 0 : amount;
+  }
+
+  private static currencyBefore(text: string): string | null {
+    const tail = text.trimEnd();
+    for (const [marker, code] of CURRENCY_MARKERS) {
+      if (tail.endsWith(marker)) return code;
+    }
+    if (tail.endsWith('$')) return this.dollarCurrency();
+
+    const code = tail.match(/\b([A-Z]{3})$/);
+    return code && ISO_CODES.has(code[1]) ? code[1] : null;
+  }
+
+  private static currencyAfter(text: string): string | null {
+    const head = text.trimStart();
+    for (const [marker, code] of CURRENCY_MARKERS) {
+      if (head.startsWith(marker)) return code;
+    }
+    if (head.startsWith('$')) return this.dollarCurrency();
+
+    const code = head.match(/^([A-Z]{3})\b/);
+    return code && ISO_CODES.has(code[1]) ? code[1] : null;
+  }
+
+  private static isRangeConnector(text: string): boolean {
+    let between = text;
+    for (const [marker] of CURRENCY_MARKERS) {
+      between = between.split(marker).join(' ');
+    }
+    between = between.replace(/\$|\b[A-Z]{3}\b/g, ' ');
+    return RANGE_CONNECTOR_PATTERN.test(between);
+  }
+
+  // A bare "$" means the marketplace's own dollar currency, USD elsewhere
+  private static dollarCurrency(): string {
+    return config.currency.symbol === '$' ? config.currency.code : 'USD';
+  }
+
+  /**
+   * Decimal separator for an amount: the locale's for the site currency (or no marker),
+   * the currency's own otherwise, so "1.000 €" is a thousand on an en-US site too
+   */
+  private static decimalSeparator(currency: string | null, locale: string): string {
+    if (currency === null || currency === config.currency.code) {
+      return this.localeDecimalSeparator(locale);
+    }
+    return DECIMAL_SEPARATORS[currency] ?? this.localeDecimalSeparator(locale);
+  }
+
+  private static localeDecimalSeparator(locale: string): string {
+    return new Intl.NumberFormat(locale).formatToParts(1.5).find(part => part.type === 'decimal')?.value ?? '.';
+  }
 }
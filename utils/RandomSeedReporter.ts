@@ -0,0 +1,16 @@
+import type { Reporter } from '@playwright/test/reporter';
+import { config } from '../config/env.config';
+
+/**
+ * RandomSeedReporter - Playwright reporter that prints the run seed once, in the runner process
+ * Workers inherit the seed through RANDOM_SEED; the randomSeed fixture records it on every test
+ */
+export default class RandomSeedReporter implements Reporter {
+  onBegin(): void {
+    console.log(`Random seed: ${config.random.seed} (replay with RANDOM_SEED=${config.random.seed})`);
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+}
@@ -1,9 +1,57 @@
+import { config } from '../config/env.config';
+
 /**
  * RandomSelector Utility
  * Handles random selection of variants (size, color, etc.)
+ * Backed by a seeded PRNG (mulberry32) so selections can be replayed with RANDOM_SEED
  */
 
 export class RandomSelector {
+  private static seed: number = config.random.seed;
+  private static state: number = config.random.seed;
+
+  /**
+   * Reset the generator to a seed
+   * @param seed - 32-bit integer seed
+   */
+  static setSeed(seed: number): void {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Get the seed the generator was last reset to
+   */
+  static getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Derive a stable seed for one test from the run seed
+   * Keeps each test's choices independent of test order and retries
+   * @param baseSeed - Run seed
+   * @param key - Stable key (e.g. test title path)
+   * @returns Derived 32-bit seed
+   */
+  static deriveSeed(baseSeed: number, key: string): number {
+    let hash = (0x811c9dc5 ^ baseSeed) >>> 0;
+    for (let i = 0; i < key.length; i++) {
+      hash ^= key.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  /**
+   * Next random float in [0, 1)
+   */
+  static next(): number {
+    this.state = (this.state + 0x6d2b79f5) | 0;
+    let t = Math.imul(this.state ^ (this.state >>> 15), 1 | this.state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
   /**
    * Get random index from array
    * @param length - Array length
@@ -11,7 +59,7 @@ export class RandomSelector {
    */
   static getRandomIndex(length: number): number {
     if (length <= 0) return 0;
-    return Math.floor(Math.random() * length);
+    return Math.floor(this.next() * length);
   }
 
   /**
@@ -32,6 +80,56 @@ export class RandomSelector {
    * @returns Random number
    */
   static getRandomNumber(min: number, max: number): number {
-    return Math.floor(Math.random() * (max - min + 1)) + min;
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+
+  /**
+   * Get random element with probability proportional to its weight
+   * @param array - Array to select from
+   * @param weights - Weight per element (same order), or a function returning it
+   * @returns Random element or null if array is empty or all weights are 0
+   */
+  static getWeightedElement<T>(array: T[], weights: number[] | ((item: T) => number)): T | null {
+    if (!array || array.length === 0) return null;
+
+    const itemWeights = array.map((item, index) =>
+      Math.max(0, typeof weights === 'function' ? weights(item) : weights[index] ?? 0)
+    );
+    const total = itemWeights.reduce((sum, weight) => sum + weight, 0);
+    if (total <= 0) return null;
+
+    let threshold = this.next() * total;
+    for (let i = 0; i < array.length; i++) {
+      threshold -= itemWeights[i];
+      if (threshold < 0) return array[i];
+    }
+    return array[array.length - 1];
+  }
+
+  /**
+   * Get N distinct random elements (partial Fisher-Yates shuffle)
+   * @param array - Array to select from
+   * @param count - Number of elements (capped at array length)
+   * @returns Distinct elements in random order
+   */
+  static getDistinctElements<T>(array: T[], count: number): T[] {
+    if (!array || array.length === 0 || count <= 0) return [];
+
+    const pool = [...array];
+    const picks = Math.min(count, pool.length);
+    for (let i = 0; i < picks; i++) {
+      const j = i + this.getRandomIndex(pool.length - i);
+      [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    return pool.slice(0, picks);
+  }
+
+  /**
+   * Shuffle a copy of an array
+   * @param array - Array to shuffle
+   * @returns Shuffled copy
+   */
+  static shuffle<T>(array: T[]): T[] {
+    return this.getDistinctElements(array, array.length);
   }
 }
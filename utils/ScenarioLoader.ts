@@ -0,0 +1,415 @@
+import { readFileSync, readdirSync, statSync } from 'fs';
+import { extname, join, relative } from 'path';
+import { Scenario } from '../models/Scenario';
+import { BudgetMode } from '../models/CartSummary';
+import { ItemCondition, ItemLocation, SortOrder } from '../models/SearchCriteria';
+import { BuyingFormat } from '../models/SearchResult';
+import { ReportSeverity } from '../models/ReportLabels';
+import { MARKETPLACES, MarketplaceId } from '../config/marketplaces';
+import { ScenarioValidationError } from './Errors';
+
+/**
+ * ScenarioLoader Utility
+ * Loads scenarios from a JSON file, a CSV file or a directory of both, and validates them against the Scenario schema
+ */
+
+// Allowed values per enum field (Record keys keep the lists in sync with the types)
+const BUDGET_MODES: Record<BudgetMode, true> = { subtotal: true, subtotalPlusShipping: true, grandTotal: true };
+const CONDITIONS: Record<ItemCondition, true> = { new: true, openBox: true, refurbished: true, used: true, forParts: true };
+const BUYING_FORMATS: Record<BuyingFormat, true> = { auction: true, buyItNow: true, bestOffer: true };
+const LOCATIONS: Record<ItemLocation, true> = { domestic: true, region: true, worldwide: true };
+const SORT_ORDERS: Record<SortOrder, true> = {
+  bestMatch: true,
+  endingSoonest: true,
+  newlyListed: true,
+  pricePlusShippingLowest: true,
+  pricePlusShippingHighest: true,
+};
+const SEVERITIES: Record<ReportSeverity, true> = { blocker: true, critical: true, normal: true, minor: true, trivial: true };
+
+const SCENARIO_FIELDS = [
+  'name', 'description', 'query', 'minPrice', 'maxPrice', 'limit', 'includeShipping', 'budgetMode', 'filters',
+  'requiredVariants', 'expectedMinResults', 'tags', 'marketplace', 'skip', 'only', 'labels',
+];
+export const FILTER_FIELDS = ['conditions', 'buyingFormat', 'freeShipping', 'sortOrder', 'categoryId', 'location'];
+const LABEL_FIELDS = ['epic', 'feature', 'story', 'severity'];
+
+// CSV rows are flat: filter and label fields are columns of their own, variants are "Dimension=Value;..."
+const CSV_NUMBER_COLUMNS = ['minPrice', 'maxPrice', 'limit', 'expectedMinResults'];
+const CSV_BOOLEAN_COLUMNS = ['includeShipping', 'freeShipping', 'skip', 'only'];
+const CSV_LIST_SEPARATOR = ';';
+
+const DEFAULT_LIMIT = 5;
+
+// Unknown fields this many edits from a known name (e.g. "maxPirce") get a "did you mean" hint
+const SUGGESTION_DISTANCE = 2;
+
+type Raw = Record<string, unknown>;
+
+export class ScenarioLoader {
+  /**
+   * Load and validate scenarios from a file or directory
+   * @param source - .json file, .csv file, or directory containing them
+   * @returns Validated scenarios with defaults applied
+   * @throws ScenarioValidationError listing every invalid field
+   */
+  static load(source: string): Scenario[] {
+    const scenarios = statSync(source).isDirectory() ? this.loadDirectory(source) : this.loadFile(source);
+
+    const seen = new Set<string>();
+    const duplicates = scenarios.map(scenario => scenario.name).filter(name => seen.has(name) || !seen.add(name));
+    if (duplicates.length > 0) {
+      throw new ScenarioValidationError(source, duplicates.map(name => `duplicate scenario name "${name}"`));
+    }
+    return scenarios;
+  }
+
+  /**
+   * Load every .json and .csv file of a directory (sorted by file name)
+   * @param dir - Directory path
+   */
+  static loadDirectory(dir: string): Scenario[] {
+    return readdirSync(dir)
+      .filter(file => ['.json', '.csv'].includes(extname(file).toLowerCase()))
+      .sort()
+      .flatMap(file => this.loadFile(join(dir, file)));
+  }
+
+  /**
+   * Load one scenario file
+   * JSON may hold { "scenarios": [...] }, an array, or a single scenario object
+   * @param file - .json or .csv path
+   */
+  static loadFile(file: string): Scenario[] {
+    const text = readFileSync(file, 'utf-8');
+    const source = relative(process.cwd(), file) || file;
+
+    if (extname(file).toLowerCase() === '.csv') {
+      return this.parseCsv(text, source);
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      throw new ScenarioValidationError(source, [`not valid JSON: ${(error as Error).message}`]);
+    }
+
+    const list = Array.isArray(data) ? data : this.isObject(data) && 'scenarios' in data ? data.scenarios : [data];
+    if (!Array.isArray(list)) {
+      throw new ScenarioValidationError(source, ['"scenarios" must be an array']);
+    }
+    return list.map((raw, index) => this.validate(raw, `${source} scenarios[${index}]`));
+  }
+
+  /**
+   * Parse CSV scenarios (header row + one scenario per row)
+   * Lists (tags, conditions) use ";" and variants use "Dimension=Value;Dimension=Value"
+   * @param text - CSV content
+   * @param source - File name for error messages
+   */
+  static parseCsv(text: string, source: string): Scenario[] {
+    const [header, ...rows] = this.parseCsvRows(text);
+    if (!header) {
+      return [];
+    }
+    const columns = header.map(column => column.trim());
+
+    return rows.map((cells, index) => {
+      const values: Record<string, string> = {};
+      columns.forEach((column, i) => {
+        if (column && (cells[i] ?? '').trim() !== '') values[column] = cells[i].trim();
+      });
+      return this.validate(this.csvRecordToRaw(values), `${source} row ${index + 2}`);
+    });
+  }
+
+  /**
+   * Check one raw scenario against the schema and apply defaults
+   * @param raw - Parsed JSON object or CSV record
+   * @param source - Location for error messages
+   * @throws ScenarioValidationError with one entry per invalid field
+   */
+  static validate(raw: unknown, source: string): Scenario {
+    if (!this.isObject(raw)) {
+      throw new ScenarioValidationError(source, ['scenario must be an object']);
+    }
+
+    const issues: string[] = [];
+    const check = (condition: boolean, issue: string) => {
+      if (!condition) issues.push(issue);
+    };
+    const isPositive = (value: unknown) => typeof value === 'number' && isFinite(value) && value > 0;
+    const isPositiveInteger = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+    const optional = (field: string, test: (value: unknown) => boolean, expected: string) => {
+      if (raw[field] !== undefined) check(test(raw[field]), `${field}: expected ${expected}, got ${this.describe(raw[field])}`);
+    };
+
+    this.checkUnknownFields(raw, SCENARIO_FIELDS, '', issues);
+
+    check(typeof raw.name === 'string' && raw.name.trim() !== '', `name: expected a non-empty string, got ${this.describe(raw.name)}`);
+    check(typeof raw.query === 'string' && raw.query.trim() !== '', `query: expected a non-empty string, got ${this.describe(raw.query)}`);
+    check(isPositive(raw.maxPrice), `maxPrice: expected a positive number, got ${this.describe(raw.maxPrice)}`);
+    optional('description', value => typeof value === 'string', 'a string');
+    optional('minPrice', value => typeof value === 'number' && value >= 0, 'a number >= 0');
+    optional('limit', isPositiveInteger, 'a positive integer');
+    optional('expectedMinResults', isPositiveInteger, 'a positive integer');
+    optional('includeShipping', value => typeof value === 'boolean', 'true or false');
+    optional('skip', value => typeof value === 'boolean', 'true or false');
+    optional('only', value => typeof value === 'boolean', 'true or false');
+    optional('budgetMode', value => this.isBudgetMode(value), `one of ${Object.keys(BUDGET_MODES).join(', ')}`);
+    optional('marketplace', value => this.isOneOf(value, MARKETPLACES), `one of ${Object.keys(MARKETPLACES).join(', ')}`);
+    optional('tags', value => this.isTagList(value), 'an array of words (letters, digits, "_" or "-")');
+    optional('requiredVariants', value => this.isObject(value) && Object.values(value).every(entry => typeof entry === 'string'),
+      'an object of dimension → value strings');
+
+    if (isPositive(raw.maxPrice) && typeof raw.minPrice === 'number') {
+      check(raw.minPrice <= (raw.maxPrice as number), `minPrice: ${raw.minPrice} is above maxPrice ${raw.maxPrice}`);
+    }
+
+    if (raw.filters !== undefined) {
+      this.checkFilters(raw.filters, issues);
+    }
+    if (raw.labels !== undefined) {
+      this.checkLabels(raw.labels, issues);
+    }
+
+    if (issues.length > 0) {
+      const name = typeof raw.name === 'string' ? ` ("${raw.name}")` : '';
+      throw new ScenarioValidationError(`${source}${name}`, issues);
+    }
+
+    return {
+      ...(raw as unknown as Scenario),
+      limit: (raw.limit as number | undefined) ?? DEFAULT_LIMIT,
+      budgetMode: (raw.budgetMode as BudgetMode | undefined) ?? 'subtotal',
+      expectedMinResults: (raw.expectedMinResults as number | undefined) ?? 1,
+      tags: (raw.tags as string[] | undefined) ?? [],
+    };
+  }
+
+  /**
+   * Why a scenario should not run here, or null when it should
+   * @param scenario - Validated scenario
+   * @param marketplace - Active marketplace
+   */
+  static skipReason(scenario: Scenario, marketplace: MarketplaceId): string | null {
+    if (scenario.skip) {
+      return 'Scenario is marked "skip"';
+    }
+    if (scenario.marketplace && scenario.marketplace !== marketplace) {
+      return `Scenario runs on the "${scenario.marketplace}" marketplace (active: "${marketplace}")`;
+    }
+    return null;
+  }
+
+  /**
+   * Check search filters (conditions, buyingFormat, freeShipping, sortOrder, categoryId, location)
+   * @param filters - Raw filters object
+   * @param issues - Collected issues, appended to
+   * @param prefix - Field path for messages
+   */
+  static checkFilters(filters: unknown, issues: string[], prefix: string = 'filters'): void {
+    if (!this.isObject(filters)) {
+      issues.push(`${prefix}: expected an object, got ${this.describe(filters)}`);
+      return;
+    }
+    this.checkUnknownFields(filters, FILTER_FIELDS, `${prefix}.`, issues);
+
+    const { conditions, buyingFormat, freeShipping, sortOrder, categoryId, location } = filters as Raw;
+    if (conditions !== undefined && !(Array.isArray(conditions) && conditions.every(value => this.isOneOf(value, CONDITIONS)))) {
+      issues.push(`${prefix}.conditions: expected an array of ${Object.keys(CONDITIONS).join(', ')}, got ${this.describe(conditions)}`);
+    }
+    if (buyingFormat !== undefined && !this.isOneOf(buyingFormat, BUYING_FORMATS)) {
+      issues.push(`${prefix}.buyingFormat: expected one of ${Object.keys(BUYING_FORMATS).join(', ')}, got ${this.describe(buyingFormat)}`);
+    }
+    if (freeShipping !== undefined && typeof freeShipping !== 'boolean') {
+      issues.push(`${prefix}.freeShipping: expected true or false, got ${this.describe(freeShipping)}`);
+    }
+    if (sortOrder !== undefined && !this.isOneOf(sortOrder, SORT_ORDERS)) {
+      issues.push(`${prefix}.sortOrder: expected one of ${Object.keys(SORT_ORDERS).join(', ')}, got ${this.describe(sortOrder)}`);
+    }
+    if (categoryId !== undefined && !(typeof categoryId === 'string' && /^\d+$/.test(categoryId))) {
+      issues.push(`${prefix}.categoryId: expected a numeric string, got ${this.describe(categoryId)}`);
+    }
+    if (location !== undefined && !this.isOneOf(location, LOCATIONS)) {
+      issues.push(`${prefix}.location: expected one of ${Object.keys(LOCATIONS).join(', ')}, got ${this.describe(location)}`);
+    }
+  }
+
+  /**
+   * Check Allure labels (epic, feature, story, severity)
+   * @param labels - Raw labels object
+   * @param issues - Collected issues, appended to
+   * @param prefix - Field path for messages
+   */
+  static checkLabels(labels: unknown, issues: string[], prefix: string = 'labels'): void {
+    if (!this.isObject(labels)) {
+      issues.push(`${prefix}: expected an object, got ${this.describe(labels)}`);
+      return;
+    }
+    this.checkUnknownFields(labels, LABEL_FIELDS, `${prefix}.`, issues);
+
+    for (const field of ['epic', 'feature', 'story']) {
+      if (labels[field] !== undefined && typeof labels[field] !== 'string') {
+        issues.push(`${prefix}.${field}: expected a string, got ${this.describe(labels[field])}`);
+      }
+    }
+    if (labels.severity !== undefined && !this.isOneOf(labels.severity, SEVERITIES)) {
+      issues.push(`${prefix}.severity: expected one of ${Object.keys(SEVERITIES).join(', ')}, got ${this.describe(labels.severity)}`);
+    }
+  }
+
+  /**
+   * Report fields the schema does not know (usually typos), suggesting the closest known name
+   * @param raw - Raw object
+   * @param known - Allowed field names
+   * @param prefix - Field path prefix for messages (e.g. "filters.")
+   * @param issues - Collected issues, appended to
+   */
+  static checkUnknownFields(raw: Raw, known: string[], prefix: string, issues: string[]): void {
+    for (const field of Object.keys(raw).filter(field => !known.includes(field))) {
+      const suggestion = this.closestName(field, known);
+      issues.push(`${prefix}${field}: unknown field${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`);
+    }
+  }
+
+  /**
+   * Known name closest to a field, if within SUGGESTION_DISTANCE edits (case-insensitive)
+   */
+  private static closestName(field: string, known: string[]): string | undefined {
+    let best: { name: string; distance: number } | undefined;
+    for (const name of known) {
+      const distance = this.editDistance(field.toLowerCase(), name.toLowerCase());
+      if (distance <= SUGGESTION_DISTANCE && (!best || distance < best.distance)) {
+        best = { name, distance };
+      }
+    }
+    return best?.name;
+  }
+
+  /**
+   * Levenshtein distance: insertions, deletions and substitutions turning a into b
+   */
+  private static editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      }
+      previous = current;
+    }
+    return previous[b.length];
+  }
+
+  /**
+   * Turn a CSV record into the JSON shape: numbers, booleans, lists and nested filters/labels/variants
+   * Unparseable values are kept as strings so the validator reports them
+   */
+  private static csvRecordToRaw(values: Record<string, string>): Raw {
+    const raw: Raw = {};
+    const filters: Raw = {};
+    const labels: Raw = {};
+
+    for (const [column, value] of Object.entries(values)) {
+      let parsed: unknown = value;
+      if (CSV_NUMBER_COLUMNS.includes(column) && value !== '' && !isNaN(Number(value))) {
+        parsed = Number(value);
+      } else if (CSV_BOOLEAN_COLUMNS.includes(column) && /^(true|false|yes|no)$/i.test(value)) {
+        parsed = /^(true|yes)$/i.test(value);
+      } else if (column === 'tags' || column === 'conditions') {
+        parsed = value.split(CSV_LIST_SEPARATOR).map(entry => entry.trim()).filter(Boolean);
+      } else if (column === 'requiredVariants') {
+        parsed = Object.fromEntries(value.split(CSV_LIST_SEPARATOR).filter(Boolean).map(entry => {
+          const [dimension, ...rest] = entry.split('=');
+          return [dimension.trim(), rest.join('=').trim()];
+        }));
+      }
+
+      if (FILTER_FIELDS.includes(column)) filters[column] = parsed;
+      else if (LABEL_FIELDS.includes(column)) labels[column] = parsed;
+      else raw[column] = parsed;
+    }
+
+    if (Object.keys(filters).length > 0) raw.filters = filters;
+    if (Object.keys(labels).length > 0) raw.labels = labels;
+    return raw;
+  }
+
+  /**
+   * Split CSV text into rows of cells (RFC 4180 quoting, "" escapes a quote)
+   */
+  private static parseCsvRows(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+    if (cell !== '' || row.length > 0) {
+      row.push(cell);
+      rows.push(row);
+    }
+
+    // Blank lines carry no scenario
+    return rows.filter(cells => cells.some(value => value.trim() !== ''));
+  }
+
+  /**
+   * Whether a value is a plain object (not null or an array)
+   */
+  static isObject(value: unknown): value is Raw {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * Whether a value is one of the BudgetMode names
+   */
+  static isBudgetMode(value: unknown): value is BudgetMode {
+    return this.isOneOf(value, BUDGET_MODES);
+  }
+
+  /**
+   * Whether a value is a list of tags (letters, digits, "_" or "-")
+   */
+  static isTagList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(tag => typeof tag === 'string' && /^[\w-]+$/.test(tag));
+  }
+
+  /**
+   * Render a raw value for an issue message
+   */
+  static describe(value: unknown): string {
+    return value === undefined ? 'nothing' : JSON.stringify(value);
+  }
+
+  private static isOneOf(value: unknown, allowed: Record<string, unknown>): boolean {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(allowed, value);
+  }
+}
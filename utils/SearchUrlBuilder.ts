@@ -0,0 +1,99 @@
+import { config } from '../config/env.config';
+import { SearchCriteria, SearchFilters, ItemCondition, SortOrder, ItemLocation } from '../models/SearchCriteria';
+import { BuyingFormat } from '../models/SearchResult';
+
+/**
+ * SearchUrlBuilder Utility
+ * Maps SearchCriteria to eBay /sch/i.html query parameters and back
+ */
+
+const CONDITION_IDS: Record<ItemCondition, string> = {
+  new: '1000',
+  openBox: '1500',
+  refurbished: '2500',
+  used: '3000',
+  forParts: '7000',
+};
+
+const SORT_ORDER_IDS: Record<SortOrder, string> = {
+  bestMatch: '12',
+  endingSoonest: '1',
+  newlyListed: '10',
+  pricePlusShippingLowest: '15',
+  pricePlusShippingHighest: '16',
+};
+
+const LOCATION_IDS: Record<ItemLocation, string> = {
+  domestic: '1',
+  worldwide: '2',
+  region: '3',
+};
+
+const BUYING_FORMAT_PARAMS: Record<BuyingFormat, string> = {
+  auction: 'LH_Auction',
+  buyItNow: 'LH_BIN',
+  bestOffer: 'LH_BO',
+};
+
+export class SearchUrlBuilder {
+  /**
+   * Build the search results URL for criteria
+   * @param criteria - Keyword and filters
+   * @returns Absolute /sch/i.html URL
+   */
+  static build(criteria: SearchCriteria): string {
+    const params = new URLSearchParams({ _nkw: criteria.query });
+
+    if (criteria.categoryId) params.set('_sacat', criteria.categoryId);
+    if (criteria.minPrice !== undefined) params.set('_udlo', String(criteria.minPrice));
+    if (criteria.maxPrice !== undefined) params.set('_udhi', String(criteria.maxPrice));
+    if (criteria.conditions?.length) {
+      params.set('LH_ItemCondition', criteria.conditions.map(condition => CONDITION_IDS[condition]).join('|'));
+    }
+    if (criteria.buyingFormat) params.set(BUYING_FORMAT_PARAMS[criteria.buyingFormat], '1');
+    if (criteria.freeShipping) params.set('LH_FS', '1');
+    if (criteria.location) params.set('LH_PrefLoc', LOCATION_IDS[criteria.location]);
+    if (criteria.sortOrder) params.set('_sop', SORT_ORDER_IDS[criteria.sortOrder]);
+
+    return `${config.baseURL}/sch/i.html?${params}`;
+  }
+
+  /**
+   * Read the filters encoded in a search results URL
+   * @param url - Search results URL
+   * @returns Filters found in the query string
+   */
+  static parse(url: string): SearchFilters {
+    const params = new URL(url, config.baseURL).searchParams;
+    const filters: SearchFilters = {};
+
+    const minPrice = parseFloat(params.get('_udlo') ?? '');
+    const maxPrice = parseFloat(params.get('_udhi') ?? '');
+    if (!isNaN(minPrice)) filters.minPrice = minPrice;
+    if (!isNaN(maxPrice)) filters.maxPrice = maxPrice;
+
+    const conditionIds = (params.get('LH_ItemCondition') ?? '').split('|').filter(Boolean);
+    if (conditionIds.length) {
+      filters.conditions = conditionIds
+        .map(id => this.keyFor(CONDITION_IDS, id))
+        .filter((condition): condition is ItemCondition => condition !== undefined);
+    }
+
+    for (const [format, param] of Object.entries(BUYING_FORMAT_PARAMS)) {
+      if (params.get(param) === '1') filters.buyingFormat = format as BuyingFormat;
+    }
+
+    if (params.get('LH_FS') === '1') filters.freeShipping = true;
+    if (params.get('_sacat') && params.get('_sacat') !== '0') filters.categoryId = params.get('_sacat')!;
+    filters.location = this.keyFor(LOCATION_IDS, params.get('LH_PrefLoc'));
+    filters.sortOrder = this.keyFor(SORT_ORDER_IDS, params.get('_sop'));
+
+    if (!filters.location) delete filters.location;
+    if (!filters.sortOrder) delete filters.sortOrder;
+    return filters;
+  }
+
+  private static keyFor<K extends string>(table: Record<K, string>, id: string | null): K | undefined {
+    return (Object.keys(table) as K[]).find(key => table[key] === id);
+  }
+}
@@ -0,0 +1,181 @@
+import {
+  ResultCard,
+  SearchCheck,
+  SearchExpectation,
+  SearchVerificationReport,
+  SearchViolation,
+} from '../models/SearchVerification';
+import { PriceParser } from './PriceParser';
+
+/**
+ * SearchVerifier Utility
+ * Checks result cards read from several pages against a sort order and a min/max price filter
+ */
+
+// Amounts are compared to the cent
+const AMOUNT_TOLERANCE = 0.005;
+
+// Landed cost as an interval: price ranges span min to max, unknown shipping adds 0 to ∞
+interface LandedCost {
+  low: number;
+  high: number;
+}
+
+export class SearchVerifier {
+  /**
+   * Check cards in the order they were shown (page by page)
+   * Price bounds apply to the item price of every card (eBay filters without shipping).
+   * The sort check compares each organic card with the organic card before it, across page
+   * boundaries; sponsored cards and repeats of an item already seen are left out.
+   * @param url - Results URL the walk started from
+   * @param cards - Cards of all walked pages, in page and position order
+   * @param expectation - Sort order and price bounds the results should meet
+   * @param pagesChecked - Number of pages the cards came from
+   */
+  static verify(url: string, cards: ResultCard[], expectation: SearchExpectation, pagesChecked: number): SearchVerificationReport {
+    const violations: SearchViolation[] = [];
+    const { sortOrder, minPrice, maxPrice } = expectation;
+
+    for (const card of cards) {
+      if (minPrice !== undefined && card.priceMax < minPrice - AMOUNT_TOLERANCE) {
+        violations.push(this.violation('minPrice', card, this.showPrice(card), PriceParser.format(minPrice), 'price below the minimum'));
+      }
+      if (maxPrice !== undefined && card.price > maxPrice + AMOUNT_TOLERANCE) {
+        violations.push(this.violation('maxPrice', card, this.showPrice(card), PriceParser.format(maxPrice), 'price above the maximum'));
+      }
+    }
+
+    const seen = new Set<string>();
+    const organic = cards.filter(card => {
+      if (card.sponsored || seen.has(card.itemId)) return false;
+      seen.add(card.itemId);
+      return true;
+    });
+
+    if (sortOrder) {
+      for (let index = 1; index < organic.length; index++) {
+        const previous = organic[index - 1];
+        const card = organic[index];
+        const violation = sortOrder === 'newlyListed'
+          ? this.checkListedOrder(previous, card)
+          : this.checkPriceOrder(previous, card, sortOrder === 'pricePlusShippingLowest');
+        if (violation) violations.push(violation);
+      }
+    }
+
+    // Report in the order the cards were shown
+    violations.sort((a, b) => a.page - b.page || a.position - b.position);
+
+    return {
+      url,
+      sortOrder: sortOrder ?? null,
+      minPrice: minPrice ?? null,
+      maxPrice: maxPrice ?? null,
+      pagesChecked,
+      itemsChecked: cards.length,
+      sponsoredSkipped: cards.filter(card => card.sponsored).length,
+      violations,
+    };
+  }
+
+  /**
+   * Landed cost (price plus shipping) of a card as an interval
+   * @param card - Result card
+   */
+  static landedCost(card: ResultCard): LandedCost {
+    return {
+      low: card.price + (card.shippingCost ?? 0),
+      high: card.priceMax + (card.shippingCost ?? Infinity),
+    };
+  }
+
+  /**
+   * Human-readable violations list, one line per offending card
+   * @param report - Result of verify
+   */
+  static format(report: SearchVerificationReport): string {
+    const checked = `${report.itemsChecked} item(s) on ${report.pagesChecked} page(s), ${report.sponsoredSkipped} sponsored`;
+    if (report.violations.length === 0) {
+      return `Search results meet the expectation (${checked})`;
+    }
+    return [
+      `${report.violations.length} violation(s) in ${checked}:`,
+      ...report.violations.map(violation =>
+        `  - page ${violation.page} #${violation.position} ${violation.itemId} [${violation.check}] ${violation.detail}: ${violation.value} vs ${violation.bound} - ${violation.title.substring(0, 50)}`),
+    ].join('\n');
+  }
+
+  /**
+   * Render violations as CSV (Allure shows CSV attachments as a table)
+   * @param violations - Offending cards
+   */
+  static toCsv(violations: SearchViolation[]): string {
+    const cell = (value: unknown) => `"${String(value).replace(/"/g, '""')}"`;
+    const header = ['Page', 'Position', 'Check', 'Item ID', 'Value', 'Bound', 'Detail', 'Title'];
+    const rows = violations.map(violation => [
+      violation.page,
+      violation.position,
+      violation.check,
+      violation.itemId,
+      violation.value,
+      violation.bound,
+      violation.detail,
+      violation.title,
+    ]);
+    return [header, ...rows].map(row => row.map(cell).join(',')).join('\n');
+  }
+
+  /**
+   * A card is out of order only when its whole landed cost interval lies on the wrong side of the previous one
+   */
+  private static checkPriceOrder(previous: ResultCard, card: ResultCard, ascending: boolean): SearchViolation | null {
+    const before = this.landedCost(previous);
+    const cost = this.landedCost(card);
+    const outOfOrder = ascending
+      ? cost.high < before.low - AMOUNT_TOLERANCE
+      : cost.low > before.high + AMOUNT_TOLERANCE;
+    if (!outOfOrder) {
+      return null;
+    }
+
+    return this.violation(
+      'sort',
+      card,
+      this.showCost(cost),
+      this.showCost(before),
+      `landed cost ${ascending ? 'lower' : 'higher'} than the previous item (${previous.itemId}, page ${previous.page} #${previous.position})`
+    );
+  }
+
+  /**
+   * Cards without a listing time cannot be placed and are not compared
+   */
+  private static checkListedOrder(previous: ResultCard, card: ResultCard): SearchViolation | null {
+    if (previous.listedAt === null || card.listedAt === null || card.listedAt <= previous.listedAt) {
+      return null;
+    }
+
+    return this.violation(
+      'sort',
+      card,
+      new Date(card.listedAt).toISOString(),
+      new Date(previous.listedAt).toISOString(),
+      `listed after the previous item (${previous.itemId}, page ${previous.page} #${previous.position})`
+    );
+  }
+
+  private static violation(check: SearchCheck, card: ResultCard, value: string, bound: string, detail: string): SearchViolation {
+    return { check, page: card.page, position: card.position, itemId: card.itemId, title: card.title, value, bound, detail };
+  }
+
+  private static showPrice(card: ResultCard): string {
+    return card.priceMax > card.price
+      ? `${PriceParser.format(card.price)} to ${PriceParser.format(card.priceMax)}`
+      : PriceParser.format(card.price);
+  }
+
+  private static showCost(cost: LandedCost): string {
+    if (cost.high === Infinity) return `${PriceParser.format(cost.low)}+`;
+    return cost.high > cost.low ? `${PriceParser.format(cost.low)} to ${PriceParser.format(cost.high)}` : PriceParser.format(cost.low);
+  }
+}
@@ -0,0 +1,60 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type { Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import { config } from '../config/env.config';
+import { SelectorRegistry } from './SelectorRegistry';
+import { SelectorUsage } from '../models/SelectorUsage';
+
+/**
+ * Name of the per-test attachment the selectorUsage fixture writes
+ */
+export const SELECTOR_USAGE_ATTACHMENT = 'selector-usage';
+
+/**
+ * SelectorDriftReporter - Playwright reporter that merges the selector usage of every test
+ * Writes config.selectors.driftReportPath and lists elements that only resolved through a fallback, not every time, or not at all
+ */
+export default class SelectorDriftReporter implements Reporter {
+  private readonly records: SelectorUsage[] = [];
+
+  onTestEnd(_test: TestCase, result: TestResult): void {
+    for (const attachment of result.attachments) {
+      if (attachment.name === SELECTOR_USAGE_ATTACHMENT && attachment.body) {
+        this.records.push(...(JSON.parse(attachment.body.toString()) as SelectorUsage[]));
+      }
+    }
+  }
+
+  onEnd(): void {
+    if (this.records.length === 0) {
+      return;
+    }
+
+    const elements = SelectorRegistry.drift(SelectorRegistry.merge(this.records));
+    const path = config.selectors.driftReportPath;
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, JSON.stringify({ marketplace: config.marketplace.id, baseURL: config.baseURL, elements }, null, 2));
+
+    const flagged = elements.filter(element => element.status !== 'primary');
+    if (flagged.length === 0) {
+      console.log(`\n✓ Selector drift: all ${elements.length} elements resolved through their primary selector (${path})`);
+      return;
+    }
+
+    console.log(`\n⚠️  Selector drift: ${flagged.length} of ${elements.length} elements need attention (${path})`);
+    for (const element of flagged) {
+      const total = element.misses + element.hits.reduce((sum, hits) => sum + hits, 0);
+      const detail = element.status === 'missing'
+        ? `no candidate matched (${element.misses}×)`
+        : element.status === 'degraded'
+          ? `no candidate matched in ${element.misses} of ${total} lookups, otherwise ${element.matched}`
+          : `only candidate ${element.candidates.indexOf(element.matched ?? '') + 1}/${element.candidates.length} matched: ${element.matched}`;
+      const name = element.layout === 'mobile' ? `${element.key} (mobile)` : element.key;
+      console.log(`  ${element.status.padEnd(8)} ${name.padEnd(28)} ${detail}`);
+    }
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,191 @@
+import { Page, Locator } from '@playwright/test';
+import { SelectorGroups, SelectorKey } from '../config/selectors';
+import { SelectorRegistry } from './SelectorRegistry';
+import { CandidateProbe, SelectorHealth } from '../models/SelectorHealth';
+
+/**
+ * SelectorHealthCheck Utility
+ * Probes every candidate of the registry elements on a live page: match count and visibility
+ */
+
+// Elements that live inside another element and are probed within its first match
+const PARENTS: Partial<Record<SelectorKey, SelectorKey>> = {
+  'search.facetHeading': 'search.facetGroup',
+  'search.facetOption': 'search.facetGroup',
+  'search.facetOptionLabel': 'search.facetGroup',
+  'search.cardPrice': 'search.resultCard',
+  'search.cardLink': 'search.resultCard',
+  'search.cardTitle': 'search.resultCard',
+  'search.cardCondition': 'search.resultCard',
+  'search.cardAttributeRows': 'search.resultCard',
+  'search.cardSponsored': 'search.resultCard',
+  'product.skuLabel': 'product.skuControls',
+  'product.skuMenuButton': 'product.skuControls',
+  'product.skuSwatch': 'product.skuControls',
+  'cart.lineTitle': 'cart.lineItems',
+  'cart.lineVariants': 'cart.lineItems',
+  'cart.lineQuantity': 'cart.lineItems',
+  'cart.linePrice': 'cart.lineItems',
+  'cart.lineWarnings': 'cart.lineItems',
+  'cart.quantityDropdown': 'cart.lineItems',
+  'cart.removeButton': 'cart.lineItems',
+  'cart.saveForLaterButton': 'cart.lineItems',
+  'cart.moveToCartButton': 'cart.savedItems',
+};
+
+// Elements a healthy page may lack (listings without variants, carts without saved items, ...)
+const OPTIONAL = new Set<SelectorKey>([
+  'search.cardCondition',
+  'search.cardSponsored',
+  'product.quantity',
+  'product.addToCartConfirmation',
+  'product.addToCartError',
+  'product.skuControls',
+  'product.skuLabel',
+  'product.skuMenuButton',
+  'product.skuSwatch',
+  'cart.lineVariants',
+  'cart.lineWarnings',
+  'cart.quantityDropdown',
+  'cart.savedItems',
+  'cart.moveToCartButton',
+]);
+
+export class SelectorHealthCheck {
+  /**
+   * Probe every element of a page group on the current page
+   * Children of a missing optional parent are skipped as optional too
+   * @param page - Page showing the group's screen
+   * @param group - Registry group (search, product, cart, ...)
+   * @param optional - Further elements the page may lack this time (e.g. cart rows when nothing was added)
+   * @returns One result per element
+   */
+  static async checkGroup(page: Page, group: keyof SelectorGroups, optional: SelectorKey[] = []): Promise<SelectorHealth[]> {
+    const results: SelectorHealth[] = [];
+    const isOptional = (key: SelectorKey) => OPTIONAL.has(key) || optional.includes(key);
+
+    for (const key of SelectorRegistry.keys(group)) {
+      const parentKey = PARENTS[key];
+      if (!parentKey) {
+        results.push(await this.check(page, key, isOptional(key)));
+        continue;
+      }
+
+      const parent = await this.firstMatch(page, parentKey);
+      results.push(parent
+        ? await this.check(parent, key, isOptional(key))
+        : this.skipped(key, `parent ${parentKey} not found`, isOptional(key) || isOptional(parentKey)));
+    }
+    return results;
+  }
+
+  /**
+   * An element and the elements probed inside it (e.g. cart.lineItems and its row elements)
+   * @param key - Parent element
+   */
+  static withChildren(key: SelectorKey): SelectorKey[] {
+    return [key, ...(Object.keys(PARENTS) as SelectorKey[]).filter(child => PARENTS[child] === key)];
+  }
+
+  /**
+   * Mark every element of a group as skipped (e.g. the page could not be opened)
+   * @param group - Registry group
+   * @param note - Reason
+   */
+  static skipGroup(group: keyof SelectorGroups, note: string): SelectorHealth[] {
+    return SelectorRegistry.keys(group).map(key => this.skipped(key, note));
+  }
+
+  /**
+   * Probe each candidate of one element
+   * @param scope - Page or parent element
+   * @param key - Registry key
+   * @param optional - Whether the page may lack the element (default: listed as optional)
+   */
+  static async check(scope: Page | Locator, key: SelectorKey, optional: boolean = OPTIONAL.has(key)): Promise<SelectorHealth> {
+    const candidates: CandidateProbe[] = [];
+    for (const selector of SelectorRegistry.candidates(key)) {
+      const locator = scope.locator(selector);
+      const count = await locator.count().catch(() => 0);
+      const visible = count > 0 && await locator.first().isVisible().catch(() => false);
+      candidates.push({ selector, count, visible });
+    }
+
+    const index = candidates.findIndex(candidate => candidate.count > 0);
+    const match = candidates[index];
+    return {
+      key,
+      status: index < 0 ? 'missing' : index === 0 ? 'ok' : 'fallback',
+      optional,
+      matched: match?.selector ?? null,
+      count: match?.count ?? 0,
+      visible: match?.visible ?? false,
+      candidates,
+    };
+  }
+
+  /**
+   * Whether the results let the real suite run
+   * @param elements - Probe results
+   * @param strict - Also fail when a required element only matched through a fallback
+   */
+  static passed(elements: SelectorHealth[], strict: boolean): boolean {
+    return this.failures(elements, strict).length === 0;
+  }
+
+  /**
+   * Required elements that fail the check: missing, skipped (their page or parent was not reached)
+   * or, when strict, matched only through a fallback
+   * @param elements - Probe results
+   * @param strict - Also count fallbacks
+   */
+  static failures(elements: SelectorHealth[], strict: boolean): SelectorHealth[] {
+    return elements
+      .filter(element => !element.optional)
+      .filter(element => element.status !== 'ok' && (strict || element.status !== 'fallback'));
+  }
+
+  /**
+   * Render the results as a plain-text table
+   * @param elements - Probe results
+   */
+  static format(elements: SelectorHealth[]): string {
+    const icons = { ok: '✓', fallback: '⚠️ ', missing: '❌', skipped: '-' };
+    const rows = [['', 'Element', 'Status', 'Count', 'Visible', 'Matched'], ...elements.map(element => [
+      element.optional && element.status === 'missing' ? '·' : icons[element.status],
+      element.key,
+      element.optional ? `${element.status} (optional)` : element.status,
+      String(element.count),
+      element.count > 0 ? (element.visible ? 'yes' : 'no') : '-',
+      element.note ?? element.matched ?? '',
+    ])];
+
+    const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+    return rows
+      .map(row => row.map((cell, column) => column === row.length - 1 ? cell : cell.padEnd(widths[column])).join('  '))
+      .join('\n');
+  }
+
+  private static async firstMatch(page: Page, key: SelectorKey): Promise<Locator | null> {
+    for (const selector of SelectorRegistry.candidates(key)) {
+      const locator = page.locator(selector).first();
+      if (await locator.count().catch(() => 0) > 0) {
+        return locator;
+      }
+    }
+    return null;
+  }
+
+  private static skipped(key: SelectorKey, note: string, optional: boolean = OPTIONAL.has(key)): SelectorHealth {
+    return {
+      key,
+      status: 'skipped',
+      optional,
+      matched: null,
+      count: 0,
+      visible: false,
+      candidates: [],
+      note,
+    };
+  }
+}
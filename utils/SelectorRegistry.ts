@@ -0,0 +1,164 @@
+import { Page, Locator } from '@playwright/test';
+import { config } from '../config/env.config';
+import { selectorsFor, mobileSelectorsFor, PageLayout, SelectorGroups, SelectorKey } from '../config/selectors';
+import { SelectorDrift, SelectorUsage } from '../models/SelectorUsage';
+
+export interface ResolveOptions {
+  /** Wait up to this long for any candidate to show up (default: config.timeout.resolve, 0 checks once) */
+  timeout?: number;
+  /** Only accept candidates whose first match is visible */
+  visible?: boolean;
+  /** Extra check a matching candidate must pass (e.g. text parses as a price); failing ones fall through */
+  accept?: (locator: Locator) => Promise<boolean>;
+  /** Layout whose candidates to use (default: desktop) */
+  layout?: PageLayout;
+}
+
+type CandidateGroups = Record<string, Record<string, string[]> | undefined>;
+
+/**
+ * SelectorRegistry Utility
+ * Resolves logical elements ("cart.removeButton") through their candidate chain in config/selectors.ts
+ * and records which candidate matched, for the selector drift report
+ */
+export class SelectorRegistry {
+  private static readonly groups = selectorsFor(config.marketplace.texts);
+  private static readonly mobileGroups = mobileSelectorsFor(config.marketplace.texts);
+  private static readonly usage = new Map<string, SelectorUsage>();
+
+  /**
+   * Candidate selectors of an element, primary first
+   * @param key - Registry key
+   * @param layout - Mobile uses its own chain where config/selectors.ts defines one (default: desktop)
+   */
+  static candidates(key: SelectorKey, layout: PageLayout = 'desktop'): string[] {
+    const [group, element] = key.split('.');
+    const mobile = layout === 'mobile' ? (this.mobileGroups as CandidateGroups)[group]?.[element] : undefined;
+    const candidates = mobile ?? (this.groups as CandidateGroups)[group]?.[element];
+    if (!candidates) {
+      throw new Error(`Unknown ${layout} selector "${key}"`);
+    }
+    return candidates;
+  }
+
+  /**
+   * Keys of every element of one page group, in declaration order
+   * @param group - Page group (search, product, cart, checkout, login)
+   * @param layout - Mobile adds its mobile-only elements (default: desktop)
+   */
+  static keys(group: keyof SelectorGroups, layout: PageLayout = 'desktop'): SelectorKey[] {
+    const elements = Object.keys(this.groups[group]);
+    if (layout === 'mobile') {
+      elements.push(...Object.keys((this.mobileGroups as CandidateGroups)[group] ?? {}).filter(element => !elements.includes(element)));
+    }
+    return elements.map(element => `${group}.${element}` as SelectorKey);
+  }
+
+  /**
+   * Locator matching any candidate, without resolving or recording
+   * For long-lived Locator fields and elements that are waited for rather than looked up
+   * @param scope - Page or parent locator
+   * @param key - Registry key
+   * @param layout - Page layout (default: desktop)
+   */
+  static any(scope: Page | Locator, key: SelectorKey, layout: PageLayout = 'desktop'): Locator {
+    return this.candidates(key, layout).map(selector => scope.locator(selector)).reduce((first, next) => first.or(next));
+  }
+
+  /**
+   * Find the first candidate that matches and record which one it was
+   * @param scope - Page or parent locator
+   * @param key - Registry key
+   * @param options - Wait time, visibility, extra acceptance check and layout
+   * @returns Locator of the matching candidate, or of all candidates when none matched
+   */
+  static async resolve(scope: Page | Locator, key: SelectorKey, options: ResolveOptions = {}): Promise<Locator> {
+    const layout = options.layout ?? 'desktop';
+    const locators = this.candidates(key, layout).map(selector => scope.locator(selector));
+
+    const timeout = options.timeout ?? config.timeout.resolve;
+    if (timeout > 0) {
+      const state = options.visible ? 'visible' : 'attached';
+      await this.any(scope, key, layout).first().waitFor({ state, timeout }).catch(() => undefined);
+    }
+
+    for (const [index, locator] of locators.entries()) {
+      const matches = (await locator.count()) > 0 &&
+        (!options.visible || await locator.first().isVisible()) &&
+        (!options.accept || await options.accept(locator).catch(() => false));
+      if (matches) {
+        this.record(key, layout, index);
+        return locator;
+      }
+    }
+
+    this.record(key, layout, null);
+    return this.any(scope, key, layout);
+  }
+
+  /**
+   * Usage recorded since the last reset
+   */
+  static getUsage(): SelectorUsage[] {
+    return [...this.usage.values()].map(entry => ({ ...entry, hits: [...entry.hits] }));
+  }
+
+  /**
+   * Forget recorded usage (called before every test)
+   */
+  static reset(): void {
+    this.usage.clear();
+  }
+
+  /**
+   * Add usage records of the same elements (and layout) together
+   * @param records - Usage from several tests or workers
+   */
+  static merge(records: SelectorUsage[]): SelectorUsage[] {
+    const merged = new Map<string, SelectorUsage>();
+    for (const record of records) {
+      const id = `${record.layout} ${record.key}`;
+      const entry = merged.get(id);
+      if (!entry) {
+        merged.set(id, { ...record, hits: [...record.hits] });
+        continue;
+      }
+      record.hits.forEach((hits, index) => entry.hits[index] = (entry.hits[index] ?? 0) + hits);
+      entry.misses += record.misses;
+    }
+    return [...merged.values()];
+  }
+
+  /**
+   * Classify merged usage per element
+   * @param usage - Merged usage
+   * @returns One entry per element, sorted with missing first, then degraded, fallback and primary
+   */
+  static drift(usage: SelectorUsage[]): SelectorDrift[] {
+    const order = { missing: 0, degraded: 1, fallback: 2, primary: 3 };
+    return usage
+      .map(entry => {
+        const best = entry.hits.reduce((bestIndex, hits, index) => hits > entry.hits[bestIndex] ? index : bestIndex, 0);
+        const resolved = entry.hits.some(hits => hits > 0);
+        const status = !resolved ? 'missing' : entry.misses > 0 ? 'degraded' : entry.hits[0] > 0 ? 'primary' : 'fallback';
+        return { ...entry, status, matched: resolved ? entry.candidates[best] : null } as SelectorDrift;
+      })
+      .sort((a, b) => order[a.status] - order[b.status] || a.key.localeCompare(b.key) || a.layout.localeCompare(b.layout));
+  }
+
+  private static record(key: SelectorKey, layout: PageLayout, index: number | null): void {
+    const id = `${layout} ${key}`;
+    let entry = this.usage.get(id);
+    if (!entry) {
+      const candidates = this.candidates(key, layout);
+      entry = { key, layout, candidates, hits: candidates.map(() => 0), misses: 0 };
+      this.usage.set(id, entry);
+    }
+
+    if (index === null) {
+      entry.misses++;
+    } else {
+      entry.hits[index]++;
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { CartSummary, BudgetMode } from '../models/CartSummary';
+import { PriceParser } from './PriceParser';
+import { config } from '../config/env.config';
+
+/**
+ * SummaryParser Utility
+ * Classifies price summary rows (cart summary box, checkout order summary) by their label
+ */
+
+export interface SummaryRows {
+  itemSubtotal: number | null;
+  shipping: number;
+  tax: number | null;
+  /** Items + shipping line, when shown separately */
+  subtotal: number | null;
+  orderTotal: number | null;
+}
+
+export class SummaryParser {
+  /**
+   * Classify summary rows, so the order on the page does not matter
+   * Labels are matched with the active marketplace's patterns
+   * @param rows - Cell texts per row ("Items (3)", "$120.00")
+   * @returns Amounts found per component
+   */
+  static parseRows(rows: string[][]): SummaryRows {
+    const summary: SummaryRows = { itemSubtotal: null, shipping: 0, tax: null, subtotal: null, orderTotal: null };
+    const patterns = config.marketplace.patterns;
+
+    for (const cells of rows) {
+      if (cells.length < 2) continue;
+
+      const label = cells[0].trim();
+      const amountText = cells[cells.length - 1];
+      const amount = patterns.free.test(amountText) ? 0 : PriceParser.parse(amountText);
+
+      if (patterns.itemsRow.test(label)) summary.itemSubtotal = amount;
+      else if (patterns.shippingRow.test(label)) summary.shipping = amount;
+      else if (patterns.taxRow.test(label)) summary.tax = amount;
+      else if (patterns.orderTotalRow.test(label)) summary.orderTotal = amount;
+      else if (patterns.subtotalRow.test(label)) summary.subtotal = amount;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Pick the amount that counts toward a budget
+   * @param summary - Cart or order summary
+   * @param mode - Budget mode
+   */
+  static budgetedAmount(summary: CartSummary, mode: BudgetMode): number {
+    switch (mode) {
+      case 'subtotal':
+        return summary.itemSubtotal;
+      case 'subtotalPlusShipping':
+        return summary.itemSubtotal + summary.shipping;
+      case 'grandTotal':
+        return summary.orderTotal;
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { test } from '@playwright/test';
+import { join } from 'path';
+import { config } from '../config/env.config';
+
+/**
+ * TestPaths Utility
+ * Per-test file locations, so tests running in parallel workers never write to the same file
+ */
+export class TestPaths {
+  /**
+   * File-name-safe slug of a test's title path ("ebay-shopping-ebay-shopping-e2e-tests-...")
+   * @param titlePath - testInfo.titlePath (file, describe blocks, title)
+   */
+  static slug(titlePath: string[]): string {
+    return titlePath
+      .join(' ')
+      .toLowerCase()
+      .replace(/\.spec\.ts\b/g, '')
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '')
+      .slice(0, 120);
+  }
+
+  /**
+   * Screenshot directory of the running test: <screenshots>/<project>/worker-<n>/<test slug>
+   * Outside the test runner (scripts) the screenshots root itself
+   */
+  static screenshotDir(): string {
+    let testInfo: ReturnType<typeof test.info>;
+    try {
+      testInfo = test.info();
+    } catch {
+      return config.screenshots.path;
+    }
+    return join(
+      config.screenshots.path,
+      testInfo.project.name || 'default',
+      `worker-${testInfo.parallelIndex}`,
+      this.slug(testInfo.titlePath)
+    );
+  }
+}